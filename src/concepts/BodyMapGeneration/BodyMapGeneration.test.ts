@@ -7,7 +7,9 @@ import {
 import { Db, MongoClient } from "npm:mongodb";
 import { testDb } from "@utils/database.ts";
 import BodyMapGenerationConcept from "./BodyMapGenerationConcept.ts";
+import PainLocationScoringConcept from "../PainLocationScoring/PainLocationScoringConcept.ts";
 import { ID } from "@utils/types.ts";
+import { TemplateView } from "./templates.ts";
 
 // Helper function to get a Date object representing midnight of a given date.
 // This is useful for testing `triggerDailyMapGeneration` which compares dates without time.
@@ -15,6 +17,14 @@ function getMidnight(date: Date): Date {
   return new Date(date.getFullYear(), date.getMonth(), date.getDate());
 }
 
+// Helper function to get the UTC calendar date of a moment, the form in which
+// maps record the calendar date they represent for users in UTC.
+function getUTCMidnight(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
 Deno.test("BodyMapGeneration", async (test) => {
   let client: MongoClient | null = null; // Initialize client to null for safety in finally block
   let db: Db;
@@ -115,8 +125,14 @@ Deno.test("BodyMapGeneration", async (test) => {
         "User 1's currentMapId should still point to the first map after manual save",
       );
 
-      // Action: Generate Second Map for User 1 (same day, implicitly saves the previous)
+      // Action: Generate Second Map for User 1 (next day, implicitly saves the previous)
       console.log("Principle: Generating second map for User 1");
+      const twoDaysAgo = getUTCMidnight(
+        new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+      );
+      await concept.maps.updateOne({ _id: firstMapId }, {
+        $set: { creationDate: twoDaysAgo },
+      });
       const generateResult2 = await concept.generateMap({ user: testUser1Id });
       assertExists(generateResult2);
       assert(
@@ -219,15 +235,17 @@ Deno.test("BodyMapGeneration", async (test) => {
         "User 2's first map should not be saved initially",
       );
 
-      // Manually set dailyGenerationStatus.lastRunDate to *yesterday* to simulate a new day for the trigger
+      // Manually date both users' last maps *yesterday* to simulate a new day for the trigger
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1); // Set to yesterday's date
-      await concept.dailyGenerationStatus.insertOne({
-        _id: "dailyGeneration",
-        lastRunDate: yesterday,
+      await concept.users.updateMany({}, {
+        $set: { lastMapDate: getUTCMidnight(yesterday) },
+      });
+      await concept.maps.updateMany({ isSaved: false }, {
+        $set: { creationDate: getUTCMidnight(yesterday) },
       });
       console.log(
-        `Principle: Manually set dailyGenerationStatus to yesterday: ${yesterday.toISOString()}`,
+        `Principle: Manually set last map dates to yesterday: ${yesterday.toISOString()}`,
       );
 
       // Action: Trigger Daily Map Generation
@@ -369,7 +387,10 @@ Deno.test("BodyMapGeneration", async (test) => {
       const statusAfterDaily = await concept.dailyGenerationStatus.findOne({
         _id: "dailyGeneration",
       });
-      assertExists(statusAfterDaily, "Daily generation status should exist");
+      assertExists(
+        statusAfterDaily?.lastRunDate,
+        "Daily generation status should exist",
+      );
       assertEquals(
         getMidnight(statusAfterDaily.lastRunDate).getTime(),
         getMidnight(new Date()).getTime(),
@@ -399,10 +420,9 @@ Deno.test("BodyMapGeneration", async (test) => {
       const map3User1StateAfterClear = await concept.maps.findOne({
         _id: user1_thirdMapId,
       });
-      assertEquals(
-        map3User1StateAfterClear,
-        null,
-        "User 1's third map should be deleted after clearing",
+      assertExists(
+        map3User1StateAfterClear?.trashedAt,
+        "User 1's third map should be moved to the trash after clearing",
       );
 
       // Querying current map should now return null
@@ -460,7 +480,7 @@ Deno.test("BodyMapGeneration", async (test) => {
     }
   });
 
-  await test.step("Action: Generating a map twice for the same user on the same day updates current and saves previous", async () => {
+  await test.step("Action: Generating a map twice for the same user on the same day returns the same map", async () => {
     try {
       [db, client] = await testDb();
       const concept = new BodyMapGenerationConcept(db);
@@ -474,65 +494,52 @@ Deno.test("BodyMapGeneration", async (test) => {
       );
       const mapId1 = genResult1.mapId;
 
-      let userState = await concept.users.findOne({ _id: testUser });
-      assertEquals(
-        userState?.currentMapId,
-        mapId1,
-        "User's current map should be the first generated map",
-      );
-      let mapState1 = await concept.maps.findOne({ _id: mapId1 });
-      assertEquals(
-        mapState1?.isSaved,
-        false,
-        "First map should not be saved initially",
-      );
-
       // Second generation immediately after (same day)
       const genResult2 = await concept.generateMap({ user: testUser });
       assert(
         "mapId" in genResult2,
         `Error generating second map: ${JSON.stringify(genResult2)}`,
       );
-      const mapId2 = genResult2.mapId;
-      assertNotEquals(
-        mapId1,
-        mapId2,
-        "Second generated map ID should be different from the first",
-      );
-
-      userState = await concept.users.findOne({ _id: testUser });
       assertEquals(
-        userState?.currentMapId,
-        mapId2,
-        "User's current map should be updated to the second generated map",
+        genResult2.mapId,
+        mapId1,
+        "Generating again on the same day should return the existing map",
       );
 
-      mapState1 = await concept.maps.findOne({ _id: mapId1 });
+      const userState = await concept.users.findOne({ _id: testUser });
+      assertEquals(userState?.currentMapId, mapId1);
+      const mapState1 = await concept.maps.findOne({ _id: mapId1 });
       assertEquals(
         mapState1?.isSaved,
-        true,
-        "Previous map (mapId1) should be saved after new map generation",
-      );
-
-      const mapState2 = await concept.maps.findOne({ _id: mapId2 });
-      assertEquals(
-        mapState2?.isSaved,
         false,
-        "Newly generated map (mapId2) should not be saved",
+        "The day's map should stay current, not be archived",
       );
+      assertEquals(await concept.maps.countDocuments({ ownerId: testUser }), 1);
+    } finally {
+      await client?.close();
+    }
+  });
 
-      const savedMaps = await concept._getSavedMaps({ user: testUser });
-      assert("maps" in savedMaps);
-      assertEquals(
-        savedMaps.maps.length,
-        1,
-        "Expected only the first map to be in the saved list",
-      );
-      assertEquals(
-        savedMaps.maps[0]._id,
-        mapId1,
-        "The saved map should be the first generated map",
+  await test.step("Action: Concurrent generation for a new user creates a single map", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "testUserConcurrentGenerate_action" as ID;
+
+      const results = await Promise.all(
+        [1, 2, 3].map(() => concept.generateMap({ user: testUser })),
       );
+      const mapIds = results.map((result) => {
+        assert(
+          "mapId" in result,
+          `Error generating map: ${JSON.stringify(result)}`,
+        );
+        return result.mapId;
+      });
+      assertEquals(new Set(mapIds).size, 1, "Every call returns the same map");
+      assertEquals(await concept.maps.countDocuments({ ownerId: testUser }), 1);
+      const userState = await concept.users.findOne({ _id: testUser });
+      assertEquals(userState?.currentMapId, mapIds[0]);
     } finally {
       await client?.close();
     }
@@ -618,52 +625,247 @@ Deno.test("BodyMapGeneration", async (test) => {
     }
   });
 
-  await test.step("Action: Daily map generation fails if run twice on the same calendar day", async () => {
+  await test.step("Action: Daily map generation rolls each user over at most once per local day", async () => {
     try {
       [db, client] = await testDb();
       const concept = new BodyMapGenerationConcept(db);
       const testUser = "userForDailyGenCheck_action" as ID;
 
-      // Ensure a user exists so the trigger has something to do
-      await concept.generateMap({ user: testUser });
+      // A map generated today is not rolled over again today
+      const generateResult = await concept.generateMap({ user: testUser });
+      assert("mapId" in generateResult);
+      const sameDayResult = await concept.triggerDailyMapGeneration();
+      assert(
+        !("error" in sameDayResult),
+        `Daily trigger failed: ${JSON.stringify(sameDayResult)}`,
+      );
+      let userState = await concept.users.findOne({ _id: testUser });
+      assertEquals(
+        userState?.currentMapId,
+        generateResult.mapId,
+        "A map generated today should not be rolled over today",
+      );
 
-      // Simulate a previous day's run so the first trigger call is valid for "today"
+      // Once the user's day has changed, the trigger rolls them over exactly once
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1);
-      await concept.dailyGenerationStatus.insertOne({
-        _id: "dailyGeneration",
-        lastRunDate: yesterday,
+      await concept.users.updateOne({ _id: testUser }, {
+        $set: { lastMapDate: getUTCMidnight(yesterday) },
+      });
+      await concept.maps.updateOne({ _id: generateResult.mapId }, {
+        $set: { creationDate: getUTCMidnight(yesterday) },
       });
-
-      // First run on "today"
       const firstTriggerResult = await concept.triggerDailyMapGeneration();
-      assertExists(firstTriggerResult);
       assert(
         !("error" in firstTriggerResult),
         `First daily trigger failed: ${JSON.stringify(firstTriggerResult)}`,
       );
+      userState = await concept.users.findOne({ _id: testUser });
+      const rolledMapId = userState?.currentMapId;
+      assertExists(rolledMapId);
+      assertNotEquals(rolledMapId, generateResult.mapId);
+
+      const secondTriggerResult = await concept.triggerDailyMapGeneration();
+      assert(!("error" in secondTriggerResult));
+      userState = await concept.users.findOne({ _id: testUser });
+      assertEquals(
+        userState?.currentMapId,
+        rolledMapId,
+        "Running the trigger again on the same day should not roll over again",
+      );
+      assertEquals(await concept.maps.countDocuments({ ownerId: testUser }), 2);
 
-      const statusAfterFirstRun = await concept.dailyGenerationStatus.findOne({
+      const statusAfterRuns = await concept.dailyGenerationStatus.findOne({
         _id: "dailyGeneration",
       });
-      assertExists(statusAfterFirstRun);
+      assertExists(statusAfterRuns?.lastRunDate);
       assertEquals(
-        getMidnight(statusAfterFirstRun.lastRunDate).getTime(),
+        getMidnight(statusAfterRuns.lastRunDate).getTime(),
         getMidnight(new Date()).getTime(),
-        "Daily generation status should be updated to today's midnight after first run",
+        "Daily generation status should record today's run",
+      );
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Maps roll over at midnight in each user's own timezone", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const tokyoUser = "userTokyo_timezone_action" as ID;
+      const honoluluUser = "userHonolulu_timezone_action" as ID;
+
+      const invalidResult = await concept.setTimezone({
+        user: tokyoUser,
+        timezone: "Mars/Olympus_Mons",
+      });
+      assert("error" in invalidResult, "Unknown timezones should be rejected");
+
+      // Setting a timezone creates the user's record before they have a map
+      const tokyoResult = await concept.setTimezone({
+        user: tokyoUser,
+        timezone: "Asia/Tokyo",
+      });
+      assert(!("error" in tokyoResult));
+      const honoluluResult = await concept.setTimezone({
+        user: honoluluUser,
+        timezone: "Pacific/Honolulu",
+      });
+      assert(!("error" in honoluluResult));
+      const tokyoState = await concept.users.findOne({ _id: tokyoUser });
+      assertEquals(tokyoState?.timezone, "Asia/Tokyo");
+      assertEquals(tokyoState?.currentMapId, null);
+
+      // Each map's creationDate is the calendar date in its owner's timezone
+      const now = new Date();
+      await concept.triggerDailyMapGeneration();
+      const tokyoMap = await concept._getCurrentMap({ user: tokyoUser });
+      const honoluluMap = await concept._getCurrentMap({ user: honoluluUser });
+      assert("map" in tokyoMap && tokyoMap.map);
+      assert("map" in honoluluMap && honoluluMap.map);
+      assertEquals(
+        tokyoMap.map.creationDate,
+        getUTCMidnight(new Date(now.getTime() + 9 * 60 * 60 * 1000)),
+        "Tokyo is UTC+9",
       );
+      assertEquals(
+        honoluluMap.map.creationDate,
+        getUTCMidnight(new Date(now.getTime() - 10 * 60 * 60 * 1000)),
+        "Honolulu is UTC-10",
+      );
+      // Neither user rolls over again until their own local date changes
+      await concept.triggerDailyMapGeneration();
+      assertEquals(await concept.maps.countDocuments({}), 2);
+    } finally {
+      await client?.close();
+    }
+  });
 
-      // Second run on the "same today"
-      const secondTriggerResult = await concept.triggerDailyMapGeneration();
-      assertExists(secondTriggerResult);
+  await test.step("Action: Daily map generation backfills days missed while no server was running", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "userForBackfill_action" as ID;
+      const daysAgo = (n: number) =>
+        getUTCMidnight(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+
+      // The user's last map is from four days ago, and the last run was three days ago
+      const generateResult = await concept.generateMap({ user: testUser });
+      assert("mapId" in generateResult);
+      await concept.maps.updateOne({ _id: generateResult.mapId }, {
+        $set: { creationDate: daysAgo(4) },
+      });
+      await concept.users.updateOne({ _id: testUser }, {
+        $set: { lastMapDate: daysAgo(4) },
+      });
+      await concept.dailyGenerationStatus.insertOne({
+        _id: "dailyGeneration",
+        lastRunDate: daysAgo(3),
+      });
+
+      const triggerResult = await concept.triggerDailyMapGeneration();
       assert(
-        "error" in secondTriggerResult,
-        "Expected an error for running daily generation twice on the same day",
+        !("error" in triggerResult),
+        `Daily trigger failed: ${JSON.stringify(triggerResult)}`,
       );
+
+      // Only the two days since the last run are backfilled, then today's map starts
+      const savedMaps = await concept._getSavedMaps({ user: testUser });
+      assert("maps" in savedMaps);
+      const savedDates = savedMaps.maps.map((m) => m.creationDate.getTime());
+      assertEquals(
+        savedDates.sort((a, b) => a - b),
+        [daysAgo(4), daysAgo(2), daysAgo(1)].map((d) => d.getTime()),
+      );
+      const currentMap = await concept._getCurrentMap({ user: testUser });
+      assert("map" in currentMap && currentMap.map);
+      assertEquals(currentMap.map.creationDate, daysAgo(0));
+      assertEquals(currentMap.map.isSaved, false);
+      const userState = await concept.users.findOne({ _id: testUser });
+      assertEquals(userState?.lastMapDate, daysAgo(0));
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Daily map generation resumes an interrupted run and reports each batch", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const daysAgo = (n: number) =>
+        getUTCMidnight(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+      const doneUser = "user_resume_a" as ID;
+      const pendingUser = "user_resume_b" as ID;
+      const halfDoneUser = "user_resume_c" as ID;
+
+      // Three users due a new map since yesterday
+      const yesterdaysMaps: Record<string, ID> = {};
+      for (const user of [doneUser, pendingUser, halfDoneUser]) {
+        const result = await concept.generateMap({ user });
+        assert("mapId" in result);
+        yesterdaysMaps[user] = result.mapId;
+        await concept.maps.updateOne({ _id: result.mapId }, {
+          $set: { creationDate: daysAgo(1) },
+        });
+        await concept.users.updateOne({ _id: user }, {
+          $set: { lastMapDate: daysAgo(1) },
+        });
+      }
+      // An interrupted run got past the first user, and wrote the third user's map but not their record
+      const runStartedAt = new Date(Date.now() - 60 * 1000);
+      await concept.dailyGenerationStatus.insertOne({
+        _id: "dailyGeneration",
+        lastRunDate: daysAgo(1),
+        runStartedAt,
+        resumeAfter: doneUser,
+        batchesCompleted: 1,
+      });
+      await concept.maps.insertOne({
+        _id: "map_resume_c_today" as ID,
+        ownerId: halfDoneUser,
+        creationDate: daysAgo(0),
+        generatedAt: runStartedAt,
+        imageUrl: "",
+        isSaved: false,
+      });
+
+      const triggerResult = await concept.triggerDailyMapGeneration();
       assert(
-        secondTriggerResult.error.includes("already run for today"),
-        "Error message should indicate already run for today",
+        "batches" in triggerResult,
+        `Daily trigger failed: ${JSON.stringify(triggerResult)}`,
+      );
+      assertEquals(triggerResult.batches.length, 1);
+      assertEquals(triggerResult.batches[0].batch, 2);
+      assertEquals(triggerResult.batches[0].users, 2);
+      assertEquals(triggerResult.batches[0].rolledOver, 2);
+      assertEquals(triggerResult.batches[0].failures, []);
+
+      // The first user was skipped, and the third moved onto the map already written for them
+      const doneState = await concept.users.findOne({ _id: doneUser });
+      assertEquals(doneState?.currentMapId, yesterdaysMaps[doneUser]);
+      const pendingState = await concept.users.findOne({ _id: pendingUser });
+      assertEquals(pendingState?.lastMapDate, daysAgo(0));
+      const halfDoneState = await concept.users.findOne({ _id: halfDoneUser });
+      assertEquals(halfDoneState?.currentMapId, "map_resume_c_today");
+      assertEquals(
+        await concept.maps.countDocuments({ ownerId: halfDoneUser }),
+        2,
       );
+
+      // The run is finished; the next one starts from the beginning and picks up the first user
+      const status = await concept.dailyGenerationStatus.findOne({
+        _id: "dailyGeneration",
+      });
+      assertEquals(status?.lastRunDate, runStartedAt);
+      assertEquals(status?.runStartedAt, undefined);
+      assertEquals(status?.resumeAfter, undefined);
+      const nextRun = await concept.triggerDailyMapGeneration();
+      assert("batches" in nextRun);
+      assertEquals(nextRun.batches[0].batch, 1);
+      assertEquals(nextRun.batches[0].rolledOver, 1);
+      const doneStateAfter = await concept.users.findOne({ _id: doneUser });
+      assertEquals(doneStateAfter?.lastMapDate, daysAgo(0));
     } finally {
       await client?.close();
     }
@@ -695,7 +897,7 @@ Deno.test("BodyMapGeneration", async (test) => {
         _id: "dailyGeneration",
       });
       assertExists(
-        statusAfterDaily,
+        statusAfterDaily?.lastRunDate,
         "Daily generation status should exist after running",
       );
       assertEquals(
@@ -721,4 +923,629 @@ Deno.test("BodyMapGeneration", async (test) => {
       await client?.close();
     }
   });
+
+  await test.step("Action: eraseUser removes the user and all of their maps", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const erasedUser = "user_erase_action" as ID;
+      const otherUser = "user_keep_action" as ID;
+
+      // Two maps for the erased user (one saved, one current) and one for another user
+      const firstMap = await concept.generateMap({ user: erasedUser });
+      assert("mapId" in firstMap);
+      await concept.maps.updateOne({ _id: firstMap.mapId }, {
+        $set: { creationDate: new Date(Date.UTC(2025, 0, 1)) },
+      });
+      await concept.generateMap({ user: erasedUser });
+      await concept.generateMap({ user: otherUser });
+
+      const eraseResult = await concept.eraseUser({ user: erasedUser });
+      assert(
+        "removed" in eraseResult,
+        `Error erasing user: ${JSON.stringify(eraseResult)}`,
+      );
+      assertEquals(eraseResult.removed.users, 1);
+      assertEquals(eraseResult.removed.maps, 2);
+
+      assertEquals(await concept.users.findOne({ _id: erasedUser }), null);
+      assertEquals(
+        (await concept.maps.find({ ownerId: erasedUser }).toArray()).length,
+        0,
+        "All of the erased user's maps should be gone",
+      );
+      assertEquals(
+        (await concept.maps.find({ ownerId: otherUser }).toArray()).length,
+        1,
+        "Other users' maps should be untouched",
+      );
+
+      // Erasing again is a no-op
+      const secondErase = await concept.eraseUser({ user: erasedUser });
+      assert("removed" in secondErase);
+      assertEquals(secondErase.removed.maps, 0);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Cleared maps go to the trash until restored or purged", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "user_trash_action" as ID;
+
+      // An older saved map and today's current map
+      const olderMap = await concept.generateMap({ user: testUser });
+      assert("mapId" in olderMap);
+      await concept.maps.updateOne({ _id: olderMap.mapId }, {
+        $set: { creationDate: new Date(Date.UTC(2025, 0, 1)) },
+      });
+      const todaysMap = await concept.generateMap({ user: testUser });
+      assert("mapId" in todaysMap);
+
+      // Clearing today's map leaves it out of history and blocks regenerating the day
+      assert(!("error" in await concept.clearMap({ user: testUser })));
+      const trashed = await concept._getTrashedMaps({ user: testUser });
+      assert("maps" in trashed);
+      assertEquals(trashed.maps.map((m) => m._id), [todaysMap.mapId]);
+      assertEquals(
+        trashed.maps[0].purgeAt.getTime() - trashed.maps[0].trashedAt.getTime(),
+        30 * 24 * 60 * 60 * 1000,
+        "Trashed maps are kept for the default retention window",
+      );
+      const history = await concept._getMapsInRange({ user: testUser });
+      assert("maps" in history);
+      assertEquals(history.maps.map((m) => m._id), [olderMap.mapId]);
+      const today = await concept._getMapForDate({
+        user: testUser,
+        date: new Date(),
+      });
+      assert("map" in today);
+      assertEquals(today.map, null);
+      const regenerate = await concept.generateMap({ user: testUser });
+      assert("error" in regenerate, "A trashed day must be restored instead");
+      const render = await concept.renderMap({
+        user: testUser,
+        map: todaysMap.mapId,
+        format: "svg",
+        regions: [],
+      });
+      assert("error" in render);
+
+      // Only the owner can restore it, and it becomes current again
+      const othersRestore = await concept.restoreMap({
+        user: "user_trash_other" as ID,
+        map: todaysMap.mapId,
+      });
+      assert("error" in othersRestore);
+      assert(
+        !("error" in
+          await concept.restoreMap({ user: testUser, map: todaysMap.mapId })),
+      );
+      const current = await concept._getCurrentMap({ user: testUser });
+      assert("map" in current);
+      assertEquals(current.map?._id, todaysMap.mapId);
+      assertEquals(current.map?.trashedAt, undefined);
+      assert(
+        "error" in
+          await concept.restoreMap({ user: testUser, map: todaysMap.mapId }),
+        "A map that is not in the trash cannot be restored",
+      );
+
+      // An older map clears back into the saved history when restored
+      await concept.maps.updateOne({ _id: olderMap.mapId }, {
+        $set: { trashedAt: new Date() },
+      });
+      assert(
+        !("error" in
+          await concept.restoreMap({ user: testUser, map: olderMap.mapId })),
+      );
+      const saved = await concept._getSavedMaps({ user: testUser });
+      assert("maps" in saved);
+      assertEquals(saved.maps.map((m) => m._id), [olderMap.mapId]);
+
+      // Only maps past the retention window are purged
+      await concept.clearMap({ user: testUser });
+      await concept.maps.updateOne({ _id: olderMap.mapId }, {
+        $set: { trashedAt: new Date(Date.UTC(2025, 0, 2)) },
+      });
+      const purgeResult = await concept.purgeTrash();
+      assert(
+        "purged" in purgeResult,
+        `Error purging trash: ${JSON.stringify(purgeResult)}`,
+      );
+      assertEquals(purgeResult.purged, [olderMap.mapId]);
+      assertEquals(await concept.maps.findOne({ _id: olderMap.mapId }), null);
+      assertExists(await concept.maps.findOne({ _id: todaysMap.mapId }));
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: New maps report the earlier maps they can be carried forward from", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "user_carry_forward" as ID;
+      const daysAgo = (n: number) =>
+        getUTCMidnight(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+
+      assert(
+        "error" in
+          await concept.setCarryForward({ user: testUser, mode: "all" }),
+      );
+      assert(
+        !("error" in
+          await concept.setCarryForward({ user: testUser, mode: "scores" })),
+      );
+
+      // A map two days ago and a (backfilled) map yesterday
+      const marked = await concept.generateMap({ user: testUser });
+      assert("mapId" in marked);
+      assertEquals(
+        marked.previousMaps,
+        undefined,
+        "There is nothing to carry yet",
+      );
+      await concept.maps.updateOne({ _id: marked.mapId }, {
+        $set: { creationDate: daysAgo(2) },
+      });
+      const unmarked = await concept.generateMap({ user: testUser });
+      assert("mapId" in unmarked);
+      await concept.maps.updateOne({ _id: unmarked.mapId }, {
+        $set: { creationDate: daysAgo(1) },
+      });
+
+      const today = await concept.generateMap({ user: testUser });
+      assert("mapId" in today);
+      assertEquals(today.previousMaps, [unmarked.mapId, marked.mapId]);
+      assertEquals(today.withScores, true);
+
+      // Generating again returns the same map without carrying it twice
+      const again = await concept.generateMap({ user: testUser });
+      assert("mapId" in again);
+      assertEquals(again.mapId, today.mapId);
+      assertEquals(again.previousMaps, undefined);
+
+      const source = await concept._getCarryForwardSource({ user: testUser });
+      assertEquals(source, {
+        map: today.mapId,
+        previousMaps: [unmarked.mapId, marked.mapId],
+        withScores: true,
+      });
+
+      // A per-request mode overrides the user's setting
+      const otherUser = "user_carry_forward_off" as ID;
+      const first = await concept.generateMap({ user: otherUser });
+      assert("mapId" in first);
+      await concept.maps.updateOne({ _id: first.mapId }, {
+        $set: { creationDate: daysAgo(1) },
+      });
+      const regionsOnly = await concept.generateMap({
+        user: otherUser,
+        carryForward: "regions",
+      });
+      assert("mapId" in regionsOnly);
+      assertEquals(regionsOnly.previousMaps, [first.mapId]);
+      assertEquals(regionsOnly.withScores, false);
+      assert(
+        "error" in
+          await concept.generateMap({ user: otherUser, carryForward: "all" }),
+      );
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Sync flow: Rolled-over maps are tracked, marked and carried forward", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const painScoring = new PainLocationScoringConcept(db);
+      const testUser = "user_rollover_carry_flow" as ID;
+      const daysAgo = (n: number) =>
+        getUTCMidnight(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+
+      // Moves the user's maps a day back, oldest first so no two share a date,
+      // so the next rollover gives them a new one
+      const endDay = async () => {
+        const maps = await concept.maps.find({ ownerId: testUser })
+          .sort({ creationDate: 1 }).toArray();
+        for (const map of maps) {
+          await concept.maps.updateOne({ _id: map._id }, {
+            $set: {
+              creationDate: new Date(
+                map.creationDate.getTime() - 24 * 60 * 60 * 1000,
+              ),
+            },
+          });
+        }
+        await concept.users.updateOne({ _id: testUser }, {
+          $set: { lastMapDate: daysAgo(1) },
+        });
+      };
+      // What TrackRolledOverMaps and CarryForwardOnRollover do with the rollover's output:
+      // each new map is prefilled from the newest earlier map with regions marked
+      const rollOver = async () => {
+        const result = await concept.triggerDailyMapGeneration();
+        assert("generated" in result, JSON.stringify(result));
+        for (const { user, map } of result.generated) {
+          assert(!("error" in await painScoring.trackMap({ user, map })));
+        }
+        for (const { user, previousMaps, to, withScores } of result.carried) {
+          const digests = await painScoring._getMapDigests({
+            user,
+            maps: previousMaps,
+          });
+          assert(!("error" in digests), JSON.stringify(digests));
+          const from = digests.find((d) => d.regionCount > 0)?.map;
+          if (from === undefined) {
+            continue;
+          }
+          const carried = await painScoring.carryForward({
+            user,
+            from,
+            to,
+            withScores,
+          });
+          assert(!("error" in carried), JSON.stringify(carried));
+        }
+        return result;
+      };
+
+      // Registration generates and tracks the first map (GenerateMapOnRegister, TrackGeneratedMap)
+      const first = await concept.generateMap({ user: testUser });
+      assert("mapId" in first);
+      await painScoring.trackMap({ user: testUser, map: first.mapId });
+      await concept.setCarryForward({ user: testUser, mode: "scores" });
+
+      // The rollover's new map is reported, so regions can be added to it once tracked
+      await endDay();
+      const firstRollover = await rollOver();
+      const rolled = firstRollover.generated.find((g) => g.user === testUser);
+      assertExists(rolled, "The rolled-over map should be reported");
+      assertNotEquals(rolled.map, first.mapId);
+      assertEquals(firstRollover.carried, [{
+        user: testUser,
+        previousMaps: [first.mapId],
+        to: rolled.map,
+        withScores: true,
+      }]);
+      const untouched = await painScoring._getRegionsForMap({
+        user: testUser,
+        map: rolled.map,
+      });
+      assertEquals(
+        untouched,
+        [],
+        "Nothing is marked yet, so nothing is copied",
+      );
+      const added = await painScoring.addRegion({
+        user: testUser,
+        map: rolled.map,
+        regionName: "Left Knee",
+      });
+      assert("region" in added, JSON.stringify(added));
+      await painScoring.scoreRegion({
+        user: testUser,
+        region: added.region,
+        score: 7,
+      });
+
+      // The next rollover carries the marked map's region and score onto the new one
+      await endDay();
+      const secondRollover = await rollOver();
+      const next = secondRollover.generated.find((g) => g.user === testUser);
+      assertExists(next);
+      assertEquals(secondRollover.carried, [{
+        user: testUser,
+        previousMaps: [rolled.map, first.mapId],
+        to: next.map,
+        withScores: true,
+      }]);
+      const carriedRegions = await painScoring._getRegionsForMap({
+        user: testUser,
+        map: next.map,
+      });
+      assert(Array.isArray(carriedRegions));
+      assertEquals(carriedRegions.length, 1);
+      assertEquals(carriedRegions[0].score, 7);
+      assertEquals(carriedRegions[0].carried, true);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Maps record the template version they are drawn on", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "userForTemplates_action" as ID;
+
+      // The built-in template serves front and back geometry
+      const builtIn = await concept._getTemplate({ templateId: "standard" });
+      assert("template" in builtIn && builtIn.template);
+      assertEquals(builtIn.template.version, 1);
+      assertEquals(builtIn.template.views.map((v) => v.view), [
+        "front",
+        "back",
+      ]);
+      const front = builtIn.template.views[0];
+      const leftKnee = front.regions.find((r) => r.name === "left knee");
+      assertExists(leftKnee, "Regions should use PainLocationScoring names");
+      assert(
+        leftKnee.polygon.every(([x]) => x > front.width / 2),
+        "The patient's left side is on the viewer's right from the front",
+      );
+
+      const firstMap = await concept.generateMap({ user: testUser });
+      assert("mapId" in firstMap);
+      let map = await concept.maps.findOne({ _id: firstMap.mapId });
+      assertEquals(map?.templateId, "standard");
+      assertEquals(map?.templateVersion, 1);
+      assertEquals(map?.imageUrl, front.imageUrl);
+
+      // Only the owner is told which map and template it is
+      const owned = await concept._getMap({
+        user: testUser,
+        map: firstMap.mapId,
+      });
+      assert("map" in owned);
+      assertEquals(owned.map?._id, firstMap.mapId);
+      const mapTemplate = await concept._getMapTemplate({
+        user: testUser,
+        map: firstMap.mapId,
+      });
+      assert("template" in mapTemplate && mapTemplate.template);
+      assertEquals(mapTemplate.template.templateId, "standard");
+      assertEquals(mapTemplate.template.version, 1);
+      const otherUser = "otherUserForTemplates_action" as ID;
+      assertEquals(
+        await concept._getMap({ user: otherUser, map: firstMap.mapId }),
+        { map: null },
+      );
+      assertEquals(
+        await concept._getMapTemplate({ user: otherUser, map: firstMap.mapId }),
+        { template: null },
+      );
+
+      // Invalid geometry is rejected
+      const noViews = await concept.registerTemplate({
+        templateId: "standard",
+        name: "Empty",
+        views: [],
+      });
+      assert("error" in noViews, "Templates need at least one view");
+      const outside = await concept.registerTemplate({
+        templateId: "standard",
+        name: "Out of bounds",
+        views: [{
+          view: "front",
+          imageUrl: "front.svg",
+          width: 10,
+          height: 10,
+          regions: [{ name: "head", polygon: [[0, 0], [20, 0], [5, 5]] }],
+        }],
+      });
+      assert("error" in outside, "Polygons must lie inside their view");
+      const duplicate = await concept.registerTemplate({
+        templateId: "standard",
+        name: "Duplicate views",
+        views: [front, front],
+      });
+      assert("error" in duplicate, "Each view may appear only once");
+
+      // Registering again creates a new version used by new maps only
+      const sideView: TemplateView = {
+        view: "left",
+        imageUrl: "templates/standard/left.svg",
+        width: 100,
+        height: 500,
+        regions: [{
+          name: "left hip",
+          polygon: [[30, 200], [70, 200], [50, 240]],
+        }],
+      };
+      const registerResult = await concept.registerTemplate({
+        templateId: "standard",
+        name: "Standard body outline with side view",
+        views: [...builtIn.template.views, sideView],
+      });
+      assert(
+        "version" in registerResult,
+        `Error registering template: ${JSON.stringify(registerResult)}`,
+      );
+      assertEquals(registerResult.version, 2);
+
+      // The next day's map is drawn on the new version
+      await concept.maps.updateOne({ _id: firstMap.mapId }, {
+        $set: { creationDate: new Date(Date.UTC(2025, 0, 1)) },
+      });
+      const secondMap = await concept.generateMap({ user: testUser });
+      assert("mapId" in secondMap);
+      map = await concept.maps.findOne({ _id: secondMap.mapId });
+      assertEquals(map?.templateVersion, 2);
+      map = await concept.maps.findOne({ _id: firstMap.mapId });
+      assertEquals(map?.templateVersion, 1, "Existing maps keep their version");
+
+      const original = await concept._getTemplate({
+        templateId: "standard",
+        version: 1,
+      });
+      assert("template" in original && original.template);
+      assertEquals(original.template.views.length, 2);
+      const missing = await concept._getTemplate({ templateId: "unknown" });
+      assert("template" in missing);
+      assertEquals(missing.template, null);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Query: Map history pages through a date range newest first", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "userForHistory_action" as ID;
+      const day = (n: number) => new Date(Date.UTC(2025, 0, n));
+
+      // Five saved maps, one for each of January 1st to 5th
+      const mapIds: ID[] = [];
+      for (let n = 1; n <= 5; n++) {
+        const generateResult = await concept.generateMap({ user: testUser });
+        assert("mapId" in generateResult);
+        await concept.maps.updateOne({ _id: generateResult.mapId }, {
+          $set: { creationDate: day(n), isSaved: true },
+        });
+        mapIds.push(generateResult.mapId);
+      }
+
+      // January 2nd to 5th, two at a time
+      const firstPage = await concept._getMapsInRange({
+        user: testUser,
+        start: "2025-01-02",
+        end: "2025-01-05",
+        limit: 2,
+      });
+      assert(
+        "maps" in firstPage,
+        `Error fetching maps: ${JSON.stringify(firstPage)}`,
+      );
+      assertEquals(firstPage.maps.map((m) => m.creationDate), [day(5), day(4)]);
+      assertExists(firstPage.nextCursor);
+
+      const secondPage = await concept._getMapsInRange({
+        user: testUser,
+        start: "2025-01-02",
+        end: "2025-01-05",
+        cursor: firstPage.nextCursor,
+        limit: 2,
+      });
+      assert("maps" in secondPage);
+      assertEquals(secondPage.maps.map((m) => m.creationDate), [
+        day(3),
+        day(2),
+      ]);
+      assertEquals(secondPage.nextCursor, null);
+
+      const badCursor = await concept._getMapsInRange({
+        user: testUser,
+        cursor: "not-a-cursor",
+      });
+      assert("error" in badCursor);
+      const badLimit = await concept._getMapsInRange({
+        user: testUser,
+        limit: 0,
+      });
+      assert("error" in badLimit);
+
+      const forDate = await concept._getMapForDate({
+        user: testUser,
+        date: "2025-01-04",
+      });
+      assert("map" in forDate && forDate.map);
+      assertEquals(forDate.map._id, mapIds[3]);
+      const noMap = await concept._getMapForDate({
+        user: testUser,
+        date: "2024-12-31",
+      });
+      assert("map" in noMap);
+      assertEquals(noMap.map, null);
+
+      // An older map stamped with its full creation time is found by its day
+      const legacy = await concept.generateMap({ user: testUser });
+      assert("mapId" in legacy);
+      await concept.maps.updateOne({ _id: legacy.mapId }, {
+        $set: { creationDate: new Date(Date.UTC(2025, 0, 7, 15, 30)) },
+      });
+      const legacyForDate = await concept._getMapForDate({
+        user: testUser,
+        date: "2025-01-07",
+      });
+      assert("map" in legacyForDate && legacyForDate.map);
+      assertEquals(legacyForDate.map._id, legacy.mapId);
+      const legacyInRange = await concept._getMapsInRange({
+        user: testUser,
+        start: "2025-01-07",
+        end: "2025-01-07",
+      });
+      assert("maps" in legacyInRange);
+      assertEquals(legacyInRange.maps.map((m) => m._id), [legacy.mapId]);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: renderMap colours each region by its pain score", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new BodyMapGenerationConcept(db);
+      const testUser = "userForRender_action" as ID;
+      const otherUser = "otherUserForRender_action" as ID;
+
+      const generateResult = await concept.generateMap({ user: testUser });
+      assert("mapId" in generateResult);
+      const mapId = generateResult.mapId;
+
+      // The map's regions and scores, as the sync reads them from PainLocationScoring
+      const regions = [
+        { name: "left knee", score: 10 },
+        { name: "head", score: 1 },
+        { name: "chest" }, // Not scored yet
+      ];
+
+      const svgResult = await concept.renderMap({
+        user: testUser,
+        map: mapId,
+        format: "svg",
+        regions,
+      });
+      assert(
+        "image" in svgResult,
+        `Error rendering SVG: ${JSON.stringify(svgResult)}`,
+      );
+      assertEquals(svgResult.contentType, "image/svg+xml");
+      assert(svgResult.image.startsWith("<svg"));
+      assert(
+        svgResult.image.includes('fill="#f44336"><title>left knee: 10</title>'),
+        "A score of 10 is drawn red",
+      );
+      assert(
+        svgResult.image.includes('fill="#4caf50"><title>head: 1</title>'),
+        "A score of 1 is drawn green",
+      );
+      assert(
+        svgResult.image.includes('fill="#eeeeee"><title>chest</title>'),
+        "Unscored regions are drawn neutral",
+      );
+
+      const pngResult = await concept.renderMap({
+        user: testUser,
+        map: mapId,
+        format: "png",
+        regions,
+      });
+      assert("image" in pngResult);
+      assertEquals(pngResult.contentType, "image/png");
+      assert(pngResult.image.startsWith("iVBORw0KGgo"), "PNG signature");
+
+      const otherResult = await concept.renderMap({
+        user: otherUser,
+        map: mapId,
+        format: "svg",
+        regions,
+      });
+      assert("error" in otherResult, "Users cannot render others' maps");
+      const formatResult = await concept.renderMap({
+        user: testUser,
+        map: mapId,
+        format: "gif",
+        regions,
+      });
+      assert("error" in formatResult);
+    } finally {
+      await client?.close();
+    }
+  });
 });
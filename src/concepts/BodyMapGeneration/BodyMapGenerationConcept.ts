@@ -1,6 +1,19 @@
-import { Collection, Db } from "npm:mongodb";
+import {
+  AnyBulkWriteOperation,
+  Collection,
+  Db,
+  MongoBulkWriteError,
+  MongoServerError,
+} from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { clientOf, freshID } from "@utils/database.ts";
+import { fromBase64Url, toBase64, toBase64Url } from "@utils/crypto.ts";
+import { renderPng, renderSvg } from "./render.ts";
+import {
+  DEFAULT_TEMPLATE,
+  TemplateView,
+  templateViewsProblem,
+} from "./templates.ts";
 
 // Collection prefix to ensure isolation within the database
 const PREFIX = "BodyMapGeneration" + ".";
@@ -10,16 +23,112 @@ type User = ID;
 // Internal ID for Maps
 type Map = ID;
 
+/**
+ * # Daily generation configuration
+ * The following environment variables are available:
+ *
+ * - BODY_MAP_MAX_BACKFILL_DAYS: the most missed days to backfill per user after downtime, default 31
+ * - BODY_MAP_GENERATION_BATCH_SIZE: how many users the daily rollover reads and writes at a time, default 500
+ * - BODY_MAP_TEMPLATE: the id of the registered template new maps use, default "standard" (built in)
+ * - BODY_MAP_TRASH_RETENTION_DAYS: how long cleared maps stay in the trash before purgeTrash deletes them, default 30
+ */
+const MAX_BACKFILL_DAYS = parseInt(
+  Deno.env.get("BODY_MAP_MAX_BACKFILL_DAYS") ?? "31",
+  10,
+);
+
+const GENERATION_BATCH_SIZE = parseInt(
+  Deno.env.get("BODY_MAP_GENERATION_BATCH_SIZE") ?? "500",
+  10,
+);
+
+const MAP_TEMPLATE = Deno.env.get("BODY_MAP_TEMPLATE") ??
+  DEFAULT_TEMPLATE.templateId;
+
+const TRASH_RETENTION_DAYS = parseInt(
+  Deno.env.get("BODY_MAP_TRASH_RETENTION_DAYS") ?? "30",
+  10,
+);
+
+// MongoDB's error code for a write that violates a unique index
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Page sizes for _getMapsInRange
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// Image formats renderMap can produce
+const RENDER_FORMATS = ["svg", "png"] as const;
+type RenderFormat = typeof RENDER_FORMATS[number];
+
+// How a new map is prefilled from the user's previous one: not at all, with its region names,
+// or with its region names and scores
+const CARRY_FORWARD_MODES = ["off", "regions", "scores"] as const;
+type CarryForwardMode = typeof CARRY_FORWARD_MODES[number];
+
+// Users who have never set a timezone roll over at UTC midnight
+const DEFAULT_TIMEZONE = "UTC";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the ID of a user's existing map for a calendar date, which generation reuses rather than replacing.
+ * A trashed map still holds its date, so the user is pointed to restoreMap.
+ */
+function mapForDate(existing: MapState): Map {
+  if (existing.trashedAt) {
+    throw new Error(
+      `The map for ${
+        existing.creationDate.toISOString().slice(0, 10)
+      } is in the trash; restore it instead.`,
+    );
+  }
+  return existing._id;
+}
+
+/**
+ * Checks that a timezone is an IANA name (e.g. "Asia/Tokyo") the runtime recognizes.
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar date a moment falls on in a timezone, as midnight UTC of that date.
+ * Storing calendar dates this way keeps them comparable regardless of the user's offset.
+ */
+function localCalendarDate(at: Date, timezone: string): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(at);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}
+
 /**
  * @interface UserState
  * Represents the state of a user within the BodyMapGeneration concept.
  *
  * users: a set of Users with
  *   currentMapId: Map | null
+ *   timezone: String (IANA name; absent means UTC)
+ *   lastMapDate: Date (local calendar date of the most recently generated map; absent for legacy records)
+ *   carryForward: "off" | "regions" | "scores" (how new maps are prefilled from the previous one; absent means off)
  */
 interface UserState {
   _id: User;
   currentMapId: Map | null;
+  timezone?: string;
+  lastMapDate?: Date;
+  carryForward?: CarryForwardMode;
 }
 
 /**
@@ -29,97 +138,357 @@ interface UserState {
  * maps: a set of Maps with
  *   _id: Map
  *   ownerId: User
- *   creationDate: Date
- *   imageUrl: String
+ *   creationDate: Date (the local calendar date the map represents, as midnight UTC)
+ *   generatedAt: Date (the moment the map was generated)
+ *   templateId: String (the template the map is drawn on)
+ *   templateVersion: Number (the version of that template, which stays fixed for the map's lifetime)
+ *   imageUrl: String (the template's first view, unscored; renderMap draws the scored heatmap)
  *   isSaved: Boolean
+ *   trashedAt: Date (when the map was cleared; absent unless it is in the trash)
  */
 interface MapState {
   _id: Map;
   ownerId: User;
   creationDate: Date;
+  generatedAt?: Date; // Absent on maps created before creationDate held a calendar date
+  templateId?: string; // Absent on maps created before templates existed
+  templateVersion?: number;
   imageUrl: string;
   isSaved: boolean;
+  trashedAt?: Date;
+}
+
+/**
+ * A map in its owner's trash, with the time purgeTrash will delete it.
+ */
+interface TrashedMap extends MapState {
+  trashedAt: Date;
+  purgeAt: Date;
+}
+
+/**
+ * A map the daily rollover started or backfilled for a user, for other concepts to track.
+ */
+interface GeneratedMap {
+  user: User;
+  map: Map;
+}
+
+/**
+ * A new map to prefill from an earlier one, for PainLocationScoring to copy regions between.
+ *   previousMaps: Map[] (the user's earlier maps, newest first; the first with regions marked is copied)
+ *   withScores: Boolean (whether scores are copied too, marked as carried)
+ */
+interface CarryForward {
+  user: User;
+  previousMaps: Map[];
+  to: Map;
+  withScores: boolean;
+}
+
+/**
+ * A region of a map as PainLocationScoring reports it, for renderMap to colour.
+ */
+interface ScoredRegion {
+  name: string;
+  score?: number;
+}
+
+/**
+ * @interface TemplateState
+ * One version of a body map template: the views of the body and the named regions on each.
+ * Registering a template again creates a new version, leaving maps drawn on older versions intact.
+ *
+ * templates: a set of Templates with
+ *   _id: String ("<templateId>@<version>")
+ *   templateId: String
+ *   version: Number
+ *   name: String
+ *   views: TemplateView[] (front, back, left and/or right, each with region polygons)
+ *   createdAt: Date
+ */
+interface TemplateState {
+  _id: string;
+  templateId: string;
+  version: number;
+  name: string;
+  views: TemplateView[];
+  createdAt: Date;
 }
 
 /**
  * @interface DailyGenerationStatus
- * A single record to track the last time the daily generation system action ran.
+ * A single record to track the last time the daily generation system action ran,
+ * and the progress of a run that has not finished.
  *
  * dailyGenerationStatus:
  *   _id: String = "dailyGeneration"
- *   lastRunDate: Date
+ *   lastRunDate: Date (when the last finished run started)
+ *   runStartedAt: Date (when the unfinished run started; absent when no run is in progress)
+ *   resumeAfter: User (the last user of the unfinished run's last completed batch)
+ *   batchesCompleted: Number (batches the unfinished run has completed)
  */
 interface DailyGenerationStatus {
   _id: "dailyGeneration"; // Unique identifier for this system status record
-  lastRunDate: Date;
+  lastRunDate?: Date; // Absent until the first run finishes
+  runStartedAt?: Date;
+  resumeAfter?: User;
+  batchesCompleted?: number;
+}
+
+/**
+ * What one batch of the daily rollover did.
+ *   batch: Number (1 for the run's first batch, counting batches completed before a resume)
+ *   users: Number (users read in the batch)
+ *   rolledOver: Number (users whose new day's map was generated)
+ *   backfilled: Number (maps generated for days missed while no server was running)
+ *   failures: the users left for the next run, with the reason
+ *   durationMs: Number
+ */
+interface BatchReport {
+  batch: number;
+  users: number;
+  rolledOver: number;
+  backfilled: number;
+  failures: Array<{ user: User; error: string }>;
+  durationMs: number;
 }
 
 /**
  * @concept BodyMapGeneration
  * @purpose provide a daily visual representation of the body for users to track changes over time,
  *          without including any notion of body measurements.
- * @principle after a map is generated, it becomes the user's current map. At midnight, the user's current map
- *             is automatically saved to a historical archive and a new one is automatically generated for the next day for all users.
+ * @principle after a map is generated, it becomes the user's current map. At midnight in the user's own timezone,
+ *             their current map is automatically saved to a historical archive and a new one is automatically
+ *             generated for the next day.
  */
 export default class BodyMapGenerationConcept {
   // MongoDB collections for the concept's state
   users: Collection<UserState>;
   maps: Collection<MapState>;
   dailyGenerationStatus: Collection<DailyGenerationStatus>;
+  templates: Collection<TemplateState>;
+  // Settles once the built-in template has been registered
+  private readonly templatesReady: Promise<void>;
+  // Settles once the one-map-per-day index exists
+  private readonly mapDateIndex: Promise<void>;
 
   constructor(private readonly db: Db) {
     this.users = this.db.collection(PREFIX + "users");
     this.maps = this.db.collection(PREFIX + "maps");
     this.dailyGenerationStatus = this.db.collection(PREFIX + "system");
+    this.templates = this.db.collection(PREFIX + "templates");
+
+    // Each user has at most one map per calendar date; history queries also list maps by it
+    this.mapDateIndex = this.maps.createIndex(
+      { ownerId: 1, creationDate: 1 },
+      { unique: true },
+    )
+      .then(() => {})
+      .catch((e) => {
+        console.error("Error creating unique map date index:", e);
+      });
+
+    // Version 1 of the built-in template always exists, so every map has geometry
+    this.templatesReady = this.templates.updateOne(
+      { _id: `${DEFAULT_TEMPLATE.templateId}@1` },
+      {
+        $setOnInsert: {
+          templateId: DEFAULT_TEMPLATE.templateId,
+          version: 1,
+          name: DEFAULT_TEMPLATE.name,
+          views: DEFAULT_TEMPLATE.views,
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true },
+    )
+      .then(() => {})
+      .catch((e) => {
+        console.error("Error registering the built-in map template:", e);
+      });
+  }
+
+  /**
+   * Helper method to find the latest version of a template.
+   * @param templateId The ID of the template.
+   * @returns The TemplateState document if the template is registered, otherwise null.
+   */
+  private async latestTemplate(
+    templateId: string,
+  ): Promise<TemplateState | null> {
+    await this.templatesReady;
+    return await this.templates.findOne(
+      { templateId },
+      { sort: { version: -1 } },
+    );
+  }
+
+  /**
+   * Helper method to archive a user's current map, if any, and replace it with a fresh one for a calendar date.
+   * Runs in a transaction, so the archive, the new map and the user's currentMapId change together or not at all.
+   * If the user already has a map for the date, nothing changes and that map is returned, including when
+   * a concurrent call created it first. A map for the date that is in the trash must be restored instead,
+   * so this throws rather than returning or replacing it.
+   * @param user The ID of the user.
+   * @param creationDate The calendar date the new map represents.
+   * @param now The time the new map is generated.
+   * @returns The ID of the user's map for the date, and whether this call created it.
+   */
+  private async replaceCurrentMap(
+    user: User,
+    creationDate: Date,
+    now: Date,
+  ): Promise<{ map: Map; created: boolean }> {
+    const template = await this.latestTemplate(MAP_TEMPLATE);
+    if (!template) {
+      throw new Error(`Map template '${MAP_TEMPLATE}' is not registered.`);
+    }
+    await this.mapDateIndex;
+
+    const session = clientOf(this.db).startSession();
+    try {
+      return await session.withTransaction(async () => {
+        const existing = await this.maps.findOne(
+          { ownerId: user, creationDate },
+          { session },
+        );
+        if (existing) {
+          return { map: mapForDate(existing), created: false };
+        }
+        const userState = await this.users.findOne({ _id: user }, { session });
+
+        // If the user has an existing current map, mark it as saved (archived).
+        if (userState?.currentMapId) {
+          await this.maps.updateOne(
+            { _id: userState.currentMapId },
+            { $set: { isSaved: true } },
+            { session },
+          );
+        }
+
+        // Generate a new unique ID for the new map
+        const newMapId = freshID() as Map;
+        const newMap: MapState = {
+          _id: newMapId,
+          ownerId: user,
+          creationDate,
+          generatedAt: now,
+          templateId: template.templateId,
+          templateVersion: template.version,
+          imageUrl: template.views[0].imageUrl, // An outline only, no body measurements implied
+          isSaved: false, // New maps are not saved yet
+        };
+
+        // Insert the new map into the maps collection
+        await this.maps.insertOne(newMap, { session });
+
+        // Update or create the user record with the new currentMapId
+        // upsert: true ensures that if the user record doesn't exist, it will be created.
+        await this.users.updateOne(
+          { _id: user },
+          { $set: { currentMapId: newMapId, lastMapDate: creationDate } },
+          { upsert: true, session },
+        );
+
+        return { map: newMapId, created: true };
+      });
+    } catch (e) {
+      // A concurrent call committed the date's map first; it is the one to return
+      if (e instanceof MongoServerError && e.code === DUPLICATE_KEY_ERROR) {
+        const existing = await this.maps.findOne({
+          ownerId: user,
+          creationDate,
+        });
+        if (existing) {
+          return { map: mapForDate(existing), created: false };
+        }
+      }
+      throw e;
+    } finally {
+      await session.endSession();
+    }
   }
 
   /**
-   * generateMap (user: User): (mapId: Map)
+   * Helper method to find the maps a user's new map may be prefilled from: their latest maps before a calendar date.
+   * Which of them have regions marked is known to PainLocationScoring, so a synchronization picks the first that does,
+   * skipping over days backfilled while no server was running.
+   * @param user The ID of the user.
+   * @param before The calendar date of the new map.
+   * @returns The IDs of the earlier maps, newest first.
+   */
+  private async previousMaps(user: User, before: Date): Promise<Map[]> {
+    // A gap of unmarked maps is at most as long as the longest backfill
+    const earlier = await this.maps.find({
+      ownerId: user,
+      creationDate: { $lt: before },
+      trashedAt: { $exists: false },
+    })
+      .sort({ creationDate: -1, _id: -1 })
+      .limit(MAX_BACKFILL_DAYS + 1)
+      .toArray();
+    return earlier.map((m) => m._id);
+  }
+
+  /**
+   * generateMap (user: User, carryForward?: String): (mapId: Map, previousMaps?: Map[], withScores?: Boolean)
    *
    * requires: true
    * effects:
-   *   If user has an existing currentMapId: That map's isSaved property is set to true.
-   *   A new Map is created with ownerId, current Date, placeholder imageUrl, and isSaved: false.
-   *   The user's currentMapId is updated to this new Map's ID.
-   *   Returns the _id of the newly generated Map.
+   *   If user already has a Map for today's calendar date in their timezone: nothing changes and its _id is returned,
+   *   so repeated or concurrent calls on the same day all return the same Map. If that Map is in the trash,
+   *   an error is returned instead; it must be restored with restoreMap.
+   *   Otherwise, all at once:
+   *     If user has an existing currentMapId: That map's isSaved property is set to true.
+   *     A new Map is created with ownerId, today's calendar date in the user's timezone, the latest version of the
+   *     configured template and its first view's image, and isSaved: false.
+   *     The user's currentMapId is updated to this new Map's ID and their lastMapDate to its calendar date.
+   *   Returns the _id of the user's Map for today.
+   *   If a new Map was created and carryForward (or, if not given, the user's carry-forward setting) is not "off",
+   *   also returns previousMaps, the user's latest earlier Maps, newest first, and withScores (true for "scores"),
+   *   for a synchronization to copy the regions of the first of them with regions marked onto the new one.
    */
   async generateMap(
-    { user }: { user: User },
-  ): Promise<{ mapId: Map } | { error: string }> {
+    { user, carryForward }: { user: User; carryForward?: string },
+  ): Promise<
+    | { mapId: Map; previousMaps?: Map[]; withScores?: boolean }
+    | { error: string }
+  > {
     try {
+      if (
+        carryForward !== undefined &&
+        !CARRY_FORWARD_MODES.includes(carryForward as CarryForwardMode)
+      ) {
+        return {
+          error:
+            `Unknown carry-forward mode '${carryForward}'; expected one of ${
+              CARRY_FORWARD_MODES.join(", ")
+            }.`,
+        };
+      }
+      const now = new Date();
       // Find the user's current state
       const existingUser = await this.users.findOne({ _id: user });
+      const creationDate = localCalendarDate(
+        now,
+        existingUser?.timezone ?? DEFAULT_TIMEZONE,
+      );
 
-      // If the user has an existing current map, mark it as saved (archived).
-      if (existingUser && existingUser.currentMapId) {
-        await this.maps.updateOne(
-          { _id: existingUser.currentMapId },
-          { $set: { isSaved: true } },
-        );
-      }
-
-      // Generate a new unique ID for the new map
-      const newMapId = freshID() as Map;
-      const newMap: MapState = {
-        _id: newMapId,
-        ownerId: user,
-        creationDate: new Date(),
-        imageUrl: "default_map_image.png", // Placeholder image URL, no body measurements implied
-        isSaved: false, // New maps are not saved yet
-      };
-
-      // Insert the new map into the maps collection
-      await this.maps.insertOne(newMap);
-
-      // Update or create the user record with the new currentMapId
-      // upsert: true ensures that if the user record doesn't exist, it will be created.
-      await this.users.updateOne(
-        { _id: user },
-        { $set: { currentMapId: newMapId } },
-        { upsert: true },
+      const { map: mapId, created } = await this.replaceCurrentMap(
+        user,
+        creationDate,
+        now,
       );
 
-      return { mapId: newMapId };
+      const mode = carryForward ?? existingUser?.carryForward ?? "off";
+      if (created && mode !== "off") {
+        const previousMaps = await this.previousMaps(user, creationDate);
+        if (previousMaps.length > 0) {
+          return { mapId, previousMaps, withScores: mode === "scores" };
+        }
+      }
+      return { mapId };
     } catch (e) {
       if (e instanceof Error) {
         console.error(`Error generating map for user ${user}:`, e);
@@ -179,7 +548,8 @@ export default class BodyMapGenerationConcept {
    *
    * requires: user has a currentMapId.
    * effects:
-   *   The Map referenced by user's currentMapId is deleted from the maps collection.
+   *   The Map referenced by user's currentMapId is moved to the trash: its trashedAt is set to now, and it is
+   *   left out of the user's history until it is restored with restoreMap or deleted by purgeTrash.
    *   The user's currentMapId is set to null.
    */
   async clearMap({ user }: { user: User }): Promise<Empty | { error: string }> {
@@ -191,13 +561,14 @@ export default class BodyMapGenerationConcept {
         return { error: `User ${user} does not have a current map to clear.` };
       }
 
-      // Delete the associated map document from the maps collection
-      const deleteResult = await this.maps.deleteOne({
-        _id: userState.currentMapId,
-      });
-      if (deleteResult.deletedCount === 0) {
+      // Move the associated map document to the trash
+      const trashResult = await this.maps.updateOne(
+        { _id: userState.currentMapId },
+        { $set: { trashedAt: new Date() } },
+      );
+      if (trashResult.matchedCount === 0) {
         console.warn(
-          `Map ${userState.currentMapId} for user ${user} was not found for deletion.`,
+          `Map ${userState.currentMapId} for user ${user} was not found to move to the trash.`,
         );
         // Even if not found, the user's currentMapId will be set to null, achieving the user's intent.
       }
@@ -221,79 +592,666 @@ export default class BodyMapGenerationConcept {
   }
 
   /**
-   * system triggerDailyMapGeneration (): Empty
+   * restoreMap (user: User, map: Map): Empty
    *
-   * requires: The current time is 00:00:00 (midnight) of a new day, AND dailyGenerationStatus.lastRunDate is not today's date.
+   * requires: map exists, is owned by user and is in the trash.
    * effects:
-   *   For each user in the users collection:
-   *     Call generateMap(user). (This will implicitly save the previous currentMap if one exists, then create a new one).
-   *   Update dailyGenerationStatus.lastRunDate to the current date.
+   *   The map's trashedAt is removed, returning it to the user's history.
+   *   If the user has no currentMapId and the map is for the date of their last generated map,
+   *   it becomes their current map again. Otherwise it is restored as a saved map.
    */
-  async triggerDailyMapGeneration(): Promise<Empty | { error: string }> {
-    const now = new Date();
-    // Calculate midnight of the current day for comparison
-    const todayMidnight = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
+  async restoreMap(
+    { user, map }: { user: User; map: Map },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const mapDoc = await this.maps.findOne({ _id: map, ownerId: user });
+      if (!mapDoc || !mapDoc.trashedAt) {
+        return { error: `Map ${map} is not in the trash for user ${user}.` };
+      }
+
+      const userState = await this.users.findOne({ _id: user });
+      const isCurrentDay = !userState?.currentMapId &&
+        userState?.lastMapDate?.getTime() === mapDoc.creationDate.getTime();
+
+      if (isCurrentDay) {
+        await this.maps.updateOne(
+          { _id: map },
+          { $unset: { trashedAt: "" } },
+        );
+        // Only take the slot if nothing has become current since the check
+        await this.users.updateOne(
+          { _id: user, currentMapId: null },
+          { $set: { currentMapId: map } },
+        );
+      } else {
+        await this.maps.updateOne(
+          { _id: map },
+          { $unset: { trashedAt: "" }, $set: { isSaved: true } },
+        );
+      }
+
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error restoring map ${map} for user ${user}:`, e);
+        return { error: `Failed to restore map: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error restoring map ${map} for user ${user}:`,
+          e,
+        );
+        return { error: "Failed to restore map due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * setTimezone (user: User, timezone: String): Empty
+   *
+   * requires: timezone is an IANA timezone name, e.g. "Asia/Tokyo"
+   * effects: sets the timezone whose midnight the user's daily rollover follows,
+   *          creating the user's record if they have no map yet.
+   *          The current map keeps the calendar date it was generated for.
+   */
+  async setTimezone(
+    { user, timezone }: { user: User; timezone: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      // Precondition check: the timezone must be one the runtime can convert to
+      if (!isValidTimezone(timezone)) {
+        return { error: `Unknown timezone: ${timezone}` };
+      }
+
+      await this.users.updateOne(
+        { _id: user },
+        { $set: { timezone }, $setOnInsert: { currentMapId: null } },
+        { upsert: true },
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error setting timezone for user ${user}:`, e);
+        return { error: `Failed to set timezone: ${e.message}` };
+      } else {
+        console.error(`Unknown error setting timezone for user ${user}:`, e);
+        return { error: "Failed to set timezone due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * setCarryForward (user: User, mode: String): Empty
+   *
+   * requires: mode is "off", "regions" or "scores"
+   * effects: sets how the user's new maps are prefilled from their previous one: not at all, with its
+   *          region names, or with its region names and scores (marked as carried so they can be told apart),
+   *          creating the user's record if they have no map yet.
+   */
+  async setCarryForward(
+    { user, mode }: { user: User; mode: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      if (!CARRY_FORWARD_MODES.includes(mode as CarryForwardMode)) {
+        return {
+          error: `Unknown carry-forward mode '${mode}'; expected one of ${
+            CARRY_FORWARD_MODES.join(", ")
+          }.`,
+        };
+      }
+
+      await this.users.updateOne(
+        { _id: user },
+        {
+          $set: { carryForward: mode as CarryForwardMode },
+          $setOnInsert: { currentMapId: null },
+        },
+        { upsert: true },
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error setting carry-forward for user ${user}:`, e);
+        return { error: `Failed to set carry-forward: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error setting carry-forward for user ${user}:`,
+          e,
+        );
+        return { error: "Failed to set carry-forward due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * registerTemplate (templateId: String, name: String, views: TemplateView[]): (templateId: String, version: Number)
+   *
+   * requires: views has at least one of the front, back, left and right views, each at most once,
+   *           and every region on a view has a unique name and a polygon of at least three points inside the view
+   * effects: stores the views as the next version of the template (version 1 for a new templateId)
+   *          and returns the version. Maps generated from then on use the new version;
+   *          existing maps keep the version they were drawn on.
+   */
+  async registerTemplate(
+    { templateId, name, views }: {
+      templateId: string;
+      name: string;
+      views: TemplateView[];
+    },
+  ): Promise<{ templateId: string; version: number } | { error: string }> {
+    try {
+      // Precondition checks
+      if (!templateId || templateId.includes("@")) {
+        return { error: `Invalid template id: '${templateId}'` };
+      }
+      const problem = templateViewsProblem(views);
+      if (problem) {
+        return { error: problem };
+      }
+
+      const latest = await this.latestTemplate(templateId);
+      const version = (latest?.version ?? 0) + 1;
+      // The _id is unique, so of two concurrent registrations only one gets each version
+      await this.templates.insertOne({
+        _id: `${templateId}@${version}`,
+        templateId,
+        version,
+        name,
+        views,
+        createdAt: new Date(),
+      });
+      return { templateId, version };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error registering template ${templateId}:`, e);
+        return { error: `Failed to register template: ${e.message}` };
+      } else {
+        console.error(`Unknown error registering template ${templateId}:`, e);
+        return {
+          error: "Failed to register template due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * renderMap (user: User, map: Map, format: String, regions: { name: String, score?: Number }[]): (contentType: String, image: String)
+   *
+   * requires: map exists, is owned by user and is not in the trash; format is "svg" or "png"
+   * effects: draws every view of the template version the map was generated on, side by side, filling each region
+   *          with the colour of its score in regions on a green-yellow-red scale (1 green, 10 red);
+   *          regions without a score are drawn in neutral grey. Where a region name was scored more than once,
+   *          the highest score is used. Returns the SVG document as text, or the PNG file base64-encoded,
+   *          along with its content type, ready to embed (e.g. as a data: URI) in emails, PDFs and shared pages.
+   *
+   * Note: The regions are the map's regions in PainLocationScoring, which a synchronization looks up and passes in.
+   */
+  async renderMap(
+    { user, map, format, regions }: {
+      user: User;
+      map: Map;
+      format: string;
+      regions: ScoredRegion[];
+    },
+  ): Promise<{ contentType: string; image: string } | { error: string }> {
+    try {
+      if (!RENDER_FORMATS.includes(format as RenderFormat)) {
+        return {
+          error: `Unsupported format '${format}'; expected one of ${
+            RENDER_FORMATS.join(", ")
+          }.`,
+        };
+      }
+      const mapDoc = await this.maps.findOne({ _id: map });
+      if (!mapDoc || mapDoc.ownerId !== user || mapDoc.trashedAt) {
+        return { error: `Map ${map} not found for user ${user}.` };
+      }
+
+      // Maps from before templates existed were drawn on the first built-in version
+      await this.templatesReady;
+      const template = await this.templates.findOne({
+        templateId: mapDoc.templateId ?? DEFAULT_TEMPLATE.templateId,
+        version: mapDoc.templateVersion ?? 1,
+      });
+      if (!template) {
+        return {
+          error:
+            `Template ${mapDoc.templateId}@${mapDoc.templateVersion} for map ${map} is not registered.`,
+        };
+      }
+
+      // Regions are keyed to the template by name
+      const scores = new Map<string, number>();
+      for (const region of regions ?? []) {
+        if (typeof region.score !== "number") continue;
+        const previous = scores.get(region.name) ?? 0;
+        scores.set(region.name, Math.max(previous, region.score));
+      }
+
+      if (format === "png") {
+        const png = await renderPng(template.views, scores);
+        return { contentType: "image/png", image: toBase64(png) };
+      }
+      return {
+        contentType: "image/svg+xml",
+        image: renderSvg(template.views, scores),
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error rendering map ${map} for user ${user}:`, e);
+        return { error: `Failed to render map: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error rendering map ${map} for user ${user}:`,
+          e,
+        );
+        return { error: "Failed to render map due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * eraseUser (user: User): (removed: { users: Number, maps: Number })
+   *
+   * requires: true
+   * effects: permanently deletes the user's record and every Map they own, current or saved,
+   *          and returns how many records were removed from each set.
+   *          Intended to be called by a synchronization when an account is deleted.
+   */
+  async eraseUser(
+    { user }: { user: User },
+  ): Promise<
+    { removed: { users: number; maps: number } } | { error: string }
+  > {
+    try {
+      const mapsResult = await this.maps.deleteMany({ ownerId: user });
+      const usersResult = await this.users.deleteOne({ _id: user });
+      return {
+        removed: {
+          users: usersResult.deletedCount,
+          maps: mapsResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing data for user ${user}:`, e);
+        return { error: `Failed to erase user data: ${e.message}` };
+      } else {
+        console.error(`Unknown error erasing data for user ${user}:`, e);
+        return { error: "Failed to erase user data due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * Helper method to roll over one batch of users for the daily generation, then checkpoint the batch's last user.
+   * The batch's maps are written with one bulkWrite and its users with another, rather than a transaction per user.
+   * Both writes can be repeated: a map that already exists for its date (from a rerun of a batch interrupted between
+   * the writes, or a concurrent generateMap) is kept and used, so a resumed run finishes what a crashed one started.
+   * A user whose writes fail keeps their previous map and is retried by the next run.
+   * @param batchNumber The number of the batch within the run.
+   * @param users The users in the batch, in _id order.
+   * @param now The time of the run.
+   * @param lastRunDate When the last finished run started, for backfilling missed days; null if there was none.
+   * @param template The template new maps are drawn on.
+   * @returns What the batch did, the maps its users were moved onto or backfilled with, and the new maps to carry forward.
+   */
+  private async generateBatch(
+    batchNumber: number,
+    users: UserState[],
+    now: Date,
+    lastRunDate: Date | null,
+    template: TemplateState,
+  ): Promise<
+    { report: BatchReport; generated: GeneratedMap[]; carried: CarryForward[] }
+  > {
+    const started = Date.now();
+    const failures = new Map<User, string>();
+
+    // Records from before per-user rollover have no lastMapDate; fall back to
+    // the local date their current map was generated on
+    const legacyMapIds = users
+      .filter((u) => !u.lastMapDate && u.currentMapId)
+      .map((u) => u.currentMapId as Map);
+    const legacyMaps = legacyMapIds.length > 0
+      ? await this.maps.find({ _id: { $in: legacyMapIds } }).toArray()
+      : [];
+    const legacyById = new Map(legacyMaps.map((m) => [m._id, m]));
+
+    // Each due user's previous map is archived, then a saved map is inserted for each missed day and
+    // a current one for today. ops[i] is done on behalf of opUsers[i].
+    const ops: AnyBulkWriteOperation<MapState>[] = [];
+    const opUsers: UserState[] = [];
+    const backfillOps: number[] = [];
+    const todays = new Map<User, { date: Date; map: Map; opIndex: number }>();
+    for (const userState of users) {
+      const timezone = userState.timezone ?? DEFAULT_TIMEZONE;
+      const today = localCalendarDate(now, timezone);
+      let lastMapDate = userState.lastMapDate ?? null;
+      if (!lastMapDate && userState.currentMapId) {
+        const currentMap = legacyById.get(userState.currentMapId);
+        lastMapDate = currentMap
+          ? localCalendarDate(currentMap.creationDate, timezone)
+          : null;
+      }
+      if (lastMapDate && lastMapDate.getTime() >= today.getTime()) {
+        continue;
+      }
+
+      const days: Date[] = [];
+      // Days after both the user's last map and the last run's local date were
+      // missed while no server was running
+      if (lastMapDate && lastRunDate) {
+        const lastRunDay = localCalendarDate(lastRunDate, timezone);
+        const firstMissed = Math.max(
+          lastMapDate.getTime(),
+          lastRunDay.getTime(),
+          today.getTime() - (MAX_BACKFILL_DAYS + 1) * DAY_MS,
+        ) + DAY_MS;
+        for (let day = firstMissed; day < today.getTime(); day += DAY_MS) {
+          days.push(new Date(day));
+        }
+      }
+      days.push(today);
+
+      if (userState.currentMapId) {
+        ops.push({
+          updateOne: {
+            filter: { _id: userState.currentMapId },
+            update: { $set: { isSaved: true } },
+          },
+        });
+        opUsers.push(userState);
+      }
+      for (const day of days) {
+        const isToday = day === today;
+        const newMap: MapState = {
+          _id: freshID() as Map,
+          ownerId: userState._id,
+          creationDate: day,
+          generatedAt: now,
+          templateId: template.templateId,
+          templateVersion: template.version,
+          imageUrl: template.views[0].imageUrl, // An outline only, no body measurements implied
+          isSaved: !isToday, // A missed day's map is archived as soon as it is made
+        };
+        if (isToday) {
+          todays.set(userState._id, {
+            date: today,
+            map: newMap._id,
+            opIndex: ops.length,
+          });
+        } else {
+          backfillOps.push(ops.length);
+        }
+        ops.push({ insertOne: { document: newMap } });
+        opUsers.push(userState);
+      }
+    }
+
+    // Inserts whose date already had a map; unordered, so one user's failure does not hold up the rest
+    const duplicates = new Set<number>();
+    if (ops.length > 0) {
+      try {
+        await this.maps.bulkWrite(ops, { ordered: false });
+      } catch (e) {
+        if (!(e instanceof MongoBulkWriteError)) throw e;
+        const writeErrors = Array.isArray(e.writeErrors)
+          ? e.writeErrors
+          : [e.writeErrors];
+        for (const writeError of writeErrors) {
+          if (
+            writeError.code === DUPLICATE_KEY_ERROR &&
+            "insertOne" in ops[writeError.index]
+          ) {
+            duplicates.add(writeError.index);
+          } else {
+            failures.set(
+              opUsers[writeError.index]._id,
+              writeError.errmsg ?? `Write failed with code ${writeError.code}`,
+            );
+          }
+        }
+      }
+    }
+
+    // Users whose map for today already existed move onto that map instead
+    const existingTodays = [...todays].filter(([, today]) =>
+      duplicates.has(today.opIndex)
     );
+    if (existingTodays.length > 0) {
+      const existing = await this.maps.find({
+        $or: existingTodays.map(([user, today]) => ({
+          ownerId: user,
+          creationDate: today.date,
+        })),
+      }).toArray();
+      for (const [user, today] of existingTodays) {
+        const map = existing.find((m) => m.ownerId === user);
+        if (!map) {
+          failures.set(user, "The map for today could not be found.");
+          continue;
+        }
+        try {
+          today.map = mapForDate(map);
+        } catch (e) {
+          failures.set(user, (e as Error).message);
+        }
+      }
+    }
+
+    const toUpdate = [...todays].filter(([user]) => !failures.has(user));
+    if (toUpdate.length > 0) {
+      try {
+        await this.users.bulkWrite(
+          toUpdate.map(([user, today]) => ({
+            updateOne: {
+              filter: { _id: user },
+              update: {
+                $set: { currentMapId: today.map, lastMapDate: today.date },
+              },
+            },
+          })),
+          { ordered: false },
+        );
+      } catch (e) {
+        if (!(e instanceof MongoBulkWriteError)) throw e;
+        const writeErrors = Array.isArray(e.writeErrors)
+          ? e.writeErrors
+          : [e.writeErrors];
+        for (const writeError of writeErrors) {
+          failures.set(
+            toUpdate[writeError.index][0],
+            writeError.errmsg ?? `Write failed with code ${writeError.code}`,
+          );
+        }
+      }
+    }
+
+    // Every map inserted, including backfills and those of users whose own update failed, and
+    // every existing map a user moved onto; tracking a map again is harmless
+    const generated = new Map<Map, GeneratedMap>();
+    ops.forEach((op, i) => {
+      if ("insertOne" in op && !duplicates.has(i)) {
+        const map = op.insertOne.document._id as Map;
+        generated.set(map, { user: opUsers[i]._id, map });
+      }
+    });
+    for (const [user, today] of toUpdate) {
+      if (!failures.has(user)) {
+        generated.set(today.map, { user, map: today.map });
+      }
+    }
+
+    // Only maps this batch created are carried forward; an existing one may have been already
+    const carried: CarryForward[] = [];
+    for (const [user, today] of toUpdate) {
+      if (failures.has(user) || duplicates.has(today.opIndex)) continue;
+      const mode = opUsers[today.opIndex].carryForward ?? "off";
+      if (mode === "off") continue;
+      const previousMaps = await this.previousMaps(user, today.date);
+      if (previousMaps.length > 0) {
+        carried.push({
+          user,
+          previousMaps,
+          to: today.map,
+          withScores: mode === "scores",
+        });
+      }
+    }
+
+    // The batch is done; a rerun after a crash resumes after its last user
+    await this.dailyGenerationStatus.updateOne(
+      { _id: "dailyGeneration" },
+      {
+        $set: {
+          resumeAfter: users[users.length - 1]._id,
+          batchesCompleted: batchNumber,
+        },
+      },
+    );
+
+    const backfilled =
+      backfillOps.filter((i) =>
+        !duplicates.has(i) && !failures.has(opUsers[i]._id)
+      ).length;
+    return {
+      report: {
+        batch: batchNumber,
+        users: users.length,
+        rolledOver: toUpdate.filter(([user]) => !failures.has(user)).length,
+        backfilled,
+        failures: [...failures].map(([user, error]) => ({ user, error })),
+        durationMs: Date.now() - started,
+      },
+      generated: [...generated.values()],
+      carried,
+    };
+  }
+
+  /**
+   * system triggerDailyMapGeneration (): (generated: GeneratedMap[], carried: CarryForward[], batches: BatchReport[])
+   *
+   * requires: true
+   * effects:
+   *   For each user in the users collection whose calendar date, in their own timezone, is later than
+   *   the date of their last generated map:
+   *     Their current map, if any, is saved, and a new current map is generated for their new calendar date.
+   *   Users whose local day has not changed since their last map are left alone, so this is meant to run
+   *   frequently (e.g. every 15 minutes, to catch timezones offset by a quarter hour) rather than once a day.
+   *   If no run happened across one or more of a user's local midnights (judged from dailyGenerationStatus.lastRunDate),
+   *   a saved map is first backfilled for each missed day, up to the configured maximum, so their history has no gaps.
+   *   Users are streamed in batches of the configured size, and dailyGenerationStatus records the last user of each
+   *   completed batch. If a run stops before finishing, the next run resumes after that user, and the following one
+   *   starts from the beginning again.
+   *   Once every batch is done, dailyGenerationStatus.lastRunDate is set to when the run started.
+   *   Returns a report for each batch this call completed, with the users that failed and why; they are retried
+   *   by the next run. Also returns every map users were given, each with its owner, for synchronizations to track,
+   *   and, for each user whose carry-forward setting is not "off" and who has earlier maps, the new map for today
+   *   and their latest earlier maps, newest first, for a synchronization to prefill it from the first with regions.
+   *   Backfilled maps are left empty.
+   */
+  async triggerDailyMapGeneration(): Promise<
+    | {
+      generated: GeneratedMap[];
+      carried: CarryForward[];
+      batches: BatchReport[];
+    }
+    | { error: string }
+  > {
+    const now = new Date();
+    const generated: GeneratedMap[] = [];
+    const carried: CarryForward[] = [];
+    const batches: BatchReport[] = [];
 
     try {
       const status = await this.dailyGenerationStatus.findOne({
         _id: "dailyGeneration",
       });
-      const lastRunDate = status ? new Date(status.lastRunDate) : null;
-      // Calculate midnight of the last run date for comparison
-      const lastRunMidnight = lastRunDate
-        ? new Date(
-          lastRunDate.getFullYear(),
-          lastRunDate.getMonth(),
-          lastRunDate.getDate(),
-        )
+      const lastRunDate = status?.lastRunDate
+        ? new Date(status.lastRunDate)
         : null;
 
-      // Precondition check: Ensure this action hasn't already run today
-      if (
-        lastRunMidnight && lastRunMidnight.getTime() === todayMidnight.getTime()
-      ) {
-        return { error: "Daily map generation has already run for today." };
+      // Resume a run that stopped part way, or start a new one
+      const runStartedAt = status?.runStartedAt ?? now;
+      const resumeAfter = status?.runStartedAt ? status.resumeAfter : undefined;
+      let batchNumber = status?.runStartedAt ? status.batchesCompleted ?? 0 : 0;
+      if (status?.runStartedAt) {
+        console.log(
+          `Resuming daily map rollover started at ${runStartedAt.toISOString()} after ${batchNumber} batches`,
+        );
+      } else {
+        console.log(
+          `Starting daily map rollover check at ${now.toISOString()}`,
+        );
+        await this.dailyGenerationStatus.updateOne(
+          { _id: "dailyGeneration" },
+          {
+            $set: { runStartedAt: now, batchesCompleted: 0 },
+            $unset: { resumeAfter: "" },
+          },
+          { upsert: true },
+        );
       }
 
-      console.log(
-        `Starting daily map generation for date: ${todayMidnight.toISOString()}`,
-      );
-
-      // Retrieve all existing users to process their maps
-      const allUsers = await this.users.find({}).toArray();
+      const template = await this.latestTemplate(MAP_TEMPLATE);
+      if (!template) {
+        throw new Error(`Map template '${MAP_TEMPLATE}' is not registered.`);
+      }
+      await this.mapDateIndex;
 
-      for (const userState of allUsers) {
+      // Stream users in _id order, so a batch's last user marks how far the run has got
+      const cursor = this.users
+        .find(resumeAfter ? { _id: { $gt: resumeAfter } } : {})
+        .sort({ _id: 1 })
+        .batchSize(GENERATION_BATCH_SIZE);
+      let batch: UserState[] = [];
+      const runBatch = async () => {
+        const result = await this.generateBatch(
+          ++batchNumber,
+          batch,
+          now,
+          lastRunDate,
+          template,
+        );
         console.log(
-          `Processing daily map generation for user: ${userState._id}`,
+          `Daily map rollover batch ${result.report.batch}: ${result.report.users} users, ` +
+            `${result.report.rolledOver} rolled over, ${result.report.backfilled} backfilled, ` +
+            `${result.report.failures.length} failed in ${result.report.durationMs}ms`,
         );
-        // Calling generateMap for each user handles both cases:
-        // 1. If user has a current map: it's marked as saved, then a new one is created.
-        // 2. If user does not have a current map (currentMapId is null): a new one is simply created.
-        const generateResult = await this.generateMap({ user: userState._id });
-        if ("error" in generateResult) {
+        for (const failure of result.report.failures) {
           console.error(
-            `Failed to generate daily map for user ${userState._id}: ${generateResult.error}`,
+            `Failed to generate daily map for user ${failure.user}: ${failure.error}`,
           );
-          // Decide on error handling strategy: continue processing other users or halt?
-          // For system-wide tasks, usually continue with a log.
         }
+        batches.push(result.report);
+        generated.push(...result.generated);
+        carried.push(...result.carried);
+        batch = [];
+      };
+      for await (const userState of cursor) {
+        batch.push(userState);
+        if (batch.length >= GENERATION_BATCH_SIZE) {
+          await runBatch();
+        }
+      }
+      if (batch.length > 0) {
+        await runBatch();
       }
 
-      // Update the system status to mark that daily generation has run for today
+      // Record when the finished run started and clear its progress
       await this.dailyGenerationStatus.updateOne(
         { _id: "dailyGeneration" },
-        { $set: { lastRunDate: now } }, // Store the exact time of completion
-        { upsert: true }, // Create the status record if it doesn't exist
+        {
+          $set: { lastRunDate: runStartedAt },
+          $unset: { runStartedAt: "", resumeAfter: "", batchesCompleted: "" },
+        },
+        { upsert: true },
       );
 
       console.log(
-        `Daily map generation completed for date: ${todayMidnight.toISOString()}`,
+        `Daily map rollover check completed at ${new Date().toISOString()}`,
       );
-      return {};
+      return { generated, carried, batches };
     } catch (e) {
       if (e instanceof Error) {
         console.error("Critical error during daily map generation:", e);
@@ -305,6 +1263,43 @@ export default class BodyMapGenerationConcept {
     }
   }
 
+  /**
+   * system purgeTrash (): (purged: Map[])
+   *
+   * requires: true
+   * effects: permanently deletes every Map that has been in the trash for longer than the configured retention
+   *          window, and returns their IDs so synchronizations can delete what other concepts hold for them.
+   */
+  async purgeTrash(): Promise<{ purged: Map[] } | { error: string }> {
+    try {
+      const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+      const expired = await this.maps.find(
+        { trashedAt: { $lte: cutoff } },
+        { projection: { _id: 1 } },
+      ).toArray();
+      const purged = expired.map((m) => m._id);
+      if (purged.length > 0) {
+        // Re-check trashedAt in case a map was restored since it was found
+        await this.maps.deleteMany({
+          _id: { $in: purged },
+          trashedAt: { $lte: cutoff },
+        });
+        console.log(`Purged ${purged.length} maps from the trash`);
+      }
+      return { purged };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error("Error purging trashed maps:", e);
+        return { error: `Failed to purge trashed maps: ${e.message}` };
+      } else {
+        console.error("Unknown error purging trashed maps:", e);
+        return {
+          error: "Failed to purge trashed maps due to an unknown error",
+        };
+      }
+    }
+  }
+
   // --- Query methods (not explicitly requested but good for testing/observability) ---
 
   /**
@@ -336,17 +1331,42 @@ export default class BodyMapGenerationConcept {
     }
   }
 
+  /**
+   * _getMap (user: User, map: Map): (map: MapState | null)
+   *
+   * effects: Returns the given map if the user owns it, whether current, saved or in the trash;
+   *          otherwise null, so other concepts' synchronizations can check who a map belongs to.
+   */
+  async _getMap(
+    { user, map }: { user: User; map: Map },
+  ): Promise<{ map: MapState | null } | { error: string }> {
+    try {
+      return { map: await this.maps.findOne({ _id: map, ownerId: user }) };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching map ${map} for user ${user}:`, e);
+        return { error: `Failed to fetch map: ${e.message}` };
+      } else {
+        console.error(`Unknown error fetching map ${map} for user ${user}:`, e);
+        return { error: "Failed to fetch map due to an unknown error" };
+      }
+    }
+  }
+
   /**
    * _getSavedMaps (user: User): (maps: MapState[])
    *
-   * effects: Returns all saved maps for a given user.
+   * effects: Returns all saved maps for a given user, leaving out any in the trash.
    */
   async _getSavedMaps(
     { user }: { user: User },
   ): Promise<{ maps: MapState[] } | { error: string }> {
     try {
-      const maps = await this.maps.find({ ownerId: user, isSaved: true })
-        .toArray();
+      const maps = await this.maps.find({
+        ownerId: user,
+        isSaved: true,
+        trashedAt: { $exists: false },
+      }).toArray();
       return { maps };
     } catch (e) {
       if (e instanceof Error) {
@@ -358,4 +1378,293 @@ export default class BodyMapGenerationConcept {
       }
     }
   }
+
+  /**
+   * _getMapsInRange (user: User, start?: Date, end?: Date, cursor?: String, limit?: Number):
+   *   (maps: MapState[], nextCursor: String | null)
+   *
+   * requires: start and end, if given, are dates; limit, if given, is between 1 and 100; cursor, if given,
+   *           came from an earlier call
+   * effects: Returns one page of the user's maps, current and saved, whose calendar date is between start and end
+   *          inclusive (either bound may be left open), newest first.
+   *          Any time of day on start and end is ignored, and older maps stamped with their full creation time are
+   *          found by the day they fall on. Maps in the trash are left out.
+   *          At most limit maps are returned (default 30); nextCursor fetches the following page and is null on the last.
+   */
+  async _getMapsInRange(
+    { user, start, end, cursor, limit }: {
+      user: User;
+      start?: string | Date;
+      end?: string | Date;
+      cursor?: string;
+      limit?: number;
+    },
+  ): Promise<
+    { maps: MapState[]; nextCursor: string | null } | { error: string }
+  > {
+    try {
+      const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+      if (
+        !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE
+      ) {
+        return {
+          error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}.`,
+        };
+      }
+
+      // The range runs from the start of start's day up to, but not including, the day after end's
+      const creationDate: { $gte?: Date; $lt?: Date } = {};
+      for (const [bound, value] of [["$gte", start], ["$lt", end]] as const) {
+        if (value === undefined || value === null) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return { error: `Invalid date: '${value}'` };
+        }
+        const day = localCalendarDate(date, "UTC");
+        creationDate[bound] = bound === "$lt"
+          ? new Date(day.getTime() + DAY_MS)
+          : day;
+      }
+      const filter: Record<string, unknown> = {
+        ownerId: user,
+        trashedAt: { $exists: false },
+      };
+      if (creationDate.$gte || creationDate.$lt) {
+        filter.creationDate = creationDate;
+      }
+
+      // The cursor is the date and ID of the last map on the previous page; ties on a date are ordered by ID
+      if (cursor) {
+        let after: { date: string; id: Map };
+        try {
+          after = JSON.parse(new TextDecoder().decode(fromBase64Url(cursor)));
+        } catch {
+          return { error: "Invalid cursor." };
+        }
+        const afterDate = new Date(after.date);
+        if (isNaN(afterDate.getTime()) || typeof after.id !== "string") {
+          return { error: "Invalid cursor." };
+        }
+        filter.$or = [
+          { creationDate: { $lt: afterDate } },
+          { creationDate: afterDate, _id: { $lt: after.id } },
+        ];
+      }
+
+      // Fetch one extra map to learn whether another page follows
+      const page = await this.maps.find(filter)
+        .sort({ creationDate: -1, _id: -1 })
+        .limit(pageSize + 1)
+        .toArray();
+      const hasMore = page.length > pageSize;
+      const maps = page.slice(0, pageSize);
+      const last = maps[maps.length - 1];
+      const nextCursor = hasMore
+        ? toBase64Url(
+          new TextEncoder().encode(
+            JSON.stringify({
+              date: last.creationDate.toISOString(),
+              id: last._id,
+            }),
+          ),
+        )
+        : null;
+
+      return { maps, nextCursor };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching maps in range for user ${user}:`, e);
+        return { error: `Failed to fetch maps: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error fetching maps in range for user ${user}:`,
+          e,
+        );
+        return { error: "Failed to fetch maps due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * _getMapForDate (user: User, date: Date): (map: MapState | null)
+   *
+   * requires: date is a calendar date (e.g. "2025-03-14"); any time of day is ignored
+   * effects: Returns the user's map for that calendar date, or null if they have none or it is in the trash. Older maps stamped with their full creation time
+   *          are found by the day they fall on. If an older record holds several maps for the date, the latest is returned.
+   */
+  async _getMapForDate(
+    { user, date }: { user: User; date: string | Date },
+  ): Promise<{ map: MapState | null } | { error: string }> {
+    try {
+      const at = new Date(date);
+      if (isNaN(at.getTime())) {
+        return { error: `Invalid date: '${date}'` };
+      }
+      const day = localCalendarDate(at, "UTC");
+      const map = await this.maps.findOne(
+        {
+          ownerId: user,
+          creationDate: { $gte: day, $lt: new Date(day.getTime() + DAY_MS) },
+          trashedAt: { $exists: false },
+        },
+        { sort: { generatedAt: -1, creationDate: -1, _id: -1 } },
+      );
+      return { map };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching map for date for user ${user}:`, e);
+        return { error: `Failed to fetch map: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error fetching map for date for user ${user}:`,
+          e,
+        );
+        return { error: "Failed to fetch map due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * _getCarryForwardSource (user: User): (map: Map | null, previousMaps: Map[], withScores: Boolean)
+   *
+   * effects: Returns the user's current map, their latest earlier maps, newest first, and whether their
+   *          carry-forward setting copies scores, so the current map can be prefilled on request from
+   *          the first earlier map with regions marked.
+   */
+  async _getCarryForwardSource(
+    { user }: { user: User },
+  ): Promise<
+    | { map: Map | null; previousMaps: Map[]; withScores: boolean }
+    | { error: string }
+  > {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+      const withScores = userState?.carryForward === "scores";
+      const current = userState?.currentMapId
+        ? await this.maps.findOne({ _id: userState.currentMapId })
+        : null;
+      if (!current) {
+        return { map: null, previousMaps: [], withScores };
+      }
+      const previousMaps = await this.previousMaps(user, current.creationDate);
+      return { map: current._id, previousMaps, withScores };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error finding carry-forward source for ${user}:`, e);
+        return { error: `Failed to find previous map: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error finding carry-forward source for ${user}:`,
+          e,
+        );
+        return {
+          error: "Failed to find previous map due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * _getTrashedMaps (user: User): (maps: TrashedMap[])
+   *
+   * effects: Returns the user's maps in the trash, most recently cleared first, each with the time
+   *          purgeTrash will permanently delete it.
+   */
+  async _getTrashedMaps(
+    { user }: { user: User },
+  ): Promise<{ maps: TrashedMap[] } | { error: string }> {
+    try {
+      const maps = await this.maps.find({
+        ownerId: user,
+        trashedAt: { $exists: true },
+      })
+        .sort({ trashedAt: -1 })
+        .toArray();
+      return {
+        maps: maps.map((m) => ({
+          ...m,
+          trashedAt: m.trashedAt!,
+          purgeAt: new Date(
+            m.trashedAt!.getTime() + TRASH_RETENTION_DAYS * DAY_MS,
+          ),
+        })),
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching trashed maps for user ${user}:`, e);
+        return { error: `Failed to fetch trashed maps: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error fetching trashed maps for user ${user}:`,
+          e,
+        );
+        return {
+          error: "Failed to fetch trashed maps due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * _getTemplate (templateId: String, version?: Number): (template: TemplateState | null)
+   *
+   * effects: Returns the given version of a template, or its latest version if none is given,
+   *          with the polygon of every region on every view; null if there is no such template.
+   *          Maps record the templateId and templateVersion to pass here.
+   */
+  async _getTemplate(
+    { templateId, version }: { templateId: string; version?: number },
+  ): Promise<{ template: TemplateState | null } | { error: string }> {
+    try {
+      if (version === undefined) {
+        return { template: await this.latestTemplate(templateId) };
+      }
+      await this.templatesReady;
+      const template = await this.templates.findOne({
+        templateId,
+        version: Number(version),
+      });
+      return { template };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching template ${templateId}:`, e);
+        return { error: `Failed to fetch template: ${e.message}` };
+      } else {
+        console.error(`Unknown error fetching template ${templateId}:`, e);
+        return { error: "Failed to fetch template due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * _getMapTemplate (user: User, map: Map): (template: TemplateState | null)
+   *
+   * effects: Returns the template version the user's map is drawn on, with the polygon of every region
+   *          on every view; null if the user does not own the map. Maps from before templates existed
+   *          are drawn on the first version of the built-in template.
+   */
+  async _getMapTemplate(
+    { user, map }: { user: User; map: Map },
+  ): Promise<{ template: TemplateState | null } | { error: string }> {
+    try {
+      const mapDoc = await this.maps.findOne({ _id: map, ownerId: user });
+      if (!mapDoc) {
+        return { template: null };
+      }
+      await this.templatesReady;
+      const template = await this.templates.findOne({
+        templateId: mapDoc.templateId ?? DEFAULT_TEMPLATE.templateId,
+        version: mapDoc.templateVersion ?? 1,
+      });
+      return { template };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching the template of map ${map}:`, e);
+        return { error: `Failed to fetch template: ${e.message}` };
+      } else {
+        console.error(`Unknown error fetching the template of map ${map}:`, e);
+        return { error: "Failed to fetch template due to an unknown error" };
+      }
+    }
+  }
 }
@@ -0,0 +1,286 @@
+import { Point, TemplateView } from "./templates.ts";
+
+/**
+ * Turns a template and region scores into a heatmap image, as SVG markup or a PNG.
+ * Views are laid out left to right in template order. Each region is filled with the
+ * severity colour of its score, or left neutral if it has not been scored.
+ */
+
+// Space between views, in template units
+const VIEW_GAP = 20;
+// PNG pixels per template unit
+const PNG_SCALE = 2;
+
+type Rgb = [number, number, number];
+
+const BACKGROUND: Rgb = [255, 255, 255];
+const UNSCORED: Rgb = [238, 238, 238];
+const OUTLINE: Rgb = [97, 97, 97];
+
+/**
+ * The scoring palette from the design doc: green for mild pain through yellow to red for severe,
+ * like a traffic light. Scores between stops are blended.
+ */
+const SEVERITY_STOPS: Array<{ score: number; colour: Rgb }> = [
+  { score: 1, colour: [76, 175, 80] },
+  { score: 5.5, colour: [255, 235, 59] },
+  { score: 10, colour: [244, 67, 54] },
+];
+
+/**
+ * Returns the colour for a pain score from 1 to 10; scores outside the range are clamped.
+ */
+export function severityColour(score: number): Rgb {
+  const clamped = Math.min(10, Math.max(1, score));
+  for (let i = 1; i < SEVERITY_STOPS.length; i++) {
+    const lower = SEVERITY_STOPS[i - 1];
+    const upper = SEVERITY_STOPS[i];
+    if (clamped <= upper.score) {
+      const t = (clamped - lower.score) / (upper.score - lower.score);
+      return lower.colour.map((c, j) =>
+        Math.round(c + (upper.colour[j] - c) * t)
+      ) as Rgb;
+    }
+  }
+  return SEVERITY_STOPS[SEVERITY_STOPS.length - 1].colour;
+}
+
+function hex([r, g, b]: Rgb): string {
+  return "#" + [r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("");
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Places each view on a shared canvas.
+ * @returns the x offset of each view and the canvas size, in template units
+ */
+function layout(
+  views: TemplateView[],
+): { offsets: number[]; width: number; height: number } {
+  const offsets: number[] = [];
+  let x = 0;
+  for (const view of views) {
+    offsets.push(x);
+    x += view.width + VIEW_GAP;
+  }
+  return {
+    offsets,
+    width: Math.max(0, x - VIEW_GAP),
+    height: Math.max(0, ...views.map((view) => view.height)),
+  };
+}
+
+/**
+ * Renders the heatmap as a standalone SVG document. Each region carries a title with its
+ * name and score, which viewers show as a tooltip.
+ * @param views The template's views.
+ * @param scores The score for each region name; regions without a score are drawn neutral.
+ */
+export function renderSvg(
+  views: TemplateView[],
+  scores: ReadonlyMap<string, number>,
+): string {
+  const { offsets, width, height } = layout(views);
+  const groups = views.map((view, i) => {
+    const polygons = view.regions.map((region) => {
+      const score = scores.get(region.name);
+      const fill = score === undefined ? UNSCORED : severityColour(score);
+      const points = region.polygon.map(([x, y]) => `${x},${y}`).join(" ");
+      const title = score === undefined
+        ? region.name
+        : `${region.name}: ${score}`;
+      return `<polygon points="${points}" fill="${hex(fill)}"><title>${
+        escapeXml(title)
+      }</title></polygon>`;
+    });
+    return `<g transform="translate(${
+      offsets[i]
+    } 0)" data-view="${view.view}">${polygons.join("")}</g>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" fill="${hex(BACKGROUND)}"/>` +
+    `<g stroke="${hex(OUTLINE)}" stroke-width="1" stroke-linejoin="round">${
+      groups.join("")
+    }</g></svg>`;
+}
+
+/**
+ * Renders the heatmap as a PNG, drawing the same polygons as renderSvg.
+ * @param views The template's views.
+ * @param scores The score for each region name; regions without a score are drawn neutral.
+ * @returns the PNG file's bytes
+ */
+export async function renderPng(
+  views: TemplateView[],
+  scores: ReadonlyMap<string, number>,
+): Promise<Uint8Array> {
+  const { offsets, width, height } = layout(views);
+  const canvas = new Canvas(
+    Math.ceil(width * PNG_SCALE),
+    Math.ceil(height * PNG_SCALE),
+  );
+  views.forEach((view, i) => {
+    for (const region of view.regions) {
+      const score = scores.get(region.name);
+      const points = region.polygon.map(([x, y]): Point => [
+        (x + offsets[i]) * PNG_SCALE,
+        y * PNG_SCALE,
+      ]);
+      canvas.fillPolygon(
+        points,
+        score === undefined ? UNSCORED : severityColour(score),
+      );
+      canvas.strokePolygon(points, OUTLINE);
+    }
+  });
+  return await canvas.toPng();
+}
+
+/**
+ * A minimal RGB raster, enough to draw filled and outlined polygons and encode them as a PNG.
+ */
+class Canvas {
+  private readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height * 3);
+    for (let i = 0; i < this.pixels.length; i += 3) {
+      this.pixels.set(BACKGROUND, i);
+    }
+  }
+
+  private set(x: number, y: number, colour: Rgb): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    this.pixels.set(colour, (y * this.width + x) * 3);
+  }
+
+  /**
+   * Fills a polygon using the even-odd rule, sampling each pixel at its centre.
+   */
+  fillPolygon(polygon: Point[], colour: Rgb): void {
+    const ys = polygon.map(([, y]) => y);
+    const top = Math.max(0, Math.floor(Math.min(...ys)));
+    const bottom = Math.min(this.height - 1, Math.ceil(Math.max(...ys)));
+    for (let row = top; row <= bottom; row++) {
+      const y = row + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        if ((y1 <= y && y < y2) || (y2 <= y && y < y1)) {
+          crossings.push(x1 + ((y - y1) / (y2 - y1)) * (x2 - x1));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const start = Math.ceil(crossings[i] - 0.5);
+        const end = Math.floor(crossings[i + 1] - 0.5);
+        for (let x = start; x <= end; x++) {
+          this.set(x, row, colour);
+        }
+      }
+    }
+  }
+
+  /**
+   * Draws a one-pixel outline around a polygon.
+   */
+  strokePolygon(polygon: Point[], colour: Rgb): void {
+    for (let i = 0; i < polygon.length; i++) {
+      const [x1, y1] = polygon[i];
+      const [x2, y2] = polygon[(i + 1) % polygon.length];
+      const steps = Math.max(
+        1,
+        Math.ceil(Math.max(
+          Math.abs(x2 - x1),
+          Math.abs(y2 - y1),
+        )),
+      );
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        this.set(
+          Math.floor(x1 + (x2 - x1) * t),
+          Math.floor(y1 + (y2 - y1) * t),
+          colour,
+        );
+      }
+    }
+  }
+
+  /**
+   * Encodes the canvas as an 8-bit truecolour PNG.
+   */
+  async toPng(): Promise<Uint8Array> {
+    // Each scanline is prefixed with filter type 0 (none)
+    const stride = this.width * 3;
+    const raw = new Uint8Array((stride + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      raw.set(
+        this.pixels.subarray(y * stride, (y + 1) * stride),
+        y * (stride + 1) + 1,
+      );
+    }
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header.set([8, 2, 0, 0, 0], 8); // bit depth 8, truecolour, default compression/filter, no interlace
+
+    return concat([
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", header),
+      chunk("IDAT", await deflate(raw)),
+      chunk("IEND", new Uint8Array(0)),
+    ]);
+  }
+}
+
+// --- PNG encoding helpers ---
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  // "deflate" is the zlib format PNG requires
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = new TextEncoder().encode(type);
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeBytes, 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
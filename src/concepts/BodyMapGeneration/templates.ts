@@ -0,0 +1,214 @@
+/**
+ * The sides of the body a template can show.
+ */
+export const VIEW_NAMES = ["front", "back", "left", "right"] as const;
+export type ViewName = typeof VIEW_NAMES[number];
+
+/**
+ * A point in a view's coordinate space: x from the left edge, y from the top edge.
+ */
+export type Point = [number, number];
+
+/**
+ * A named area of the body, drawn as a closed polygon on one view.
+ * Names match the region names PainLocationScoring stores (e.g. "left knee"),
+ * and the same name may appear on several views.
+ */
+export interface TemplateRegion {
+  name: string;
+  polygon: Point[];
+}
+
+/**
+ * One side of the body: the outline image to draw and the regions on it.
+ * Polygons use the view's own coordinate space of width x height units.
+ */
+export interface TemplateView {
+  view: ViewName;
+  imageUrl: string;
+  width: number;
+  height: number;
+  regions: TemplateRegion[];
+}
+
+/**
+ * Checks a template's views for problems.
+ * @returns a description of the first problem found, or null if the views are valid
+ */
+export function templateViewsProblem(views: TemplateView[]): string | null {
+  if (!Array.isArray(views) || views.length === 0) {
+    return "A template needs at least one view.";
+  }
+  const seenViews = new Set<string>();
+  for (const view of views) {
+    if (!VIEW_NAMES.includes(view.view)) {
+      return `Unknown view '${view.view}'; expected one of ${
+        VIEW_NAMES.join(", ")
+      }.`;
+    }
+    if (seenViews.has(view.view)) {
+      return `View '${view.view}' appears more than once.`;
+    }
+    seenViews.add(view.view);
+    if (!(view.width > 0 && view.height > 0)) {
+      return `View '${view.view}' must have a positive width and height.`;
+    }
+
+    const seenRegions = new Set<string>();
+    for (const region of view.regions ?? []) {
+      if (!region.name || region.name.trim() === "") {
+        return `View '${view.view}' has a region without a name.`;
+      }
+      if (seenRegions.has(region.name)) {
+        return `Region '${region.name}' appears more than once on view '${view.view}'.`;
+      }
+      seenRegions.add(region.name);
+      if (!Array.isArray(region.polygon) || region.polygon.length < 3) {
+        return `Region '${region.name}' on view '${view.view}' needs at least three points.`;
+      }
+      const inBounds = region.polygon.every((point) =>
+        Array.isArray(point) && point.length === 2 &&
+        point[0] >= 0 && point[0] <= view.width &&
+        point[1] >= 0 && point[1] <= view.height
+      );
+      if (!inBounds) {
+        return `Region '${region.name}' on view '${view.view}' has points outside the view.`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a point lies inside a polygon, counting the polygon's edges that a ray
+ * from the point to the right crosses: an odd count means the point is inside.
+ */
+export function polygonContains(polygon: Point[], [x, y]: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (
+      (yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Finds the region drawn at a point of a view, given in the view's coordinate space.
+ * @returns the first region on the view whose polygon contains the point, or null if none does
+ */
+export function regionAt(
+  view: TemplateView,
+  point: Point,
+): TemplateRegion | null {
+  return view.regions.find((region) =>
+    polygonContains(region.polygon, point)
+  ) ??
+    null;
+}
+
+// --- Built-in template ---
+
+// The built-in views are 200 x 500 units, with the body centred on x = 100
+const WIDTH = 200;
+const HEIGHT = 500;
+
+/**
+ * Reflects a polygon across the body's centre line, turning one side's region into the other's.
+ */
+function mirror(polygon: Point[]): Point[] {
+  return polygon.map(([x, y]) => [WIDTH - x, y]);
+}
+
+// Limb outlines for the side of the body drawn on the left half of a view
+const SHOULDER: Point[] = [[50, 70], [70, 75], [70, 100], [48, 100]];
+const UPPER_ARM: Point[] = [[48, 100], [70, 100], [66, 170], [44, 170]];
+const FOREARM: Point[] = [[44, 170], [66, 170], [62, 240], [40, 240]];
+const HAND: Point[] = [[40, 240], [62, 240], [62, 275], [38, 275]];
+const THIGH: Point[] = [[78, 235], [100, 235], [98, 330], [76, 330]];
+const KNEE: Point[] = [[76, 330], [98, 330], [98, 360], [76, 360]];
+const LOWER_LEG: Point[] = [[76, 360], [98, 360], [96, 450], [80, 450]];
+const FOOT: Point[] = [[80, 450], [96, 450], [100, 485], [72, 485]];
+
+// Midline outlines shared by the front and back views
+const HEAD: Point[] = [
+  [86, 8],
+  [114, 8],
+  [122, 30],
+  [114, 55],
+  [86, 55],
+  [78, 30],
+];
+const NECK: Point[] = [[90, 55], [110, 55], [112, 75], [88, 75]];
+const UPPER_TORSO: Point[] = [[70, 75], [130, 75], [130, 140], [70, 140]];
+const LOWER_TORSO: Point[] = [[70, 140], [130, 140], [128, 200], [72, 200]];
+const PELVIS: Point[] = [[72, 200], [128, 200], [128, 235], [72, 235]];
+
+/**
+ * Builds the limb regions for one side of the body.
+ * @param side "left" or "right", as the patient would say it
+ * @param drawnOnLeft whether that side appears on the left half of the view
+ * @param lowerLeg the name for the lower leg as seen from this view
+ */
+function limbRegions(
+  side: "left" | "right",
+  drawnOnLeft: boolean,
+  lowerLeg: string,
+): TemplateRegion[] {
+  const place = (polygon: Point[]) => drawnOnLeft ? polygon : mirror(polygon);
+  return [
+    { name: `${side} shoulder`, polygon: place(SHOULDER) },
+    { name: `${side} upper arm`, polygon: place(UPPER_ARM) },
+    { name: `${side} forearm`, polygon: place(FOREARM) },
+    { name: `${side} hand`, polygon: place(HAND) },
+    { name: `${side} thigh`, polygon: place(THIGH) },
+    { name: `${side} knee`, polygon: place(KNEE) },
+    { name: `${side} ${lowerLeg}`, polygon: place(LOWER_LEG) },
+    { name: `${side} foot`, polygon: place(FOOT) },
+  ];
+}
+
+/**
+ * The template every map uses unless another is registered in its place.
+ * Seen from the front, the patient's right side is on the viewer's left; from the back, it is on the right.
+ */
+export const DEFAULT_TEMPLATE = {
+  templateId: "standard",
+  name: "Standard body outline",
+  views: [
+    {
+      view: "front",
+      imageUrl: "templates/standard/front.svg",
+      width: WIDTH,
+      height: HEIGHT,
+      regions: [
+        { name: "head", polygon: HEAD },
+        { name: "neck", polygon: NECK },
+        { name: "chest", polygon: UPPER_TORSO },
+        { name: "abdomen", polygon: LOWER_TORSO },
+        { name: "pelvis", polygon: PELVIS },
+        ...limbRegions("right", true, "shin"),
+        ...limbRegions("left", false, "shin"),
+      ],
+    },
+    {
+      view: "back",
+      imageUrl: "templates/standard/back.svg",
+      width: WIDTH,
+      height: HEIGHT,
+      regions: [
+        { name: "head", polygon: HEAD },
+        { name: "neck", polygon: NECK },
+        { name: "upper back", polygon: UPPER_TORSO },
+        { name: "lower back", polygon: LOWER_TORSO },
+        { name: "buttocks", polygon: PELVIS },
+        ...limbRegions("left", true, "calf"),
+        ...limbRegions("right", false, "calf"),
+      ],
+    },
+  ] as TemplateView[],
+};
@@ -0,0 +1,251 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+import { Db, MongoClient } from "npm:mongodb";
+import { testDb } from "@utils/database.ts";
+import CareTeamConcept from "./CareTeamConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("CareTeam", async (test) => {
+  let client: MongoClient | null = null;
+  let db: Db;
+
+  await test.step("Principle: CareTeam Lifecycle", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new CareTeamConcept(db);
+
+      const patient = "patient_principle" as ID;
+      const clinician = "clinician_principle" as ID;
+
+      // 1. The clinician registers as one
+      const registerResult = await concept.registerClinician({
+        user: clinician,
+      });
+      assert(!("error" in registerResult));
+
+      // 2. Before consent, the clinician's read is refused and logged
+      const deniedResult = await concept.authorizeAccess({
+        clinician,
+        patient,
+        resource: "savedMaps",
+      });
+      assert("error" in deniedResult, "Reads without a grant should fail");
+
+      // 3. The patient grants access
+      const grantResult = await concept.grantAccess({
+        patient,
+        clinician,
+        expiresAt: null,
+      });
+      assert("grant" in grantResult);
+
+      const careTeam = await concept._getCareTeam({ patient });
+      assertEquals(careTeam[0].grants.length, 1);
+      assertEquals(careTeam[0].grants[0].clinician, clinician);
+      const patients = await concept._getPatients({ clinician });
+      assertEquals(patients[0].grants.map((g) => g.patient), [patient]);
+
+      // 4. The clinician can now read, and the read is logged
+      const allowedResult = await concept.authorizeAccess({
+        clinician,
+        patient,
+        resource: "savedMaps",
+      });
+      assert("grant" in allowedResult);
+      assertEquals(allowedResult.grant, grantResult.grant);
+
+      // 5. The patient revokes access and further reads are refused
+      const revokeResult = await concept.revokeAccess({ patient, clinician });
+      assert(!("error" in revokeResult));
+      const afterRevoke = await concept.authorizeAccess({
+        clinician,
+        patient,
+        resource: "savedMaps",
+      });
+      assert("error" in afterRevoke);
+      assertEquals((await concept._getCareTeam({ patient }))[0].grants, []);
+
+      // 6. The patient can review every attempt, allowed or not
+      const log = await concept._getAccessLog({ patient });
+      assertEquals(log[0].entries.length, 3);
+      assertEquals(
+        log[0].entries.filter((entry) => entry.allowed).length,
+        1,
+      );
+      assert(log[0].entries.every((entry) => entry.clinician === clinician));
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step(
+    "Action: grantAccess requires a registered clinician and a future expiry",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new CareTeamConcept(db);
+        const patient = "patient_grant_action" as ID;
+        const clinician = "clinician_grant_action" as ID;
+
+        const unregistered = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: null,
+        });
+        assert(
+          "error" in unregistered,
+          "Access can only be granted to registered clinicians",
+        );
+
+        await concept.registerClinician({ user: clinician });
+        const again = await concept.registerClinician({ user: clinician });
+        assert("error" in again, "Clinicians cannot register twice");
+
+        const self = await concept.grantAccess({
+          patient: clinician,
+          clinician,
+          expiresAt: null,
+        });
+        assert("error" in self, "Clinicians cannot grant access to themselves");
+
+        const past = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: new Date(Date.now() - 1000),
+        });
+        assert("error" in past, "Expiry in the past should be rejected");
+
+        const invalid = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: "not a date",
+        });
+        assert("error" in invalid, "Unparseable expiry should be rejected");
+
+        // Granting again while active renews the existing grant
+        const first = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        });
+        assert("grant" in first);
+        const renewed = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: null,
+        });
+        assert("grant" in renewed);
+        assertEquals(renewed.grant, first.grant);
+        const careTeam = await concept._getCareTeam({ patient });
+        assertEquals(careTeam[0].grants.length, 1);
+        assertEquals(careTeam[0].grants[0].expiresAt, null);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: time-limited grants stop allowing access once expired",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new CareTeamConcept(db);
+        const patient = "patient_expiry_action" as ID;
+        const clinician = "clinician_expiry_action" as ID;
+
+        await concept.registerClinician({ user: clinician });
+        const grantResult = await concept.grantAccess({
+          patient,
+          clinician,
+          expiresAt: new Date(Date.now() + 60_000),
+        });
+        assert("grant" in grantResult);
+
+        // Simulate the expiry passing
+        await concept.grants.updateOne(
+          { _id: grantResult.grant },
+          { $set: { expiresAt: new Date(Date.now() - 1000) } },
+        );
+
+        const result = await concept.authorizeAccess({
+          clinician,
+          patient,
+          resource: "summariesPDF",
+        });
+        assert("error" in result, "Expired grants should not allow access");
+        assertEquals((await concept._getPatients({ clinician }))[0].grants, []);
+
+        const revokeResult = await concept.revokeAccess({ patient, clinician });
+        assert("error" in revokeResult, "Expired grants cannot be revoked");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: eraseUser removes the user's grants, registration and access log",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new CareTeamConcept(db);
+        const patient = "patient_erase_action" as ID;
+        const clinician = "clinician_erase_action" as ID;
+        const otherPatient = "other_patient_erase_action" as ID;
+
+        await concept.registerClinician({ user: clinician });
+        await concept.grantAccess({ patient, clinician, expiresAt: null });
+        await concept.grantAccess({
+          patient: otherPatient,
+          clinician,
+          expiresAt: null,
+        });
+        await concept.authorizeAccess({
+          clinician,
+          patient,
+          resource: "savedMaps",
+        });
+        await concept.authorizeAccess({
+          clinician,
+          patient: otherPatient,
+          resource: "savedMaps",
+        });
+
+        // Erasing a patient removes only their grant and their access log
+        const patientErase = await concept.eraseUser({ user: patient });
+        assert("removed" in patientErase);
+        assertEquals(patientErase.removed, {
+          clinicians: 0,
+          grants: 1,
+          accessLog: 1,
+        });
+        assertEquals(
+          (await concept._getAccessLog({ patient: otherPatient }))[0].entries
+            .length,
+          1,
+        );
+
+        // Erasing the clinician removes their registration and remaining grants,
+        // but leaves other patients' access logs in place
+        const clinicianErase = await concept.eraseUser({ user: clinician });
+        assert("removed" in clinicianErase);
+        assertEquals(clinicianErase.removed, {
+          clinicians: 1,
+          grants: 1,
+          accessLog: 0,
+        });
+        assertEquals(
+          (await concept._getCareTeam({ patient: otherPatient }))[0].grants,
+          [],
+        );
+        assertEquals(
+          (await concept._getAccessLog({ patient: otherPatient }))[0].entries
+            .length,
+          1,
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+});
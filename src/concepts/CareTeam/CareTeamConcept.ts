@@ -0,0 +1,414 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure isolation within the database
+const PREFIX = "CareTeam" + ".";
+
+// Generic type parameter for users, who may be patients, clinicians or both
+type User = ID;
+// Internal ID for Grants
+type Grant = ID;
+
+/**
+ * @interface ClinicianState
+ * Represents a user who has registered as a clinician and can receive access grants.
+ *
+ * clinicians: a set of Clinicians with
+ *   _id: User
+ *   registeredAt: Date
+ */
+interface ClinicianState {
+  _id: User;
+  registeredAt: Date;
+}
+
+/**
+ * @interface GrantState
+ * Represents a patient's consent for a clinician to read their maps and summaries.
+ *
+ * grants: a set of Grants with
+ *   _id: Grant
+ *   patient: User
+ *   clinician: User
+ *   grantedAt: Date
+ *   expiresAt: Date | null (null for a grant that lasts until revoked)
+ *   revokedAt: Date | null
+ */
+interface GrantState {
+  _id: Grant;
+  patient: User;
+  clinician: User;
+  grantedAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/**
+ * @interface AccessLogEntry
+ * Records a clinician's attempt to read a patient's data, whether or not it was allowed.
+ *
+ * accessLog: a set of AccessLogEntries with
+ *   _id: ID
+ *   clinician: User
+ *   patient: User
+ *   resource: String (what was read, e.g. "savedMaps")
+ *   allowed: Boolean
+ *   at: Date
+ */
+interface AccessLogEntry {
+  _id: ID;
+  clinician: User;
+  patient: User;
+  resource: string;
+  allowed: boolean;
+  at: Date;
+}
+
+/**
+ * @concept CareTeam
+ * @purpose let patients share their body maps and summaries with the clinicians treating them,
+ *          on the patient's terms.
+ * @principle a clinician registers as one; a patient grants a clinician read access, optionally until a set time,
+ *            and can revoke it at any point. While the grant is active the clinician may read the patient's
+ *            maps and summaries, and every read is logged for the patient to review.
+ */
+export default class CareTeamConcept {
+  // MongoDB collections for the concept's state
+  clinicians: Collection<ClinicianState>;
+  grants: Collection<GrantState>;
+  accessLog: Collection<AccessLogEntry>;
+
+  constructor(private readonly db: Db) {
+    this.clinicians = this.db.collection(PREFIX + "clinicians");
+    this.grants = this.db.collection(PREFIX + "grants");
+    this.accessLog = this.db.collection(PREFIX + "accessLog");
+  }
+
+  /**
+   * Helper method to find the active grant between a patient and a clinician.
+   * A grant is active if it has not been revoked and has not reached its expiry.
+   * @param patient The ID of the patient.
+   * @param clinician The ID of the clinician.
+   * @param now The time to check against.
+   * @returns The GrantState document if active, otherwise null.
+   */
+  private async findActiveGrant(
+    patient: User,
+    clinician: User,
+    now: Date,
+  ): Promise<GrantState | null> {
+    return await this.grants.findOne({
+      patient,
+      clinician,
+      revokedAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    });
+  }
+
+  /**
+   * registerClinician(user: User): Empty
+   *
+   * requires: the user is not already registered as a clinician
+   * effects: registers the user as a clinician, so patients can grant them access.
+   *          Registering grants no access by itself; that always requires a patient's consent.
+   */
+  async registerClinician(
+    { user }: { user: User },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const existing = await this.clinicians.findOne({ _id: user });
+      if (existing) {
+        return { error: `User ${user} is already registered as a clinician.` };
+      }
+
+      await this.clinicians.insertOne({ _id: user, registeredAt: new Date() });
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error registering clinician ${user}:`, e);
+        return { error: `Failed to register clinician: ${e.message}` };
+      } else {
+        console.error(`Unknown error registering clinician ${user}:`, e);
+        return {
+          error: "Failed to register clinician due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * grantAccess(patient: User, clinician: User, expiresAt: Date | null): (grant: Grant)
+   *
+   * requires: clinician is a registered clinician other than the patient, and expiresAt is null or in the future
+   * effects: gives the clinician read access to the patient's maps and summaries until expiresAt,
+   *          or until revoked if expiresAt is null. If the clinician already holds an active grant
+   *          from the patient, its expiry is replaced instead of creating a second grant.
+   */
+  async grantAccess(
+    { patient, clinician, expiresAt }: {
+      patient: User;
+      clinician: User;
+      expiresAt: Date | string | null;
+    },
+  ): Promise<{ grant: Grant } | { error: string }> {
+    try {
+      const now = new Date();
+
+      // Precondition checks
+      if (patient === clinician) {
+        return { error: "Patients cannot grant access to themselves." };
+      }
+      const clinicianState = await this.clinicians.findOne({ _id: clinician });
+      if (!clinicianState) {
+        return { error: `User ${clinician} is not a registered clinician.` };
+      }
+      // Request bodies carry dates as strings
+      const expiry = expiresAt === null ? null : new Date(expiresAt);
+      if (expiry && isNaN(expiry.getTime())) {
+        return { error: `Invalid expiry date: ${expiresAt}` };
+      }
+      if (expiry && expiry <= now) {
+        return { error: "Access expiry must be in the future." };
+      }
+
+      const existing = await this.findActiveGrant(patient, clinician, now);
+      if (existing) {
+        await this.grants.updateOne(
+          { _id: existing._id },
+          { $set: { expiresAt: expiry } },
+        );
+        return { grant: existing._id };
+      }
+
+      const newGrantId = freshID() as Grant;
+      await this.grants.insertOne({
+        _id: newGrantId,
+        patient,
+        clinician,
+        grantedAt: now,
+        expiresAt: expiry,
+        revokedAt: null,
+      });
+      return { grant: newGrantId };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(
+          `Error granting ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: `Failed to grant access: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error granting ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: "Failed to grant access due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * revokeAccess(patient: User, clinician: User): Empty
+   *
+   * requires: the clinician holds an active grant from the patient
+   * effects: ends the grant immediately; the clinician can no longer read the patient's data
+   */
+  async revokeAccess(
+    { patient, clinician }: { patient: User; clinician: User },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const now = new Date();
+      const existing = await this.findActiveGrant(patient, clinician, now);
+      if (!existing) {
+        return {
+          error:
+            `Clinician ${clinician} does not have access to patient ${patient}.`,
+        };
+      }
+
+      await this.grants.updateOne(
+        { _id: existing._id },
+        { $set: { revokedAt: now } },
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(
+          `Error revoking ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: `Failed to revoke access: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error revoking ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: "Failed to revoke access due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * authorizeAccess(clinician: User, patient: User, resource: String): (grant: Grant)
+   *
+   * requires: the clinician holds an active grant from the patient
+   * effects: records the attempt in the access log, whether or not it is allowed,
+   *          and returns the grant that allows it
+   */
+  async authorizeAccess(
+    { clinician, patient, resource }: {
+      clinician: User;
+      patient: User;
+      resource: string;
+    },
+  ): Promise<{ grant: Grant } | { error: string }> {
+    try {
+      const now = new Date();
+      const existing = await this.findActiveGrant(patient, clinician, now);
+
+      await this.accessLog.insertOne({
+        _id: freshID(),
+        clinician,
+        patient,
+        resource,
+        allowed: existing !== null,
+        at: now,
+      });
+
+      if (!existing) {
+        return {
+          error:
+            `Clinician ${clinician} does not have access to patient ${patient}.`,
+        };
+      }
+      return { grant: existing._id };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(
+          `Error authorizing ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: `Failed to authorize access: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error authorizing ${clinician} access to patient ${patient}:`,
+          e,
+        );
+        return { error: "Failed to authorize access due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * eraseUser(user: User): (removed: { clinicians: Number, grants: Number, accessLog: Number })
+   *
+   * requires: true
+   * effects: permanently deletes the user's clinician registration, every grant they gave or received,
+   *          and the access log of their own data, and returns how many records were removed.
+   *          Intended to be called by a synchronization when an account is deleted.
+   */
+  async eraseUser(
+    { user }: { user: User },
+  ): Promise<
+    | { removed: { clinicians: number; grants: number; accessLog: number } }
+    | { error: string }
+  > {
+    try {
+      const cliniciansResult = await this.clinicians.deleteOne({ _id: user });
+      const grantsResult = await this.grants.deleteMany({
+        $or: [{ patient: user }, { clinician: user }],
+      });
+      const accessLogResult = await this.accessLog.deleteMany({
+        patient: user,
+      });
+      return {
+        removed: {
+          clinicians: cliniciansResult.deletedCount,
+          grants: grantsResult.deletedCount,
+          accessLog: accessLogResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing care team data for user ${user}:`, e);
+        return { error: `Failed to erase care team data: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error erasing care team data for user ${user}:`,
+          e,
+        );
+        return {
+          error: "Failed to erase care team data due to an unknown error",
+        };
+      }
+    }
+  }
+
+  // --- Query methods ---
+  // These return arrays to be compatible with frames.query(), and an empty array
+  // on error (which will cause frames to be filtered out).
+
+  /**
+   * _getCareTeam(patient: User): (grants: GrantState[])[]
+   *
+   * effects: Returns the patient's active grants, i.e. the clinicians who can currently read their data.
+   */
+  async _getCareTeam(
+    { patient }: { patient: User },
+  ): Promise<Array<{ grants: GrantState[] }>> {
+    try {
+      const now = new Date();
+      const grants = await this.grants.find({
+        patient,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+      }).toArray();
+      return [{ grants }];
+    } catch (e) {
+      console.error(`Error fetching care team for patient ${patient}:`, e);
+      return [];
+    }
+  }
+
+  /**
+   * _getPatients(clinician: User): (grants: GrantState[])[]
+   *
+   * effects: Returns the active grants the clinician holds, i.e. the patients whose data they can currently read.
+   */
+  async _getPatients(
+    { clinician }: { clinician: User },
+  ): Promise<Array<{ grants: GrantState[] }>> {
+    try {
+      const now = new Date();
+      const grants = await this.grants.find({
+        clinician,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+      }).toArray();
+      return [{ grants }];
+    } catch (e) {
+      console.error(`Error fetching patients for clinician ${clinician}:`, e);
+      return [];
+    }
+  }
+
+  /**
+   * _getAccessLog(patient: User): (entries: AccessLogEntry[])[]
+   *
+   * effects: Returns every recorded attempt by a clinician to read the patient's data, most recent first.
+   */
+  async _getAccessLog(
+    { patient }: { patient: User },
+  ): Promise<Array<{ entries: AccessLogEntry[] }>> {
+    try {
+      const entries = await this.accessLog.find({ patient })
+        .sort({ at: -1 })
+        .toArray();
+      return [{ entries }];
+    } catch (e) {
+      console.error(`Error fetching access log for patient ${patient}:`, e);
+      return [];
+    }
+  }
+}
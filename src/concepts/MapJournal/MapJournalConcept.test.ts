@@ -0,0 +1,258 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+import { Db, MongoClient } from "npm:mongodb";
+import { testDb } from "@utils/database.ts";
+import MapJournalConcept, { DEFAULT_TAGS } from "./MapJournalConcept.ts";
+import BodyMapGenerationConcept from "../BodyMapGeneration/BodyMapGenerationConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("MapJournal", async (test) => {
+  let client: MongoClient | null = null;
+  let db: Db;
+
+  await test.step("Principle: MapJournal Lifecycle", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new MapJournalConcept(db);
+      const bodyMaps = new BodyMapGenerationConcept(db);
+
+      const user = "user_journal_principle" as ID;
+      const generateResult = await bodyMaps.generateMap({ user });
+      assert("mapId" in generateResult);
+      const map = generateResult.mapId;
+
+      // 1. The user adds a tag of their own to the default vocabulary
+      const tagResult = await concept.addTag({ user, tag: "  Yoga  Class " });
+      assert(
+        "tag" in tagResult,
+        `Error adding tag: ${JSON.stringify(tagResult)}`,
+      );
+      assertEquals(tagResult.tag, "yoga class");
+      const tags = await concept._getTags({ user });
+      assertEquals(tags[0].tags, [...DEFAULT_TAGS, "yoga class"]);
+
+      // 2. They write an entry for today's map with a note and tags
+      const addResult = await concept.addEntry({
+        user,
+        map,
+        note: "Spent the afternoon weeding.",
+        tags: ["Gardening", "yoga class", "gardening"],
+      });
+      assert(
+        !("error" in addResult),
+        `Error adding entry: ${JSON.stringify(addResult)}`,
+      );
+      let entry = await concept._getEntry({ user, map });
+      assertEquals(entry[0].entry?.note, "Spent the afternoon weeding.");
+      assertEquals(entry[0].entry?.tags, ["gardening", "yoga class"]);
+
+      // 3. They edit it later
+      const editResult = await concept.editEntry({
+        user,
+        map,
+        note: "Weeding, then slept badly.",
+        tags: ["gardening", "poor sleep"],
+      });
+      assert(!("error" in editResult));
+      entry = await concept._getEntry({ user, map });
+      assertEquals(entry[0].entry?.tags, ["gardening", "poor sleep"]);
+
+      // 4. The entry is found for the maps in their history
+      await bodyMaps.saveMap({ user });
+      const saved = await bodyMaps._getSavedMaps({ user });
+      assert("maps" in saved);
+      const [found] = await concept._getEntries({
+        user,
+        maps: saved.maps.map((m) => m._id),
+      });
+      assertEquals(found.entries.map((e) => [e._id, e.note, e.tags]), [
+        [map, "Weeding, then slept badly.", ["gardening", "poor sleep"]],
+      ]);
+      const [othersView] = await concept._getEntries({
+        user: "user_journal_principle_other" as ID,
+        maps: [map],
+      });
+      assertEquals(othersView.entries, []);
+
+      // 5. They remove it
+      const removeResult = await concept.removeEntry({ user, map });
+      assert(!("error" in removeResult));
+      entry = await concept._getEntry({ user, map });
+      assertEquals(entry[0].entry, null);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Entries are limited to the owner's maps and known tags", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new MapJournalConcept(db);
+      const bodyMaps = new BodyMapGenerationConcept(db);
+
+      const owner = "user_journal_owner" as ID;
+      const other = "user_journal_other" as ID;
+      const generateResult = await bodyMaps.generateMap({ user: owner });
+      assert("mapId" in generateResult);
+      const map = generateResult.mapId;
+
+      // The sync only adds entries on maps BodyMapGeneration knows as the user's
+      assertEquals(await bodyMaps._getMap({ user: other, map }), { map: null });
+      const owned = await bodyMaps._getMap({ user: owner, map });
+      assert("map" in owned);
+      assertEquals(owned.map?._id, map);
+
+      const unknownTag = await concept.addEntry({
+        user: owner,
+        map,
+        note: "",
+        tags: ["skydiving"],
+      });
+      assert("error" in unknownTag, "Tags must be in the user's vocabulary");
+
+      const tooLong = await concept.addEntry({
+        user: owner,
+        map,
+        note: "x".repeat(2001),
+        tags: [],
+      });
+      assert("error" in tooLong);
+
+      const first = await concept.addEntry({
+        user: owner,
+        map,
+        note: "",
+        tags: ["stress"],
+      });
+      assert(!("error" in first));
+      const second = await concept.addEntry({
+        user: owner,
+        map,
+        note: "Again",
+        tags: [],
+      });
+      assert("error" in second, "Each map has at most one entry");
+
+      // Another user's custom tags are not available to the owner
+      await concept.addTag({ user: other, tag: "skydiving" });
+      const editResult = await concept.editEntry({
+        user: owner,
+        map,
+        note: "",
+        tags: ["skydiving"],
+      });
+      assert("error" in editResult);
+      const othersEdit = await concept.editEntry({
+        user: other,
+        map,
+        note: "",
+        tags: [],
+      });
+      assert("error" in othersEdit, "Users cannot edit others' entries");
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: Removing a tag keeps it on existing entries", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new MapJournalConcept(db);
+      const bodyMaps = new BodyMapGenerationConcept(db);
+
+      const user = "user_journal_tags" as ID;
+      const generateResult = await bodyMaps.generateMap({ user });
+      assert("mapId" in generateResult);
+      const map = generateResult.mapId;
+
+      assert("error" in await concept.addTag({ user, tag: "Stress" }));
+      assert("error" in await concept.addTag({ user, tag: "   " }));
+      assert("tag" in await concept.addTag({ user, tag: "choir" }));
+      assert("error" in await concept.addTag({ user, tag: "CHOIR" }));
+
+      await concept.addEntry({ user, map, note: "", tags: ["choir"] });
+      const removeResult = await concept.removeTag({ user, tag: "Choir" });
+      assert(!("error" in removeResult));
+      assertEquals((await concept._getTags({ user }))[0].tags, DEFAULT_TAGS);
+      const entry = await concept._getEntry({ user, map });
+      assertEquals(entry[0].entry?.tags, ["choir"]);
+
+      const missing = await concept.removeTag({ user, tag: "choir" });
+      assert("error" in missing);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: eraseUser removes the user's entries and tags", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new MapJournalConcept(db);
+      const bodyMaps = new BodyMapGenerationConcept(db);
+
+      const user = "user_journal_erase" as ID;
+      const generateResult = await bodyMaps.generateMap({ user });
+      assert("mapId" in generateResult);
+      await concept.addTag({ user, tag: "choir" });
+      await concept.addEntry({
+        user,
+        map: generateResult.mapId,
+        note: "Sang for two hours",
+        tags: ["choir"],
+      });
+
+      const eraseResult = await concept.eraseUser({ user });
+      assert("removed" in eraseResult);
+      assertEquals(eraseResult.removed, { entries: 1, customTags: 1 });
+      assertEquals(
+        (await concept._getEntry({ user, map: generateResult.mapId }))[0].entry,
+        null,
+      );
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step("Action: removeMapEntries removes only the given maps' entries", async () => {
+    try {
+      [db, client] = await testDb();
+      const concept = new MapJournalConcept(db);
+      const bodyMaps = new BodyMapGenerationConcept(db);
+
+      const first = "user_journal_purge_a" as ID;
+      const second = "user_journal_purge_b" as ID;
+      const firstMap = await bodyMaps.generateMap({ user: first });
+      const secondMap = await bodyMaps.generateMap({ user: second });
+      assert("mapId" in firstMap && "mapId" in secondMap);
+      await concept.addEntry({
+        user: first,
+        map: firstMap.mapId,
+        note: "A",
+        tags: [],
+      });
+      await concept.addEntry({
+        user: second,
+        map: secondMap.mapId,
+        note: "B",
+        tags: [],
+      });
+
+      const removeResult = await concept.removeMapEntries({
+        maps: [firstMap.mapId],
+      });
+      assert("removed" in removeResult);
+      assertEquals(removeResult.removed, 1);
+      assertEquals(
+        (await concept._getEntry({ user: first, map: firstMap.mapId }))[0]
+          .entry,
+        null,
+      );
+      assertEquals(
+        (await concept._getEntry({ user: second, map: secondMap.mapId }))[0]
+          .entry?.note,
+        "B",
+      );
+    } finally {
+      await client?.close();
+    }
+  });
+});
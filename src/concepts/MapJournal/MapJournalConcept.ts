@@ -0,0 +1,455 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure isolation within the database
+const PREFIX = "MapJournal" + ".";
+
+// Generic type parameters for users and the body maps they write about
+type User = ID;
+type Map = ID;
+
+// Limits that keep entries readable on the archive screen
+const NOTE_MAX_LENGTH = 2000;
+const TAG_MAX_LENGTH = 40;
+const TAGS_PER_ENTRY = 20;
+
+/**
+ * Tags every user can choose from; users add their own alongside these.
+ */
+export const DEFAULT_TAGS = [
+  "poor sleep",
+  "stress",
+  "exercise",
+  "gardening",
+  "housework",
+  "long commute",
+  "travel",
+  "weather change",
+  "illness",
+  "new medication",
+  "missed medication",
+  "period",
+];
+
+/**
+ * Normalizes a tag so that differently typed versions of it compare equal:
+ * trimmed, inner whitespace collapsed to single spaces, and lower case.
+ */
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * @interface EntryState
+ * A user's journal entry for one of their body maps.
+ *
+ * entries: a set of Entries with
+ *   _id: Map (one entry per map)
+ *   owner: User
+ *   note: String (free text; may be empty)
+ *   tags: String[] (each from the default tags or the owner's own)
+ *   createdAt: Date
+ *   updatedAt: Date
+ */
+interface EntryState {
+  _id: Map;
+  owner: User;
+  note: string;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * @interface CustomTagState
+ * A tag a user has added to their own vocabulary.
+ *
+ * customTags: a set of CustomTags with
+ *   _id: ID
+ *   owner: User
+ *   tag: String (normalized)
+ *   createdAt: Date
+ */
+interface CustomTagState {
+  _id: ID;
+  owner: User;
+  tag: string;
+  createdAt: Date;
+}
+
+/**
+ * @concept MapJournal
+ * @purpose let users record the context of a day, such as what they did and how they slept, next to its body map,
+ *          so they can later connect changes in their pain to what was going on.
+ * @principle a user writes an entry for one of their maps with a free-text note and tags chosen from a shared
+ *            vocabulary, which they can extend with tags of their own. The entry stays with the map: they can
+ *            edit or remove it at any time, and it is shown alongside the map in their history.
+ */
+export default class MapJournalConcept {
+  // MongoDB collections for the concept's state
+  entries: Collection<EntryState>;
+  customTags: Collection<CustomTagState>;
+
+  constructor(private readonly db: Db) {
+    this.entries = this.db.collection(PREFIX + "entries");
+    this.customTags = this.db.collection(PREFIX + "customTags");
+
+    this.customTags.createIndex({ owner: 1, tag: 1 }, { unique: true })
+      .catch((e) => {
+        console.error("Error creating custom tag index:", e);
+      });
+  }
+
+  /**
+   * Helper method to validate a note and a set of tags against the user's vocabulary.
+   * @param user The ID of the user.
+   * @param note The note to check.
+   * @param tags The tags to check, in any form the user typed them.
+   * @returns The normalized, de-duplicated tags, or an error describing the first problem found.
+   */
+  private async checkEntry(
+    user: User,
+    note: string,
+    tags: string[],
+  ): Promise<{ tags: string[] } | { error: string }> {
+    if (typeof note !== "string" || note.length > NOTE_MAX_LENGTH) {
+      return {
+        error: `A note must be text of at most ${NOTE_MAX_LENGTH} characters.`,
+      };
+    }
+    if (!Array.isArray(tags)) {
+      return { error: "Tags must be a list." };
+    }
+    const normalized = [...new Set(tags.map((tag) => normalizeTag(tag)))];
+    if (normalized.length > TAGS_PER_ENTRY) {
+      return { error: `An entry can have at most ${TAGS_PER_ENTRY} tags.` };
+    }
+
+    const custom = await this.customTags.find({
+      owner: user,
+      tag: { $in: normalized },
+    }).toArray();
+    const known = new Set([...DEFAULT_TAGS, ...custom.map((c) => c.tag)]);
+    const unknown = normalized.find((tag) => !known.has(tag));
+    if (unknown !== undefined) {
+      return {
+        error: `Unknown tag '${unknown}'. Add it to your tags before using it.`,
+      };
+    }
+    return { tags: normalized };
+  }
+
+  /**
+   * addEntry(user: User, map: Map, note: String, tags: String[]): Empty
+   *
+   * requires: the map exists and belongs to the user and has no entry yet; the note is at most 2000 characters;
+   *           there are at most 20 tags, each a default tag or one the user has added
+   * effects: creates the map's entry with the note and tags
+   *
+   * Note: Maps and their owners are kept by BodyMapGeneration, so the synchronization that calls this
+   * checks the map belongs to the user first. Entries are keyed by map, so a map holds only its owner's entry.
+   */
+  async addEntry(
+    { user, map, note, tags }: {
+      user: User;
+      map: Map;
+      note: string;
+      tags: string[];
+    },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const checked = await this.checkEntry(user, note, tags);
+      if ("error" in checked) {
+        return checked;
+      }
+      const existing = await this.entries.findOne({ _id: map });
+      if (existing) {
+        return { error: `Map ${map} already has a journal entry.` };
+      }
+
+      const now = new Date();
+      await this.entries.insertOne({
+        _id: map,
+        owner: user,
+        note,
+        tags: checked.tags,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error adding journal entry for map ${map}:`, e);
+        return { error: `Failed to add journal entry: ${e.message}` };
+      } else {
+        console.error(`Unknown error adding journal entry for map ${map}:`, e);
+        return { error: "Failed to add journal entry due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * editEntry(user: User, map: Map, note: String, tags: String[]): Empty
+   *
+   * requires: the user has an entry for the map; the note and tags meet the same rules as for addEntry
+   * effects: replaces the entry's note and tags
+   */
+  async editEntry(
+    { user, map, note, tags }: {
+      user: User;
+      map: Map;
+      note: string;
+      tags: string[];
+    },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const checked = await this.checkEntry(user, note, tags);
+      if ("error" in checked) {
+        return checked;
+      }
+      const result = await this.entries.updateOne(
+        { _id: map, owner: user },
+        { $set: { note, tags: checked.tags, updatedAt: new Date() } },
+      );
+      if (result.matchedCount === 0) {
+        return { error: `No journal entry for map ${map} and user ${user}.` };
+      }
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error editing journal entry for map ${map}:`, e);
+        return { error: `Failed to edit journal entry: ${e.message}` };
+      } else {
+        console.error(`Unknown error editing journal entry for map ${map}:`, e);
+        return {
+          error: "Failed to edit journal entry due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * removeEntry(user: User, map: Map): Empty
+   *
+   * requires: the user has an entry for the map
+   * effects: deletes the entry
+   */
+  async removeEntry(
+    { user, map }: { user: User; map: Map },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const result = await this.entries.deleteOne({ _id: map, owner: user });
+      if (result.deletedCount === 0) {
+        return { error: `No journal entry for map ${map} and user ${user}.` };
+      }
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error removing journal entry for map ${map}:`, e);
+        return { error: `Failed to remove journal entry: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error removing journal entry for map ${map}:`,
+          e,
+        );
+        return {
+          error: "Failed to remove journal entry due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * addTag(user: User, tag: String): (tag: String)
+   *
+   * requires: the tag is not empty, at most 40 characters, and not already a default tag or one of the user's own
+   * effects: adds the normalized tag to the user's vocabulary and returns it
+   */
+  async addTag(
+    { user, tag }: { user: User; tag: string },
+  ): Promise<{ tag: string } | { error: string }> {
+    try {
+      const normalized = normalizeTag(String(tag ?? ""));
+      if (normalized === "" || normalized.length > TAG_MAX_LENGTH) {
+        return {
+          error: `A tag must be between 1 and ${TAG_MAX_LENGTH} characters.`,
+        };
+      }
+      if (DEFAULT_TAGS.includes(normalized)) {
+        return { error: `'${normalized}' is already one of the default tags.` };
+      }
+      const existing = await this.customTags.findOne({
+        owner: user,
+        tag: normalized,
+      });
+      if (existing) {
+        return { error: `You already have the tag '${normalized}'.` };
+      }
+
+      await this.customTags.insertOne({
+        _id: freshID(),
+        owner: user,
+        tag: normalized,
+        createdAt: new Date(),
+      });
+      return { tag: normalized };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error adding tag for user ${user}:`, e);
+        return { error: `Failed to add tag: ${e.message}` };
+      } else {
+        console.error(`Unknown error adding tag for user ${user}:`, e);
+        return { error: "Failed to add tag due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * removeTag(user: User, tag: String): Empty
+   *
+   * requires: the tag is one of the user's own
+   * effects: removes the tag from the user's vocabulary so it can no longer be added to entries.
+   *          Entries that already carry it keep it, so past context is not lost.
+   */
+  async removeTag(
+    { user, tag }: { user: User; tag: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const result = await this.customTags.deleteOne({
+        owner: user,
+        tag: normalizeTag(String(tag ?? "")),
+      });
+      if (result.deletedCount === 0) {
+        return { error: `You have no tag '${tag}'.` };
+      }
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error removing tag for user ${user}:`, e);
+        return { error: `Failed to remove tag: ${e.message}` };
+      } else {
+        console.error(`Unknown error removing tag for user ${user}:`, e);
+        return { error: "Failed to remove tag due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * eraseUser(user: User): (removed: { entries: Number, customTags: Number })
+   *
+   * requires: true
+   * effects: permanently deletes every entry and custom tag the user owns, and returns how many were removed.
+   *          Intended to be called by a synchronization when an account is deleted.
+   */
+  async eraseUser(
+    { user }: { user: User },
+  ): Promise<
+    { removed: { entries: number; customTags: number } } | { error: string }
+  > {
+    try {
+      const entriesResult = await this.entries.deleteMany({ owner: user });
+      const customTagsResult = await this.customTags.deleteMany({
+        owner: user,
+      });
+      return {
+        removed: {
+          entries: entriesResult.deletedCount,
+          customTags: customTagsResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing journal for user ${user}:`, e);
+        return { error: `Failed to erase journal: ${e.message}` };
+      } else {
+        console.error(`Unknown error erasing journal for user ${user}:`, e);
+        return { error: "Failed to erase journal due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * removeMapEntries(maps: Map[]): (removed: Number)
+   *
+   * requires: true
+   * effects: permanently deletes the entries for the given maps, whoever owns them, and returns how many were removed.
+   *          Intended to be called by a synchronization when maps are permanently deleted.
+   */
+  async removeMapEntries(
+    { maps }: { maps: Map[] },
+  ): Promise<{ removed: number } | { error: string }> {
+    try {
+      const result = await this.entries.deleteMany({ _id: { $in: maps } });
+      return { removed: result.deletedCount };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error("Error removing journal entries for maps:", e);
+        return { error: `Failed to remove entries: ${e.message}` };
+      } else {
+        console.error("Unknown error removing journal entries for maps:", e);
+        return { error: "Failed to remove entries due to an unknown error" };
+      }
+    }
+  }
+
+  // --- Query methods ---
+  // These return arrays to be compatible with frames.query(), and an empty array
+  // on error (which will cause frames to be filtered out).
+
+  /**
+   * _getEntry(user: User, map: Map): (entry: EntryState | null)[]
+   *
+   * effects: Returns the user's entry for the map, or null if they have not written one.
+   */
+  async _getEntry(
+    { user, map }: { user: User; map: Map },
+  ): Promise<Array<{ entry: EntryState | null }>> {
+    try {
+      const entry = await this.entries.findOne({ _id: map, owner: user });
+      return [{ entry }];
+    } catch (e) {
+      console.error(`Error fetching journal entry for map ${map}:`, e);
+      return [];
+    }
+  }
+
+  /**
+   * _getEntries(user: User, maps: Map[]): (entries: EntryState[])[]
+   *
+   * effects: Returns the user's entries for any of the given maps; maps without one are left out.
+   */
+  async _getEntries(
+    { user, maps }: { user: User; maps: Map[] },
+  ): Promise<Array<{ entries: EntryState[] }>> {
+    try {
+      const entries = await this.entries.find({
+        _id: { $in: maps ?? [] },
+        owner: user,
+      }).toArray();
+      return [{ entries }];
+    } catch (e) {
+      console.error(`Error fetching journal entries for user ${user}:`, e);
+      return [];
+    }
+  }
+
+  /**
+   * _getTags(user: User): (tags: String[])[]
+   *
+   * effects: Returns the tags the user can choose from: the default tags followed by their own, oldest first.
+   */
+  async _getTags(
+    { user }: { user: User },
+  ): Promise<Array<{ tags: string[] }>> {
+    try {
+      const custom = await this.customTags.find({ owner: user })
+        .sort({ createdAt: 1 })
+        .toArray();
+      return [{ tags: [...DEFAULT_TAGS, ...custom.map((c) => c.tag)] }];
+    } catch (e) {
+      console.error(`Error fetching tags for user ${user}:`, e);
+      return [];
+    }
+  }
+}
@@ -29,6 +29,14 @@ Deno.test("MapSummaryGeneration", async (test) => {
       const map1Result = await bodyMapConcept.generateMap({ user: testUser });
       assert("mapId" in map1Result);
       const map1Id = map1Result.mapId;
+      // Date it yesterday, since a user has one map per day
+      const yesterday = new Date();
+      yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+      yesterday.setUTCHours(0, 0, 0, 0);
+      await db.collection("BodyMapGeneration.maps").updateOne(
+        { _id: map1Id },
+        { $set: { creationDate: yesterday } },
+      );
 
       // Register map in PainLocationScoring
       const bodyMapCollection = db.collection("PainLocationScoring.bodyMaps");
@@ -315,6 +323,14 @@ Deno.test("MapSummaryGeneration", async (test) => {
           assert("mapId" in mapResult);
           const mapId = mapResult.mapId;
           mapIds.push(mapId);
+          // One map per day: date them 3, 2 and 1 days ago
+          const creationDate = new Date();
+          creationDate.setUTCDate(creationDate.getUTCDate() - (3 - i));
+          creationDate.setUTCHours(0, 0, 0, 0);
+          await db.collection("BodyMapGeneration.maps").updateOne(
+            { _id: mapId },
+            { $set: { creationDate } },
+          );
 
           await bodyMapCollection.insertOne({
             _id: mapId as any,
@@ -805,4 +821,375 @@ Deno.test("MapSummaryGeneration", async (test) => {
       }
     },
   );
+
+  await test.step(
+    "Action: eraseUser removes only the user's summaries",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const summaryConcept = new MapSummaryGenerationConcept(db);
+        const erasedUser = "user_erase_action" as ID;
+        const otherUser = "user_keep_action" as ID;
+        const period = {
+          start: new Date("2024-01-01"),
+          end: new Date("2024-01-31"),
+        };
+
+        for (const user of [erasedUser, erasedUser, otherUser]) {
+          const result = await summaryConcept.generateAndStoreSummary({
+            user,
+            period,
+            mapSet: [],
+            regionName: "lower back",
+          });
+          assert("summaryId" in result);
+        }
+
+        const eraseResult = await summaryConcept.eraseUser({ user: erasedUser });
+        assert(
+          "removed" in eraseResult,
+          `Error erasing summaries: ${JSON.stringify(eraseResult)}`,
+        );
+        assertEquals(eraseResult.removed.regionSummaries, 2);
+
+        const erased = await summaryConcept._getUserSummaries({
+          user: erasedUser,
+        });
+        assert("summaries" in erased);
+        assertEquals(erased.summaries.length, 0);
+        const kept = await summaryConcept._getUserSummaries({ user: otherUser });
+        assert("summaries" in kept);
+        assertEquals(kept.summaries.length, 1);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: sumRegion matches spellings of a region and rolls up subregions",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const summaryConcept = new MapSummaryGenerationConcept(db);
+        const bodyMapConcept = new BodyMapGenerationConcept(db);
+        const painLocationConcept = new PainLocationScoringConcept(db);
+
+        const testUser = "testuser_taxonomy_action" as ID;
+        const mapResult = await bodyMapConcept.generateMap({ user: testUser });
+        assert("mapId" in mapResult);
+        const mapId = mapResult.mapId;
+        await painLocationConcept.trackMap({ user: testUser, map: mapId });
+
+        // The same knee written three ways, plus other parts of the left leg
+        for (const regionName of ["Left Knee", "L knee", "left-knee"]) {
+          await painLocationConcept.addRegion({
+            user: testUser,
+            map: mapId,
+            regionName,
+          });
+        }
+        for (const regionName of ["left shin", "left foot", "right knee"]) {
+          await painLocationConcept.addRegion({
+            user: testUser,
+            map: mapId,
+            regionName,
+          });
+        }
+        // A region stored before the taxonomy, with a name but no code
+        await db
+          .collection<{ _id: ID; mapId: ID; name: string }>(
+            "PainLocationScoring.regions",
+          )
+          .insertOne({ _id: "legacy_region" as ID, mapId, name: "left knee" });
+
+        const mapDoc = await db
+          .collection("BodyMapGeneration.maps")
+          .findOne({ _id: mapId });
+        assertExists(mapDoc);
+        const period = { start: mapDoc.creationDate, end: new Date() };
+
+        const knee = await summaryConcept.sumRegion({
+          period,
+          mapSet: [mapId] as ID[],
+          regionName: "Left Knee",
+        });
+        assert(!("error" in knee));
+        assertEquals(knee.frequency, 4, "Every spelling should be counted");
+
+        const leg = await summaryConcept.sumRegion({
+          period,
+          mapSet: [mapId] as ID[],
+          regionName: "left leg",
+          includeSubregions: true,
+        });
+        assert(!("error" in leg));
+        assertEquals(
+          leg.frequency,
+          6,
+          "The knee, shin and foot should roll up into the leg",
+        );
+
+        const legOnly = await summaryConcept.sumRegion({
+          period,
+          mapSet: [mapId] as ID[],
+          regionName: "left leg",
+        });
+        assert(!("error" in legOnly));
+        assertEquals(legOnly.frequency, 0);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: sumRegion leaves out scores carried from an earlier map",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const summaryConcept = new MapSummaryGenerationConcept(db);
+        const bodyMapConcept = new BodyMapGenerationConcept(db);
+        const painLocationConcept = new PainLocationScoringConcept(db);
+
+        const testUser = "testuser_carried_action" as ID;
+        const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+        // Yesterday's map scores the knee at 8
+        const firstMap = await bodyMapConcept.generateMap({ user: testUser });
+        assert("mapId" in firstMap);
+        await bodyMapConcept.maps.updateOne({ _id: firstMap.mapId }, {
+          $set: { creationDate: yesterday },
+        });
+        await painLocationConcept.trackMap({
+          user: testUser,
+          map: firstMap.mapId,
+        });
+        const knee = await painLocationConcept.addRegion({
+          user: testUser,
+          map: firstMap.mapId,
+          regionName: "left knee",
+        });
+        assert("region" in knee);
+        await painLocationConcept.scoreRegion({
+          user: testUser,
+          region: knee.region,
+          score: 8,
+        });
+
+        // Today's map carries the score forward without the user giving it again
+        const secondMap = await bodyMapConcept.generateMap({ user: testUser });
+        assert("mapId" in secondMap);
+        const carried = await painLocationConcept.carryForward({
+          user: testUser,
+          from: firstMap.mapId,
+          to: secondMap.mapId,
+          withScores: true,
+        });
+        assert("regions" in carried);
+
+        const period = { start: yesterday, end: new Date() };
+        const mapSet = [firstMap.mapId, secondMap.mapId];
+        const withCarried = await summaryConcept.sumRegion({
+          period,
+          mapSet,
+          regionName: "left knee",
+        });
+        assert(!("error" in withCarried));
+        assertEquals(
+          withCarried.frequency,
+          1,
+          "A carried score should not count as another occurrence",
+        );
+        assertEquals(withCarried.score, 8);
+
+        // Once scored again on today's map, it counts
+        await painLocationConcept.scoreRegion({
+          user: testUser,
+          region: carried.regions[0],
+          score: 2,
+        });
+        const rescored = await summaryConcept.sumRegion({
+          period,
+          mapSet,
+          regionName: "left knee",
+        });
+        assert(!("error" in rescored));
+        assertEquals(rescored.frequency, 2);
+        assertEquals(rescored.score, 5);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: sumRegion reports the dominant pain descriptors",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const summaryConcept = new MapSummaryGenerationConcept(db);
+        const bodyMapConcept = new BodyMapGenerationConcept(db);
+        const painLocationConcept = new PainLocationScoringConcept(db);
+
+        const testUser = "testuser_descriptors_action" as ID;
+        const mapResult = await bodyMapConcept.generateMap({ user: testUser });
+        assert("mapId" in mapResult);
+        const mapId = mapResult.mapId;
+        await painLocationConcept.trackMap({ user: testUser, map: mapId });
+
+        const descriptions = [
+          {
+            qualities: ["burning", "aching"],
+            onset: "night",
+            pattern: "constant",
+            durationMinutes: 30,
+          },
+          { qualities: ["burning"], onset: "night", durationMinutes: 60 },
+          {
+            qualities: ["aching", "tingling"],
+            onset: "morning",
+            durationMinutes: 90,
+          },
+          { qualities: ["stabbing"], pattern: "intermittent" },
+        ];
+        for (const description of descriptions) {
+          const regionResult = await painLocationConcept.addRegion({
+            user: testUser,
+            map: mapId,
+            regionName: "left hand",
+          });
+          assert("region" in regionResult);
+          await painLocationConcept.scoreRegion({
+            user: testUser,
+            region: regionResult.region,
+            score: 5,
+          });
+          await painLocationConcept.describeRegion({
+            user: testUser,
+            region: regionResult.region,
+            description,
+          });
+        }
+
+        const mapDoc = await db
+          .collection("BodyMapGeneration.maps")
+          .findOne({ _id: mapId });
+        assertExists(mapDoc);
+        const period = { start: mapDoc.creationDate, end: new Date() };
+
+        const sumResult = await summaryConcept.sumRegion({
+          period,
+          mapSet: [mapId] as ID[],
+          regionName: "left hand",
+        });
+        assert(!("error" in sumResult));
+        assertEquals(sumResult.descriptors, {
+          qualities: ["burning", "aching"],
+          onset: "night",
+          pattern: "constant",
+          medianDurationMinutes: 60,
+        });
+
+        const summaryResult = await summaryConcept.summarise({
+          period,
+          regionName: "left hand",
+          score: sumResult.score,
+          frequency: sumResult.frequency,
+          descriptors: sumResult.descriptors,
+        });
+        assert("summary" in summaryResult);
+        assert(
+          summaryResult.summary.includes(
+            "Usually burning and aching, constant, starting at night, lasting about 60 minutes.",
+          ),
+          `Summary should describe the pain: ${summaryResult.summary}`,
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: sumRegion uses the daily peak, mean or latest score",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const summaryConcept = new MapSummaryGenerationConcept(db);
+        const bodyMapConcept = new BodyMapGenerationConcept(db);
+        const painLocationConcept = new PainLocationScoringConcept(db);
+
+        const testUser = "testuser_basis_action" as ID;
+        const regionName = "neck";
+        const mapResult = await bodyMapConcept.generateMap({ user: testUser });
+        assert("mapId" in mapResult);
+        const mapId = mapResult.mapId;
+        await painLocationConcept.trackMap({ user: testUser, map: mapId });
+
+        // A morning 3 that became an evening 8, then settled at 4
+        const regionResult = await painLocationConcept.addRegion({
+          user: testUser,
+          map: mapId,
+          regionName,
+        });
+        assert("region" in regionResult);
+        for (const score of [3, 8, 4]) {
+          await painLocationConcept.scoreRegion({
+            user: testUser,
+            region: regionResult.region,
+            score,
+          });
+        }
+
+        const mapDoc = await db
+          .collection("BodyMapGeneration.maps")
+          .findOne({ _id: mapId });
+        assertExists(mapDoc);
+        const period = { start: mapDoc.creationDate, end: new Date() };
+
+        const expected = { latest: 4, peak: 8, mean: 5 } as const;
+        for (const [scoreBasis, score] of Object.entries(expected)) {
+          const sumResult = await summaryConcept.sumRegion({
+            period,
+            mapSet: [mapId] as ID[],
+            regionName,
+            scoreBasis: scoreBasis as keyof typeof expected,
+          });
+          assert(!("error" in sumResult));
+          assertEquals(sumResult.score, score, `${scoreBasis} score`);
+          assertEquals(sumResult.frequency, 1);
+        }
+
+        const invalid = await summaryConcept.sumRegion({
+          period,
+          mapSet: [mapId] as ID[],
+          regionName,
+          scoreBasis: "median" as "latest",
+        });
+        assert("error" in invalid);
+
+        const stored = await summaryConcept.generateAndStoreSummary({
+          user: testUser,
+          period,
+          mapSet: [mapId] as ID[],
+          regionName,
+          scoreBasis: "peak",
+        });
+        assert("summaryId" in stored);
+        const summary = await summaryConcept._getSummary({
+          summaryId: stored.summaryId,
+        });
+        assert("summary" in summary);
+        assertExists(summary.summary);
+        assertEquals(summary.summary.scoreBasis, "peak");
+        assert(
+          summary.summary.summary.includes("median daily peak score of 8.0"),
+          `Summary should name the basis: ${summary.summary.summary}`,
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
 });
@@ -2,6 +2,17 @@ import { Collection, Db } from "npm:mongodb";
 import { ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
 import PDFDocument from "npm:pdfkit@0.15.0";
+import {
+  REGION_TAXONOMY,
+  regionCodesWithin,
+  resolveRegion,
+} from "../PainLocationScoring/taxonomy.ts";
+import {
+  PAIN_ONSETS,
+  PAIN_PATTERNS,
+  PAIN_QUALITIES,
+  PainDescription,
+} from "../PainLocationScoring/descriptors.ts";
 
 // Collection prefix to ensure isolation within the database
 const PREFIX = "MapSummaryGeneration" + ".";
@@ -11,6 +22,20 @@ type User = ID;
 type Map = ID;
 type Region = ID;
 
+/**
+ * Which of a region's scores for its day the median is taken over: the latest one given,
+ * the day's peak, or the day's mean.
+ */
+export const SCORE_BASES = ["latest", "peak", "mean"] as const;
+export type ScoreBasis = typeof SCORE_BASES[number];
+
+// How each basis is named in summary text, after "median"
+const SCORE_LABELS: Record<ScoreBasis, string> = {
+  latest: "score",
+  peak: "daily peak score",
+  mean: "daily mean score",
+};
+
 /**
  * @interface DateRange
  * Represents a date range with start and end dates.
@@ -20,6 +45,53 @@ interface DateRange {
   end: Date;
 }
 
+/**
+ * @interface DominantDescriptors
+ * The pain descriptions given most often for a region over a period.
+ *
+ *   qualities: String[] (the qualities given most often, tied ones together, in vocabulary order)
+ *   onset: String | null (the most common onset, or null if none was given)
+ *   pattern: String | null (the most common pattern, or null if none was given)
+ *   medianDurationMinutes: Number | null (median of the durations given, or null if none were)
+ */
+interface DominantDescriptors {
+  qualities: string[];
+  onset: string | null;
+  pattern: string | null;
+  medianDurationMinutes: number | null;
+}
+
+/**
+ * Turns dominant descriptors into a phrase such as
+ * "burning and aching, intermittent, starting at night, lasting about 30 minutes".
+ * @returns the phrase, or null if no descriptions were given
+ */
+function describeDescriptors(descriptors: DominantDescriptors): string | null {
+  const parts: string[] = [];
+  if (descriptors.qualities.length > 0) {
+    const qualities = descriptors.qualities;
+    parts.push(
+      qualities.length === 1
+        ? qualities[0]
+        : `${qualities.slice(0, -1).join(", ")} and ${qualities.at(-1)}`,
+    );
+  }
+  if (descriptors.pattern) {
+    parts.push(descriptors.pattern);
+  }
+  if (descriptors.onset) {
+    parts.push(
+      descriptors.onset === "night"
+        ? "starting at night"
+        : `starting in the ${descriptors.onset}`,
+    );
+  }
+  if (descriptors.medianDurationMinutes !== null) {
+    parts.push(`lasting about ${descriptors.medianDurationMinutes} minutes`);
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
 /**
  * @interface RegionSummary
  * Represents summary statistics for a region over a period.
@@ -32,6 +104,8 @@ interface DateRange {
  *   summary: String (generated summary text)
  *   period: DateRange (the period this summary covers)
  *   userId: User (the user this summary is for)
+ *   descriptors?: DominantDescriptors (absent on summaries generated before descriptions were recorded)
+ *   scoreBasis?: ScoreBasis (the daily score the median is taken over; absent means latest)
  */
 interface RegionSummary {
   _id: Region;
@@ -41,6 +115,8 @@ interface RegionSummary {
   summary: string;
   period: DateRange;
   userId: User;
+  descriptors?: DominantDescriptors;
+  scoreBasis?: ScoreBasis;
 }
 
 /**
@@ -59,31 +135,57 @@ export default class MapSummaryGenerationConcept {
   }
 
   /**
-   * sumRegion(period: Range, mapSet: Maps, region: Region): (score: Number, frequency: Number)
+   * sumRegion(period: Range, mapSet: Maps, region: Region, includeSubregions?: Boolean, scoreBasis?: ScoreBasis): (score: Number, frequency: Number, descriptors: DominantDescriptors)
    *
-   * requires: the Region must exist.
+   * requires: the Region must exist, and scoreBasis, if given, is latest, peak or mean.
    * effects: assimilates the Maps within the Range, counts the Region occurrences, and returns the associated Numbers
+   *          along with the pain descriptions given most often for it;
+   *          with includeSubregions, occurrences of every region within it (e.g. the knee within the leg) count too.
+   *          The score is the median over the occurrences of each one's latest score (the default),
+   *          or of the peak or mean of all scores given on its day.
+   *          Regions whose score was carried from an earlier map and not given again are left out,
+   *          so a carried score is not counted as a fresh report of pain on another day
    *
    * Note: This queries maps from BodyMapGeneration and regions from PainLocationScoring.
-   * The region parameter is the region name (string identifier), not the region ID.
+   * The region parameter is the region name (string identifier), not the region ID. It is resolved
+   * through the PainLocationScoring taxonomy, so "L knee" counts the same regions as "left knee".
    */
   async sumRegion(
     {
       period,
       mapSet,
       regionName,
-    }: { period: DateRange; mapSet: Map[]; regionName: string },
+      includeSubregions = false,
+      scoreBasis = "latest",
+    }: {
+      period: DateRange;
+      mapSet: Map[];
+      regionName: string;
+      includeSubregions?: boolean;
+      scoreBasis?: ScoreBasis;
+    },
   ): Promise<
-    { score: number; frequency: number } | { error: string }
+    | { score: number; frequency: number; descriptors: DominantDescriptors }
+    | { error: string }
   > {
     try {
+      if (!SCORE_BASES.includes(scoreBasis)) {
+        return {
+          error: `Score basis must be one of ${SCORE_BASES.join(", ")}.`,
+        };
+      }
+
       // Validate period
       if (period.start > period.end) {
         return { error: "Period start date must be before end date." };
       }
 
       if (mapSet.length === 0) {
-        return { score: 0, frequency: 0 };
+        return {
+          score: 0,
+          frequency: 0,
+          descriptors: this.dominantDescriptors([]),
+        };
       }
 
       // Get BodyMapGeneration maps collection
@@ -106,38 +208,82 @@ export default class MapSummaryGenerationConcept {
         .toArray();
 
       if (mapsInPeriod.length === 0) {
-        return { score: 0, frequency: 0 };
+        return {
+          score: 0,
+          frequency: 0,
+          descriptors: this.dominantDescriptors([]),
+        };
       }
 
       const mapIds = mapsInPeriod.map((m) => String(m._id) as Map);
 
-      // Find all regions with matching name in the maps
+      // Find all regions with a matching code in the maps, apart from those still carrying a copied
+      // score. Regions added before the taxonomy have no code and are matched by name instead.
+      const definition = resolveRegion(regionName);
+      let regionFilter: Record<string, unknown> = { name: regionName };
+      if (definition) {
+        const codes = includeSubregions
+          ? regionCodesWithin(definition.code)
+          : [definition.code];
+        const names = REGION_TAXONOMY
+          .filter((r) => codes.includes(r.code))
+          .map((r) => r.name);
+        regionFilter = {
+          $or: [
+            { code: { $in: codes } },
+            {
+              code: { $exists: false },
+              name: { $in: [regionName, ...names] },
+            },
+          ],
+        };
+      }
       const regions = await painRegionCollection
         .find({
           mapId: { $in: mapIds },
-          name: regionName,
+          carried: { $ne: true },
+          ...regionFilter,
         })
         .toArray();
 
       if (regions.length === 0) {
-        return { score: 0, frequency: 0 };
+        return {
+          score: 0,
+          frequency: 0,
+          descriptors: this.dominantDescriptors([]),
+        };
       }
 
       // Calculate frequency (count of regions)
       const frequency = regions.length;
 
+      // Find the descriptions given most often
+      const descriptors = this.dominantDescriptors(
+        regions.flatMap((r) =>
+          r.description ? [r.description as PainDescription] : []
+        ),
+      );
+
       // Calculate median score
       // Filter regions that have a score
       const scoredRegions = regions.filter((r) => r.score !== undefined);
       if (scoredRegions.length === 0) {
-        return { score: 0, frequency };
+        return { score: 0, frequency, descriptors };
       }
 
-      // Extract scores and sort them
-      const scores = scoredRegions.map((r) => r.score as number).sort((a, b) => a - b);
+      // Extract each region's score for its day on the chosen basis and sort them
+      const scores = scoredRegions
+        .map((r) =>
+          this.dailyScore(
+            r.score as number,
+            r.scores as Array<{ score: number }> | undefined,
+            scoreBasis,
+          )
+        )
+        .sort((a, b) => a - b);
       const medianScore = this.calculateMedian(scores);
 
-      return { score: medianScore, frequency };
+      return { score: medianScore, frequency, descriptors };
     } catch (e) {
       if (e instanceof Error) {
         console.error(`Error summing region ${regionName}:`, e);
@@ -150,10 +296,11 @@ export default class MapSummaryGenerationConcept {
   }
 
   /**
-   * summarise(period: Range, region: Region, score: Number, frequency: Number): (summary: String)
+   * summarise(period: Range, region: Region, score: Number, frequency: Number, descriptors?: DominantDescriptors, scoreBasis?: ScoreBasis): (summary: String)
    *
    * requires: the Region must exist
-   * effects: returns a String incorporating the given values of Range, Region, and the associated Numbers
+   * effects: returns a String incorporating the given values of Range, Region, and the associated Numbers,
+   *          and how the pain was usually described if any descriptions were given
    */
   async summarise(
     {
@@ -161,11 +308,15 @@ export default class MapSummaryGenerationConcept {
       regionName,
       score,
       frequency,
+      descriptors,
+      scoreBasis = "latest",
     }: {
       period: DateRange;
       regionName: string;
       score: number;
       frequency: number;
+      descriptors?: DominantDescriptors;
+      scoreBasis?: ScoreBasis;
     },
   ): Promise<{ summary: string } | { error: string }> {
     try {
@@ -184,7 +335,11 @@ export default class MapSummaryGenerationConcept {
       } else if (score === 0) {
         summary = `${regionName} appeared ${frequency} time(s) during ${startDateStr} to ${endDateStr}, but no scores were recorded.`;
       } else {
-        summary = `${regionName} appeared ${frequency} time(s) with a median score of ${score.toFixed(1)} during ${startDateStr} to ${endDateStr}.`;
+        summary = `${regionName} appeared ${frequency} time(s) with a median ${SCORE_LABELS[scoreBasis]} of ${score.toFixed(1)} during ${startDateStr} to ${endDateStr}.`;
+      }
+      const described = descriptors && describeDescriptors(descriptors);
+      if (frequency > 0 && described) {
+        summary += ` Usually ${described}.`;
       }
 
       return { summary };
@@ -201,6 +356,67 @@ export default class MapSummaryGenerationConcept {
     }
   }
 
+  /**
+   * Helper method to find the most common qualities, onset and pattern among descriptions,
+   * and the median of their durations
+   */
+  private dominantDescriptors(
+    descriptions: PainDescription[],
+  ): DominantDescriptors {
+    // Every word of the vocabulary that is given as often as the most common one
+    const mostCommon = (vocabulary: readonly string[], given: string[]) => {
+      const counts = vocabulary.map((word) =>
+        given.filter((g) => g === word).length
+      );
+      const max = Math.max(0, ...counts);
+      return max === 0 ? [] : vocabulary.filter((_, i) => counts[i] === max);
+    };
+
+    const durations = descriptions
+      .flatMap((d) =>
+        d.durationMinutes !== undefined ? [d.durationMinutes] : []
+      )
+      .sort((a, b) => a - b);
+    return {
+      qualities: mostCommon(
+        PAIN_QUALITIES,
+        descriptions.flatMap((d) => d.qualities),
+      ),
+      onset: mostCommon(
+        PAIN_ONSETS,
+        descriptions.flatMap((d) => d.onset ? [d.onset] : []),
+      )[0] ?? null,
+      pattern: mostCommon(
+        PAIN_PATTERNS,
+        descriptions.flatMap((d) => d.pattern ? [d.pattern] : []),
+      )[0] ?? null,
+      medianDurationMinutes: durations.length > 0
+        ? this.calculateMedian(durations)
+        : null,
+    };
+  }
+
+  /**
+   * Helper method to pick a region's score for its day on the given basis. Regions without
+   * a score history (scored before it was kept, or carried from an earlier map) use their latest score.
+   */
+  private dailyScore(
+    latest: number,
+    history: Array<{ score: number }> | undefined,
+    basis: ScoreBasis,
+  ): number {
+    const given = history && history.length > 0
+      ? history.map((entry) => entry.score)
+      : [latest];
+    if (basis === "peak") {
+      return Math.max(...given);
+    }
+    if (basis === "mean") {
+      return given.reduce((sum, score) => sum + score, 0) / given.length;
+    }
+    return latest;
+  }
+
   /**
    * Helper method to calculate median from a sorted array of numbers
    */
@@ -223,7 +439,9 @@ export default class MapSummaryGenerationConcept {
    *   user: User,
    *   period: DateRange,
    *   mapSet: Map[],
-   *   regionName: string
+   *   regionName: string,
+   *   includeSubregions?: boolean,
+   *   scoreBasis?: ScoreBasis
    * ): (summaryId: Region)
    *
    * Convenience method that combines sumRegion and summarise, then stores the result.
@@ -234,16 +452,26 @@ export default class MapSummaryGenerationConcept {
       period,
       mapSet,
       regionName,
+      includeSubregions = false,
+      scoreBasis = "latest",
     }: {
       user: User;
       period: DateRange;
       mapSet: Map[];
       regionName: string;
+      includeSubregions?: boolean;
+      scoreBasis?: ScoreBasis;
     },
   ): Promise<{ summaryId: Region } | { error: string }> {
     try {
       // Sum the region
-      const sumResult = await this.sumRegion({ period, mapSet, regionName });
+      const sumResult = await this.sumRegion({
+        period,
+        mapSet,
+        regionName,
+        includeSubregions,
+        scoreBasis,
+      });
       if ("error" in sumResult) {
         return sumResult;
       }
@@ -254,6 +482,8 @@ export default class MapSummaryGenerationConcept {
         regionName,
         score: sumResult.score,
         frequency: sumResult.frequency,
+        descriptors: sumResult.descriptors,
+        scoreBasis,
       });
       if ("error" in summaryResult) {
         return summaryResult;
@@ -271,6 +501,8 @@ export default class MapSummaryGenerationConcept {
         summary: summaryResult.summary,
         period,
         userId: user,
+        descriptors: sumResult.descriptors,
+        scoreBasis,
       };
 
       await this.regionSummaries.insertOne(regionSummary);
@@ -295,6 +527,32 @@ export default class MapSummaryGenerationConcept {
     }
   }
 
+  /**
+   * eraseUser(user: User): (removed: { regionSummaries: Number })
+   *
+   * requires: true
+   * effects: permanently deletes every summary generated for the user and returns how many were removed.
+   *          Intended to be called by a synchronization when an account is deleted.
+   */
+  async eraseUser(
+    { user }: { user: User },
+  ): Promise<{ removed: { regionSummaries: number } } | { error: string }> {
+    try {
+      const result = await this.regionSummaries.deleteMany({ userId: user });
+      return { removed: { regionSummaries: result.deletedCount } };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing summaries for user ${user}:`, e);
+        return { error: `Failed to erase user summaries: ${e.message}` };
+      } else {
+        console.error(`Unknown error erasing summaries for user ${user}:`, e);
+        return {
+          error: "Failed to erase user summaries due to an unknown error",
+        };
+      }
+    }
+  }
+
   // --- Query methods (for testing/observability) ---
 
   /**
@@ -406,7 +664,16 @@ export default class MapSummaryGenerationConcept {
 
       // Add statistics
       doc.text(`Frequency: ${summary.frequency} occurrence(s)`);
-      doc.text(`Median Score: ${summary.medianScore.toFixed(1)}`);
+      doc.text(
+        `Median ${SCORE_LABELS[summary.scoreBasis ?? "latest"]}: ${
+          summary.medianScore.toFixed(1)
+        }`,
+      );
+      const described = summary.descriptors &&
+        describeDescriptors(summary.descriptors);
+      if (described) {
+        doc.text(`Usually: ${described}`);
+      }
       doc.moveDown();
 
       // Add summary text
@@ -527,7 +794,16 @@ export default class MapSummaryGenerationConcept {
 
         // Add statistics
         doc.text(`Frequency: ${summary.frequency} occurrence(s)`);
-        doc.text(`Median Score: ${summary.medianScore.toFixed(1)}`);
+        doc.text(
+          `Median ${SCORE_LABELS[summary.scoreBasis ?? "latest"]}: ${
+            summary.medianScore.toFixed(1)
+          }`,
+        );
+        const described = summary.descriptors &&
+          describeDescriptors(summary.descriptors);
+        if (described) {
+          doc.text(`Usually: ${described}`);
+        }
         doc.moveDown();
 
         // Add summary text
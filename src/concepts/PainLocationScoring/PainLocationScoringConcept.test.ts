@@ -175,9 +175,10 @@ Deno.test("PainLocationScoring", async (test) => {
       );
       assertEquals(
         (regionsAfterAdd as Array<any>)[0].name,
-        regionName,
-        `The added region's name should match '${regionName}'.`,
+        "left knee",
+        `The added region should be stored under the canonical name of '${regionName}'.`,
       );
+      assertEquals((regionsAfterAdd as Array<{ code?: string }>)[0].code, "left-knee");
       console.log(
         `  Verification: Region ${regionAFriendly} successfully added to map ${mapAFriendly}.`,
       );
@@ -396,8 +397,8 @@ Deno.test("PainLocationScoring", async (test) => {
       );
       assertEquals(
         foundRegion.name,
-        regionNameSuccess,
-        "The name of the added region should match.",
+        "right shoulder",
+        "The added region should be stored under its canonical name.",
       );
       console.log(
         `  Verification: Region ${newRegionIdFriendly} confirmed in map ${mapAFriendly}.`,
@@ -1006,4 +1007,462 @@ Deno.test("PainLocationScoring", async (test) => {
       await client.close();
     }
   });
+
+  await test.step("Action: eraseUser removes the user's maps and regions only", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const mapA = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const mapB = await setupMap(bodyMapGen, painScoreConcept, userB);
+      await painScoreConcept.addRegion({ user: userA, map: mapA, regionName: "Left Knee" });
+      await painScoreConcept.addRegion({ user: userA, map: mapA, regionName: "Neck" });
+      await painScoreConcept.addRegion({ user: userB, map: mapB, regionName: "Head" });
+
+      const eraseResult = await painScoreConcept.eraseUser({ user: userA });
+      assertEquals("error" in eraseResult, false, "eraseUser should succeed.");
+      const { removed } = eraseResult as {
+        removed: { bodyMaps: number; regions: number };
+      };
+      assertEquals(removed.bodyMaps, 1, "One map should be removed for userA.");
+      assertEquals(removed.regions, 2, "Both of userA's regions should be removed.");
+
+      const userARegions = await painScoreConcept._getRegionsForMap({ user: userA, map: mapA });
+      assertEquals(
+        "error" in userARegions,
+        true,
+        "userA's map should no longer be tracked.",
+      );
+      const userBRegions = await painScoreConcept._getRegionsForMap({ user: userB, map: mapB });
+      assertEquals(
+        (userBRegions as Array<unknown>).length,
+        1,
+        "userB's regions should be untouched.",
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: untrackMaps removes the given maps and their regions only", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const mapA = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const mapB = await setupMap(bodyMapGen, painScoreConcept, userB);
+      await painScoreConcept.addRegion({ user: userA, map: mapA, regionName: "Left Knee" });
+      await painScoreConcept.addRegion({ user: userB, map: mapB, regionName: "Head" });
+
+      const untrackResult = await painScoreConcept.untrackMaps({ maps: [mapA] });
+      assertEquals("error" in untrackResult, false, "untrackMaps should succeed.");
+      const { removed } = untrackResult as {
+        removed: { bodyMaps: number; regions: number };
+      };
+      assertEquals(removed.bodyMaps, 1, "mapA should be untracked.");
+      assertEquals(removed.regions, 1, "mapA's region should be removed.");
+
+      const userARegions = await painScoreConcept._getRegionsForMap({ user: userA, map: mapA });
+      assertEquals("error" in userARegions, true, "mapA should no longer be tracked.");
+      const userBRegions = await painScoreConcept._getRegionsForMap({ user: userB, map: mapB });
+      assertEquals(
+        (userBRegions as Array<unknown>).length,
+        1,
+        "Other maps' regions should be untouched.",
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: carryForward copies region names, and scores as carried", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const yesterday = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const kneeResult = await painScoreConcept.addRegion({ user: userA, map: yesterday, regionName: "Left Knee" });
+      const { region: knee } = kneeResult as { region: ID };
+      await painScoreConcept.scoreRegion({ user: userA, region: knee, score: 7 });
+      await painScoreConcept.addRegion({ user: userA, map: yesterday, regionName: "Neck" });
+      const today = "map_carry_today" as ID;
+
+      const othersResult = await painScoreConcept.carryForward({
+        user: userB,
+        from: yesterday,
+        to: today,
+        withScores: true,
+      });
+      assertEquals("error" in othersResult, true, "Only the owner's maps can be carried forward.");
+
+      const carryResult = await painScoreConcept.carryForward({
+        user: userA,
+        from: yesterday,
+        to: today,
+        withScores: true,
+      });
+      assertEquals("error" in carryResult, false, "carryForward should succeed.");
+      assertEquals((carryResult as { regions: ID[] }).regions.length, 2);
+
+      const todayRegions = await painScoreConcept._getRegionsForMap({ user: userA, map: today }) as Array<
+        { _id: ID; name: string; code?: string; score?: number; carried?: boolean }
+      >;
+      const carriedKnee = todayRegions.find((r) => r.name === "left knee");
+      assertEquals(carriedKnee?.score, 7, "The knee's score should be carried.");
+      assertEquals(carriedKnee?.carried, true, "The carried score should be marked.");
+      assertEquals(carriedKnee?.code, "left-knee", "The region code should be carried.");
+      assertEquals(todayRegions.find((r) => r.name === "neck")?.score, undefined);
+
+      // Rescoring clears the mark, and carrying again adds no duplicates
+      await painScoreConcept.scoreRegion({ user: userA, region: carriedKnee!._id, score: 4 });
+      const rescored = await painScoreConcept._getRegion({ user: userA, region: carriedKnee!._id }) as Array<
+        { carried?: boolean }
+      >;
+      assertEquals(rescored[0].carried, undefined, "Rescoring should clear the carried mark.");
+      const again = await painScoreConcept.carryForward({
+        user: userA,
+        from: yesterday,
+        to: today,
+        withScores: false,
+      });
+      assertEquals((again as { regions: ID[] }).regions.length, 0, "Existing names should not be copied twice.");
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Query: _getMapDigests counts each map's regions and their highest score", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const marked = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const kneeResult = await painScoreConcept.addRegion({ user: userA, map: marked, regionName: "Left Knee" });
+      const { region: knee } = kneeResult as { region: ID };
+      await painScoreConcept.scoreRegion({ user: userA, region: knee, score: 4 });
+      const headResult = await painScoreConcept.addRegion({ user: userA, map: marked, regionName: "Head" });
+      const { region: head } = headResult as { region: ID };
+      await painScoreConcept.scoreRegion({ user: userA, region: head, score: 7 });
+      await painScoreConcept.addRegion({ user: userA, map: marked, regionName: "Chest" });
+      const unmarked = "map_digest_unmarked" as ID;
+      await painScoreConcept.trackMap({ user: userA, map: unmarked });
+      const untracked = "map_digest_untracked" as ID;
+
+      const digests = await painScoreConcept._getMapDigests({ user: userA, maps: [unmarked, marked, untracked] });
+      assertEquals(digests, [
+        { map: unmarked, regionCount: 0, maxScore: null },
+        { map: marked, regionCount: 3, maxScore: 7 },
+        { map: untracked, regionCount: 0, maxScore: null },
+      ]);
+
+      const othersView = await painScoreConcept._getMapDigests({ user: userB, maps: [marked] });
+      assertEquals(othersView, [{ map: marked, regionCount: 0, maxScore: null }], "Others' maps report nothing.");
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: addRegion resolves names through the region taxonomy", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const map = await setupMap(bodyMapGen, painScoreConcept, userA);
+      for (const spelling of ["Left Knee", "left-knee", "L knee", "kneecap (left)", "  LT   KNEE "]) {
+        const result = await painScoreConcept.addRegion({ user: userA, map, regionName: spelling });
+        assertEquals("error" in result, false, `'${spelling}' should resolve to a region.`);
+      }
+      await painScoreConcept.addRegion({ user: userA, map, regionName: "bicep (right)" });
+      const regions = await painScoreConcept._getRegionsForMap({ user: userA, map }) as Array<
+        { name: string; code?: string }
+      >;
+      assertEquals(regions.filter((r) => r.code === "left-knee").length, 5, "Every spelling should share one code.");
+      assertEquals(regions.every((r) => r.code !== "left-knee" || r.name === "left knee"), true);
+      assertEquals(regions.find((r) => r.code === "right-upper-arm")?.name, "right upper arm");
+
+      const unknown = await painScoreConcept.addRegion({ user: userA, map, regionName: "Phantom Limb" });
+      assertEquals("error" in unknown, true, "Names outside the taxonomy should be rejected.");
+      const noSide = await painScoreConcept.addRegion({ user: userA, map, regionName: "knee" });
+      assertEquals("error" in noSide, true, "Paired regions need a side.");
+
+      const taxonomy = painScoreConcept._getRegionTaxonomy();
+      const knee = taxonomy.find((r) => r.code === "left-knee");
+      assertEquals(knee?.laterality, "left");
+      assertEquals(knee?.parent, "left-leg");
+      assertEquals(taxonomy.find((r) => r.code === "neck")?.laterality, "midline");
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: describeRegion records pain qualities, onset, duration and pattern", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const map = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const { region } = await painScoreConcept.addRegion({ user: userA, map, regionName: "lower back" }) as {
+        region: ID;
+      };
+
+      const describeResult = await painScoreConcept.describeRegion({
+        user: userA,
+        region,
+        description: { qualities: ["Throbbing", "burning", "burning"], onset: "Night", durationMinutes: 45, pattern: "intermittent" },
+      });
+      assertEquals("error" in describeResult, false, "describeRegion should succeed.");
+      let stored = await painScoreConcept._getRegion({ user: userA, region }) as Array<{ description?: unknown }>;
+      assertEquals(stored[0].description, {
+        qualities: ["burning", "throbbing"],
+        onset: "night",
+        durationMinutes: 45,
+        pattern: "intermittent",
+      }, "Qualities should be deduplicated and put in vocabulary order.");
+
+      const invalid = [
+        { qualities: ["itchy"] },
+        { qualities: [], onset: "lunchtime" },
+        { qualities: [], durationMinutes: 0 },
+        { qualities: [], durationMinutes: 2.5 },
+        { qualities: [], pattern: "sometimes" },
+        { qualities: [] },
+      ];
+      for (const description of invalid) {
+        const result = await painScoreConcept.describeRegion({ user: userA, region, description });
+        assertEquals("error" in result, true, `${JSON.stringify(description)} should be rejected.`);
+      }
+      const othersResult = await painScoreConcept.describeRegion({
+        user: userB,
+        region,
+        description: { qualities: ["aching"] },
+      });
+      assertEquals("error" in othersResult, true, "Users cannot describe others' regions.");
+
+      // Describing again replaces the description, and null removes it
+      await painScoreConcept.describeRegion({ user: userA, region, description: { qualities: ["aching"] } });
+      stored = await painScoreConcept._getRegion({ user: userA, region }) as Array<{ description?: unknown }>;
+      assertEquals(stored[0].description, { qualities: ["aching"] });
+      await painScoreConcept.describeRegion({ user: userA, region, description: null });
+      stored = await painScoreConcept._getRegion({ user: userA, region }) as Array<{ description?: unknown }>;
+      assertEquals(stored[0].description, undefined);
+
+      const [vocabulary] = painScoreConcept._getPainVocabulary();
+      assertEquals(vocabulary.qualities.includes("tingling"), true);
+      assertEquals(vocabulary.patterns, ["constant", "intermittent"]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: scoreRegion keeps a timestamped score history", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const map = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const { region } = await painScoreConcept.addRegion({ user: userA, map, regionName: "right knee" }) as {
+        region: ID;
+      };
+      let history = await painScoreConcept._getScoreHistory({ user: userA, region });
+      assertEquals(history, [], "An unscored region should have no history.");
+
+      await painScoreConcept.scoreRegion({ user: userA, region, score: 3 });
+      await painScoreConcept.scoreRegion({ user: userA, region, score: 8 });
+      const invalid = await painScoreConcept.scoreRegion({ user: userA, region, score: 11 });
+      assertEquals("error" in invalid, true);
+
+      history = await painScoreConcept._getScoreHistory({ user: userA, region });
+      const entries = history as Array<{ score: number; scoredAt: Date | null }>;
+      assertEquals(entries.map((e) => e.score), [3, 8], "Rescoring should add to the history, not overwrite it.");
+      assertExists(entries[0].scoredAt);
+      assertEquals(entries[0].scoredAt! <= entries[1].scoredAt!, true, "Entries should be oldest first.");
+      const stored = await painScoreConcept._getRegion({ user: userA, region }) as Array<{ score?: number }>;
+      assertEquals(stored[0].score, 8, "The region's score should be the latest one.");
+
+      const othersHistory = await painScoreConcept._getScoreHistory({ user: userB, region });
+      assertEquals("error" in othersHistory, true, "Users cannot read others' score history.");
+
+      // A region scored before history was kept reports its latest score without a timestamp
+      await db.collection("PainLocationScoring.regions").updateOne({ _id: region }, { $unset: { scores: "" } });
+      history = await painScoreConcept._getScoreHistory({ user: userA, region });
+      assertEquals(history, [{ score: 8, scoredAt: null }]);
+
+      // Rescoring such a region keeps its earlier score at the start of the history
+      await painScoreConcept.scoreRegion({ user: userA, region, score: 4 });
+      history = await painScoreConcept._getScoreHistory({ user: userA, region });
+      const rescored = history as Array<{ score: number; scoredAt: Date | null }>;
+      assertEquals(rescored.map((e) => e.score), [8, 4], "The score given before history was kept should not be lost.");
+      assertEquals(rescored[0].scoredAt, null);
+      assertExists(rescored[1].scoredAt);
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: addRegion places regions by point or drawing, and _getRegionAt finds them", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const map = await setupMap(bodyMapGen, painScoreConcept, userA);
+
+      // A tap on the front view's left half lands on the patient's right knee
+      const tapped = await painScoreConcept.addRegion({
+        user: userA,
+        map,
+        placement: { view: "front", point: [0.435, 0.69] },
+      });
+      assertEquals("error" in tapped, false, `Tap should resolve to a region: ${JSON.stringify(tapped)}`);
+      const { region: knee } = tapped as { region: ID };
+      const [kneeRegion] = await painScoreConcept._getRegion({ user: userA, region: knee }) as Array<
+        { name: string; code?: string; placement?: { view: string; point: [number, number] } }
+      >;
+      assertEquals(kneeRegion.code, "right-knee");
+      assertEquals(kneeRegion.placement, { view: "front", point: [0.435, 0.69] });
+
+      // A pain drawing keeps its polygon; an explicit name wins over the hit-test
+      const drawing: Array<[number, number]> = [[0.4, 0.2], [0.6, 0.2], [0.6, 0.35], [0.4, 0.35]];
+      const drawn = await painScoreConcept.addRegion({
+        user: userA,
+        map,
+        regionName: "upper back",
+        placement: { view: "back", polygon: drawing },
+      });
+      assertEquals("error" in drawn, false);
+      const { region: back } = drawn as { region: ID };
+      const [backRegion] = await painScoreConcept._getRegion({ user: userA, region: back }) as Array<
+        { name: string; placement?: { polygon?: Array<[number, number]> } }
+      >;
+      assertEquals(backRegion.name, "upper back");
+      assertEquals(backRegion.placement?.polygon, drawing);
+
+      const invalid = [
+        { view: "left", point: [0.5, 0.5] as [number, number] },
+        { view: "front", point: [1.5, 0.5] as [number, number] },
+        { view: "front", polygon: [[0.1, 0.1], [0.2, 0.2]] as Array<[number, number]> },
+        { view: "front", point: [0.02, 0.02] as [number, number] },
+      ];
+      for (const placement of invalid) {
+        const result = await painScoreConcept.addRegion({ user: userA, map, placement });
+        assertEquals("error" in result, true, `${JSON.stringify(placement)} should be rejected.`);
+      }
+
+      // Tapping near a marker or inside a drawing opens the region
+      const nearKnee = await painScoreConcept._getRegionAt({ user: userA, map, view: "front", x: 0.44, y: 0.7 });
+      assertEquals((nearKnee as Array<{ _id: ID }>).map((r) => r._id), [knee]);
+      const insideDrawing = await painScoreConcept._getRegionAt({ user: userA, map, view: "back", x: 0.42, y: 0.33 });
+      assertEquals((insideDrawing as Array<{ _id: ID }>).map((r) => r._id), [back]);
+      const empty = await painScoreConcept._getRegionAt({ user: userA, map, view: "front", x: 0.9, y: 0.1 });
+      assertEquals(empty, []);
+      const othersMap = await painScoreConcept._getRegionAt({ user: userB, map, view: "front", x: 0.44, y: 0.7 });
+      assertEquals("error" in othersMap, true, "Users cannot hit-test others' maps.");
+    } finally {
+      await client.close();
+    }
+  });
+
+  await test.step("Action: setMapRegions adds, rescores and deletes regions in one batch", async () => {
+    const [db, client] = await testDb();
+    const bodyMapGen = new BodyMapGenerationConcept(db);
+    const painScoreConcept = new PainLocationScoringConcept(db);
+
+    try {
+      const map = await setupMap(bodyMapGen, painScoreConcept, userA);
+      const { region: neck } = await painScoreConcept.addRegion({ user: userA, map, regionName: "neck" }) as {
+        region: ID;
+      };
+      await painScoreConcept.scoreRegion({ user: userA, region: neck, score: 3 });
+      const { region: head } = await painScoreConcept.addRegion({ user: userA, map, regionName: "head" }) as {
+        region: ID;
+      };
+
+      const setResult = await painScoreConcept.setMapRegions({
+        user: userA,
+        map,
+        regions: [
+          { regionName: "Left Knee", score: 6, description: { qualities: ["aching"] } },
+          { placement: { view: "front", point: [0.435, 0.69] }, score: 2 },
+          { region: neck, score: 8 },
+          { region: head, delete: true },
+        ],
+      });
+      assertEquals("error" in setResult, false, `setMapRegions should succeed: ${JSON.stringify(setResult)}`);
+      const { results } = setResult as { results: Array<{ region: ID; status: string }> };
+      assertEquals(results.map((r) => r.status), ["added", "added", "updated", "deleted"]);
+      assertEquals(results[2].region, neck);
+
+      const regions = await painScoreConcept._getRegionsForMap({ user: userA, map }) as Array<
+        { _id: ID; code?: string; score?: number; description?: unknown }
+      >;
+      assertEquals(regions.length, 3, "Two regions added and one deleted.");
+      const knee = regions.find((r) => r.code === "left-knee");
+      assertEquals(knee?.score, 6);
+      assertEquals(knee?.description, { qualities: ["aching"] });
+      assertEquals(regions.find((r) => r.code === "right-knee")?.score, 2);
+      const neckHistory = await painScoreConcept._getScoreHistory({ user: userA, region: neck }) as Array<
+        { score: number }
+      >;
+      assertEquals(neckHistory.map((e) => e.score), [3, 8], "Bulk rescoring should add to the history.");
+
+      // One invalid change rejects the whole batch
+      const rejected = await painScoreConcept.setMapRegions({
+        user: userA,
+        map,
+        regions: [
+          { regionName: "right hand", score: 4 },
+          { region: neck, score: 12 },
+        ],
+      });
+      assertEquals("error" in rejected, true);
+      assertEquals((rejected as { error: string }).error.startsWith("Region change 2:"), true);
+      const afterRejected = await painScoreConcept._getRegionsForMap({ user: userA, map }) as Array<unknown>;
+      assertEquals(afterRejected.length, 3, "No change should be made when any is invalid.");
+
+      // Regions on another user's map cannot be changed, even alongside valid changes
+      const otherMap = await setupMap(bodyMapGen, painScoreConcept, userB);
+      const { region: othersRegion } = await painScoreConcept.addRegion({
+        user: userB,
+        map: otherMap,
+        regionName: "chest",
+      }) as { region: ID };
+      const stolen = await painScoreConcept.setMapRegions({
+        user: userA,
+        map,
+        regions: [{ region: neck, score: 5 }, { region: othersRegion, delete: true }],
+      });
+      assertEquals("error" in stolen, true);
+      const othersRegions = await painScoreConcept._getRegionsForMap({ user: userB, map: otherMap }) as Array<unknown>;
+      assertEquals(othersRegions.length, 1);
+
+      const duplicate = await painScoreConcept.setMapRegions({
+        user: userA,
+        map,
+        regions: [{ region: neck, score: 5 }, { region: neck, delete: true }],
+      });
+      assertEquals("error" in duplicate, true, "A region can be changed only once per batch.");
+      const empty = await painScoreConcept.setMapRegions({ user: userA, map, regions: [] });
+      assertEquals("error" in empty, true);
+      const notOwner = await painScoreConcept.setMapRegions({ user: userB, map, regions: [{ region: neck, score: 5 }] });
+      assertEquals("error" in notOwner, true, "Users cannot change others' maps.");
+
+      // Bulk rescoring a region scored before history was kept keeps its earlier score too
+      await db.collection("PainLocationScoring.regions").updateOne({ _id: neck }, { $unset: { scores: "" } });
+      await painScoreConcept.setMapRegions({ user: userA, map, regions: [{ region: neck, score: 5 }] });
+      const legacyHistory = await painScoreConcept._getScoreHistory({ user: userA, region: neck }) as Array<
+        { score: number; scoredAt: Date | null }
+      >;
+      assertEquals(legacyHistory.map((e) => e.score), [8, 5]);
+      assertEquals(legacyHistory[0].scoredAt, null);
+    } finally {
+      await client.close();
+    }
+  });
 });
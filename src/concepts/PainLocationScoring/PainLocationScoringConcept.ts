@@ -1,6 +1,27 @@
-import { Collection, Db } from "npm:mongodb";
+import { AnyBulkWriteOperation, Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { clientOf, freshID } from "@utils/database.ts";
+import {
+  REGION_TAXONOMY,
+  RegionDefinition,
+  resolveRegion,
+} from "./taxonomy.ts";
+import {
+  MAX_DURATION_MINUTES,
+  normalizeDescription,
+  PAIN_ONSETS,
+  PAIN_PATTERNS,
+  PAIN_QUALITIES,
+  PainDescription,
+} from "./descriptors.ts";
+import {
+  DEFAULT_TEMPLATE,
+  Point,
+  polygonContains,
+  regionAt,
+  TemplateView,
+  ViewName,
+} from "../BodyMapGeneration/templates.ts";
 
 // The concept name is used as a prefix for collection names to ensure uniqueness
 const PREFIX = "PainLocationScoring" + ".";
@@ -15,6 +36,45 @@ type User = ID;
 type Map = ID;
 type Region = ID;
 
+// How far from a marker, in normalized map coordinates, a tap still opens it
+const TAP_RADIUS = 0.03;
+
+// The most region changes one setMapRegions call may make
+const MAX_REGION_CHANGES = 100;
+
+// A placement as given by a client: a view and either a tapped point or a drawn polygon
+type PlacementInput = { view: string; point?: Point; polygon?: Point[] };
+
+// A description as given by a client, checked by normalizeDescription
+type DescriptionInput = {
+  qualities?: string[];
+  onset?: string;
+  durationMinutes?: number;
+  pattern?: string;
+};
+
+/**
+ * One change in a setMapRegions batch. With a region ID it changes that existing Region on the map:
+ * deleting it, or rescoring and redescribing it (a null description removes the current one).
+ * Without one it adds a Region, named or placed as with addRegion, optionally scored and described.
+ */
+interface RegionChange {
+  region?: Region;
+  regionName?: string;
+  placement?: PlacementInput;
+  score?: number;
+  description?: DescriptionInput | null;
+  delete?: boolean;
+}
+
+/**
+ * The outcome of one change in a setMapRegions batch, in the order the changes were given.
+ */
+interface RegionChangeResult {
+  region: Region;
+  status: "added" | "updated" | "deleted";
+}
+
 /**
  * State:
  * a set of Users with
@@ -29,6 +89,43 @@ interface BodyMap {
   userId: User; // The user who owns this body map
 }
 
+/**
+ * How much of a Map has been marked, for other concepts' listings of maps.
+ */
+interface MapDigest {
+  map: Map;
+  regionCount: number; // Regions marked on the map, scored or not
+  maxScore: number | null; // The highest score on the map; null if nothing is scored
+}
+
+/**
+ * State:
+ * a set of Regions with
+ * a set of timestamped score Numbers
+ *
+ * One score given to a region, kept so that rescoring adds to the region's history
+ * rather than overwriting it.
+ */
+export interface ScoreEntry {
+  score: number; // The pain score (1-10)
+  scoredAt: Date | null; // When the user gave it; null for a score given before history was kept
+}
+
+/**
+ * State:
+ * a set of Regions with
+ * an optional position on a view of the Map
+ *
+ * Where a region was marked, in normalized map coordinates: x and y run from 0 to 1 across
+ * the view's width and height, from its top-left corner. A tap gives a point; a freeform
+ * pain drawing gives a polygon, kept as drawn, whose marker point is the average of its vertices.
+ */
+interface RegionPlacement {
+  view: ViewName;
+  point: Point;
+  polygon?: Point[];
+}
+
 /**
  * State:
  * a set of body Maps with
@@ -43,8 +140,13 @@ interface BodyMap {
 interface BodyRegion {
   _id: Region;
   mapId: Map; // The map this region belongs to
-  name: string; // A descriptive name for the region (e.g., "left knee", "head")
-  score?: number; // The pain score (1-10), optional as it's assigned later
+  name: string; // The canonical name of the region in the taxonomy (e.g., "left knee", "head")
+  code?: string; // The taxonomy code (e.g., "left-knee"); absent on regions added before the taxonomy
+  score?: number; // The latest pain score (1-10), optional as it's assigned later
+  scores?: ScoreEntry[]; // Every score given on this map, oldest first; absent on regions scored before history was kept
+  carried?: boolean; // True while the score is one copied from an earlier map rather than given on this one
+  description?: PainDescription; // How the pain feels and when it occurs, optional like the score
+  placement?: RegionPlacement; // Where the region was marked on the map, if it was placed rather than named
 }
 
 /**
@@ -106,20 +208,166 @@ export default class PainLocationScoringConcept {
   }
 
   /**
-   * addRegion(user: User, map: Map, regionName: string): { region: Region }
+   * Helper method to check a placement against the map's template and hit-test its marker point.
+   * @param views The views of the template the map is drawn on.
+   * @param placement The view and either a point or a drawn polygon, in normalized coordinates.
+   * @returns The placement in stored form and the name of the template region its marker falls in
+   *          (null if none), or an error describing what is wrong with it.
+   */
+  private resolvePlacement(
+    views: TemplateView[],
+    placement: PlacementInput,
+  ):
+    | { placement: RegionPlacement; templateRegion: string | null }
+    | { error: string } {
+    const view = views.find((v) => v.view === placement.view);
+    if (!view) {
+      return {
+        error:
+          `The map's template has no '${placement.view}' view; expected one of ${
+            views.map((v) => v.view).join(", ")
+          }.`,
+      };
+    }
+
+    const isNormalized = (point: unknown): point is Point =>
+      Array.isArray(point) && point.length === 2 &&
+      point.every((c) => typeof c === "number" && c >= 0 && c <= 1);
+    let stored: RegionPlacement;
+    if (placement.polygon !== undefined && placement.polygon !== null) {
+      const polygon = placement.polygon;
+      if (
+        !Array.isArray(polygon) || polygon.length < 3 ||
+        !polygon.every(isNormalized)
+      ) {
+        return {
+          error:
+            "A drawn polygon needs at least three points with x and y between 0 and 1.",
+        };
+      }
+      const point: Point = [
+        polygon.reduce((sum, [x]) => sum + x, 0) / polygon.length,
+        polygon.reduce((sum, [, y]) => sum + y, 0) / polygon.length,
+      ];
+      stored = { view: view.view, point, polygon };
+    } else if (isNormalized(placement.point)) {
+      stored = { view: view.view, point: placement.point };
+    } else {
+      return {
+        error:
+          "A placement needs a point or a drawn polygon, with x and y between 0 and 1.",
+      };
+    }
+
+    // Template polygons use the view's own units
+    const [x, y] = stored.point;
+    const hit = regionAt(view, [x * view.width, y * view.height]);
+    return { placement: stored, templateRegion: hit?.name ?? null };
+  }
+
+  /**
+   * Helper method to build a new region for a map from a region name, a placement, or both,
+   * as addRegion and setMapRegions accept them. Nothing is stored.
+   * @param map The ID of the map the region is for.
+   * @param regionName The name given for the region, if any.
+   * @param placement Where the region was tapped or drawn, if anywhere.
+   * @param views The views of the map's template; the built-in template's if not given.
+   * @returns The new BodyRegion document, or an error describing why it cannot be added.
+   */
+  private buildRegion(
+    map: Map,
+    regionName: string | undefined,
+    placement: PlacementInput | undefined,
+    views: TemplateView[] | null | undefined,
+  ): BodyRegion | { error: string } {
+    let resolved: {
+      placement: RegionPlacement;
+      templateRegion: string | null;
+    } | null = null;
+    if (placement !== undefined && placement !== null) {
+      const result = this.resolvePlacement(
+        views ?? DEFAULT_TEMPLATE.views,
+        placement,
+      );
+      if ("error" in result) {
+        return result;
+      }
+      resolved = result;
+    }
+
+    const name = regionName ?? resolved?.templateRegion;
+    if (!name) {
+      return {
+        error: resolved
+          ? "The placement does not fall inside any region of the map's template; give a region name."
+          : "Give a region name or a placement.",
+      };
+    }
+    const definition = resolveRegion(name);
+    if (!definition) {
+      return {
+        error:
+          `'${name}' is not a known body region; paired regions need a side (e.g., "left knee").`,
+      };
+    }
+
+    const newRegion: BodyRegion = {
+      _id: freshID(),
+      mapId: map,
+      name: definition.name,
+      code: definition.code,
+    };
+    if (resolved) {
+      newRegion.placement = resolved.placement;
+    }
+    return newRegion;
+  }
+
+  /**
+   * Helper method to recover the history of a region scored before history was kept, so that
+   * its first new score is added after the one it already had instead of replacing it.
+   * @param region The BodyRegion document.
+   * @returns The region's score as an entry without a timestamp, or nothing if its history
+   *          is already kept, it has no score, or its score was carried from an earlier map.
+   */
+  private legacyScores(region: BodyRegion): ScoreEntry[] {
+    if (
+      region.scores !== undefined || region.score === undefined ||
+      region.carried
+    ) {
+      return [];
+    }
+    return [{ score: region.score, scoredAt: null }];
+  }
+
+  /**
+   * addRegion(user: User, map: Map, regionName?: string, placement?: { view, point | polygon }, views?: TemplateView[]): { region: Region }
    *
-   * requires: the Map must already exist for the given User
-   * effects: creates and returns a new Region on that Map
+   * requires: the Map must already exist for the given User; regionName, if given, must name a region in the taxonomy;
+   *           placement, if given, must be on one of views, with a point or a polygon of at least
+   *           three points in normalized coordinates; and without regionName, the placement's marker must fall
+   *           inside a region of the template
+   * effects: creates and returns a new Region on that Map, stored under the canonical code and name that regionName
+   *          resolves to, or else that of the template region the placement falls in, and keeps the placement
    *
    * Note: `regionName` is used as input to specify the region part (e.g., "left knee"),
-   * as the `Region` ID itself is newly created by this action.
+   * as the `Region` ID itself is newly created by this action. Spellings such as "Left Knee",
+   * "L knee" and "kneecap (left)" all resolve to the same region (see taxonomy.ts).
+   * `views` are those of the template the Map is drawn on, which a synchronization looks up in the concept
+   * that provides the Map; without them, placements are checked against the built-in template.
    * An external concept (e.g., `BodyMapGeneration`) is assumed to provide `Map`s and their user associations.
    * This concept stores the `Map` to `User` association to enforce ownership.
    * For the purpose of this implementation, if a map is provided, we assume it's part of the `bodyMaps` collection.
    * If it's not found in `bodyMaps`, it implies it doesn't exist for the user (or at all within this concept's knowledge).
    */
   async addRegion(
-    { user, map, regionName }: { user: User; map: Map; regionName: string },
+    { user, map, regionName, placement, views }: {
+      user: User;
+      map: Map;
+      regionName?: string;
+      placement?: PlacementInput;
+      views?: TemplateView[] | null;
+    },
   ): Promise<{ region: Region } | { error: string }> {
     // Validate map ownership
     const existingMap = await this.validateMapOwnership(user, map);
@@ -130,16 +378,14 @@ export default class PainLocationScoringConcept {
       };
     }
 
-    const newRegionId = freshID();
-    const newRegion: BodyRegion = {
-      _id: newRegionId,
-      mapId: map,
-      name: regionName,
-    };
-
     try {
+      const newRegion = this.buildRegion(map, regionName, placement, views);
+      if ("error" in newRegion) {
+        return newRegion;
+      }
+
       await this.regions.insertOne(newRegion);
-      return { region: newRegionId };
+      return { region: newRegion._id };
     } catch (e) {
       console.error("Error adding region:", e);
       return { error: "Failed to add region due to a database error." };
@@ -150,7 +396,9 @@ export default class PainLocationScoringConcept {
    * scoreRegion(user: User, region: Region, score: Number): Empty
    *
    * requires: the Region must exist within the User’s Map and the Number must be between 1 and 10
-   * effects: associates the Number with that Region
+   * effects: records the Number with the current time in the Region's score history and makes it the Region's
+   *          latest score; a score carried from an earlier map is no longer marked as carried, and a score given
+   *          before history was kept goes into the history first, without a time
    */
   async scoreRegion(
     { user, region, score }: { user: User; region: Region; score: number },
@@ -171,7 +419,18 @@ export default class PainLocationScoringConcept {
     try {
       const result = await this.regions.updateOne(
         { _id: region },
-        { $set: { score: score } },
+        {
+          $set: { score: score },
+          $push: {
+            scores: {
+              $each: [
+                ...this.legacyScores(existingRegion),
+                { score, scoredAt: new Date() },
+              ],
+            },
+          },
+          $unset: { carried: "" },
+        },
       );
 
       if (result.matchedCount === 0) {
@@ -187,6 +446,235 @@ export default class PainLocationScoringConcept {
     }
   }
 
+  /**
+   * describeRegion(user: User, region: Region, description: PainDescription | null): Empty
+   *
+   * requires: the Region must exist within the User’s Map, and the description must use the fixed
+   *           vocabulary (see descriptors.ts) and give at least one quality, onset, duration or pattern
+   * effects: replaces the Region's description with the given one, or removes it if description is null
+   */
+  async describeRegion(
+    { user, region, description }: {
+      user: User;
+      region: Region;
+      description: DescriptionInput | null;
+    },
+  ): Promise<Empty | { error: string }> {
+    let normalized: PainDescription | null = null;
+    if (description !== null) {
+      const result = normalizeDescription(description);
+      if ("error" in result) {
+        return result;
+      }
+      normalized = result.description;
+    }
+
+    // Validate region ownership
+    const existingRegion = await this.validateRegionOwnership(user, region);
+    if (!existingRegion) {
+      return {
+        error: `Region '${region}' not found or not owned by user '${user}'.`,
+      };
+    }
+
+    try {
+      await this.regions.updateOne(
+        { _id: region },
+        normalized
+          ? { $set: { description: normalized } }
+          : { $unset: { description: "" } },
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error describing region '${region}':`, e);
+        return { error: `Failed to describe region: ${e.message}` };
+      } else {
+        console.error(`Unknown error describing region '${region}':`, e);
+        return { error: "Failed to describe region due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * setMapRegions(user: User, map: Map, regions: RegionChange[], views?: TemplateView[]): { results: { region: Region, status: String }[] }
+   *
+   * requires: the Map must already exist for the given User; there is at least one change and at most
+   *           MAX_REGION_CHANGES; each change to an existing Region names a Region on that Map, at most once,
+   *           and either deletes it or gives a score or description; each new Region can be added as with
+   *           addRegion; and every score and description is valid as for scoreRegion and describeRegion
+   * effects: in one transaction, adds, rescores, redescribes and deletes the Regions as given, scores being
+   *          recorded in each Region's history as with scoreRegion, and returns the Region and what was done
+   *          to it for each change in order. If any change is invalid, none is made, and the error names it.
+   *          Placements are checked against views as for addRegion.
+   */
+  async setMapRegions(
+    { user, map, regions, views }: {
+      user: User;
+      map: Map;
+      regions: RegionChange[];
+      views?: TemplateView[] | null;
+    },
+  ): Promise<{ results: RegionChangeResult[] } | { error: string }> {
+    // Validate map ownership
+    const existingMap = await this.validateMapOwnership(user, map);
+    if (!existingMap) {
+      return {
+        error:
+          `Map '${map}' not found for user '${user}' or user does not own it.`,
+      };
+    }
+    if (!Array.isArray(regions) || regions.length === 0) {
+      return { error: "Give at least one region change." };
+    }
+    if (regions.length > MAX_REGION_CHANGES) {
+      return {
+        error:
+          `At most ${MAX_REGION_CHANGES} region changes can be made at once.`,
+      };
+    }
+
+    const session = clientOf(this.db).startSession();
+    try {
+      return await session.withTransaction(async () => {
+        const now = new Date();
+        const existingIds = regions.flatMap((c) =>
+          c.region !== undefined ? [c.region] : []
+        );
+        const onMap = new Map(
+          (await this.regions
+            .find({ _id: { $in: existingIds }, mapId: map }, { session })
+            .toArray()).map((r) => [r._id, r]),
+        );
+
+        // Check every change before making any
+        const operations: AnyBulkWriteOperation<BodyRegion>[] = [];
+        const results: RegionChangeResult[] = [];
+        const seen = new Set<Region>();
+        for (const [index, change] of regions.entries()) {
+          const fail = (error: string) => ({
+            error: `Region change ${index + 1}: ${error}`,
+          });
+
+          if (change.score !== undefined && change.score !== null) {
+            if (
+              typeof change.score !== "number" || change.score < 1 ||
+              change.score > 10
+            ) {
+              return fail("Score must be a number between 1 and 10.");
+            }
+          }
+          let description: PainDescription | null | undefined = undefined;
+          if (change.description === null) {
+            description = null;
+          } else if (change.description !== undefined) {
+            const result = normalizeDescription(change.description);
+            if ("error" in result) {
+              return fail(result.error);
+            }
+            description = result.description;
+          }
+          const scored = change.score !== undefined && change.score !== null
+            ? { score: change.score, scoredAt: now }
+            : null;
+
+          if (change.region === undefined) {
+            if (change.delete) {
+              return fail("Only an existing region can be deleted.");
+            }
+            const newRegion = this.buildRegion(
+              map,
+              change.regionName,
+              change.placement,
+              views,
+            );
+            if ("error" in newRegion) {
+              return fail(newRegion.error);
+            }
+            if (scored) {
+              newRegion.score = scored.score;
+              newRegion.scores = [scored];
+            }
+            if (description) {
+              newRegion.description = description;
+            }
+            operations.push({ insertOne: { document: newRegion } });
+            results.push({ region: newRegion._id, status: "added" });
+            continue;
+          }
+
+          const existingRegion = onMap.get(change.region);
+          if (!existingRegion) {
+            return fail(
+              `Region '${change.region}' not found on map '${map}' or not owned by user '${user}'.`,
+            );
+          }
+          if (seen.has(change.region)) {
+            return fail(
+              `Region '${change.region}' is changed more than once.`,
+            );
+          }
+          seen.add(change.region);
+
+          if (change.delete) {
+            if (scored || description !== undefined) {
+              return fail("A deleted region cannot also be rescored.");
+            }
+            operations.push({
+              deleteOne: { filter: { _id: change.region } },
+            });
+            results.push({ region: change.region, status: "deleted" });
+            continue;
+          }
+          if (!scored && description === undefined) {
+            return fail("Give a score, a description or delete: true.");
+          }
+          const set: Partial<BodyRegion> = {};
+          const unset: Record<string, ""> = {};
+          if (scored) {
+            set.score = scored.score;
+            unset.carried = "";
+          }
+          if (description) {
+            set.description = description;
+          } else if (description === null) {
+            unset.description = "";
+          }
+          const update = {
+            ...(Object.keys(set).length > 0 ? { $set: set } : {}),
+            ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+            ...(scored
+              ? {
+                $push: {
+                  scores: {
+                    $each: [...this.legacyScores(existingRegion), scored],
+                  },
+                },
+              }
+              : {}),
+          };
+          operations.push({
+            updateOne: { filter: { _id: change.region }, update },
+          });
+          results.push({ region: change.region, status: "updated" });
+        }
+
+        await this.regions.bulkWrite(operations, { session, ordered: true });
+        return { results };
+      });
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error setting regions on map '${map}':`, e);
+        return { error: `Failed to set map regions: ${e.message}` };
+      } else {
+        console.error(`Unknown error setting regions on map '${map}':`, e);
+        return { error: "Failed to set map regions due to an unknown error" };
+      }
+    } finally {
+      await session.endSession();
+    }
+  }
+
   /**
    * deleteRegion(user: User, region: Region): Empty
    *
@@ -220,6 +708,45 @@ export default class PainLocationScoringConcept {
     }
   }
 
+  /**
+   * eraseUser(user: User): { removed: { bodyMaps: Number, regions: Number } }
+   *
+   * requires: true
+   * effects: permanently deletes every Map tracked for the User and every Region on those Maps,
+   *          and returns how many records were removed from each set.
+   *          This action is intended to be called by a synchronization when an account is deleted.
+   */
+  async eraseUser(
+    { user }: { user: User },
+  ): Promise<
+    { removed: { bodyMaps: number; regions: number } } | { error: string }
+  > {
+    try {
+      const ownedMaps = await this.bodyMaps.find({ userId: user }).toArray();
+      const mapIds = ownedMaps.map((m) => m._id);
+
+      const regionsResult = await this.regions.deleteMany({
+        mapId: { $in: mapIds },
+      });
+      const bodyMapsResult = await this.bodyMaps.deleteMany({ userId: user });
+
+      return {
+        removed: {
+          bodyMaps: bodyMapsResult.deletedCount,
+          regions: regionsResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing data for user '${user}':`, e);
+        return { error: `Failed to erase user data: ${e.message}` };
+      } else {
+        console.error(`Unknown error erasing data for user '${user}':`, e);
+        return { error: "Failed to erase user data due to an unknown error" };
+      }
+    }
+  }
+
   /**
    * _getRegion(user: User, region: Region): BodyRegion[]
    *
@@ -239,6 +766,27 @@ export default class PainLocationScoringConcept {
     return [existingRegion];
   }
 
+  /**
+   * _getScoreHistory(user: User, region: Region): ScoreEntry[]
+   *
+   * Query: Retrieves every score given to a region, oldest first.
+   * requires: The region must exist and be owned by the user.
+   * effects: Returns the region's score history. A score carried from an earlier map was not given on this one
+   *          and is not part of it, and regions scored before history was kept return their latest score
+   *          without a timestamp.
+   */
+  async _getScoreHistory(
+    { user, region }: { user: User; region: Region },
+  ): Promise<ScoreEntry[] | { error: string }> {
+    const existingRegion = await this.validateRegionOwnership(user, region);
+    if (!existingRegion) {
+      return {
+        error: `Region '${region}' not found or not owned by user '${user}'.`,
+      };
+    }
+    return existingRegion.scores ?? this.legacyScores(existingRegion);
+  }
+
   /**
    * _getRegionsForMap(user: User, map: Map): BodyRegion[]
    *
@@ -266,6 +814,136 @@ export default class PainLocationScoringConcept {
     }
   }
 
+  /**
+   * _getMapDigests(user: User, maps: Map[]): MapDigest[]
+   *
+   * Query: Retrieves how many regions are marked on each of a user's maps and their highest score.
+   * requires: true
+   * effects: Returns a digest for each given Map, in the order given. Maps the user does not own, or that are
+   *          not tracked, are reported with no regions and a maxScore of null.
+   */
+  async _getMapDigests(
+    { user, maps }: { user: User; maps: Map[] },
+  ): Promise<MapDigest[] | { error: string }> {
+    try {
+      const owned = await this.bodyMaps
+        .find({ _id: { $in: maps ?? [] }, userId: user })
+        .toArray();
+      const digests = await this.regions
+        .aggregate<{ _id: Map; regionCount: number; maxScore: number | null }>([
+          { $match: { mapId: { $in: owned.map((m) => m._id) } } },
+          {
+            $group: {
+              _id: "$mapId",
+              regionCount: { $sum: 1 },
+              maxScore: { $max: "$score" },
+            },
+          },
+        ])
+        .toArray();
+      const byMap = new Map(digests.map((d) => [d._id, d]));
+      return (maps ?? []).map((map) => ({
+        map,
+        regionCount: byMap.get(map)?.regionCount ?? 0,
+        maxScore: byMap.get(map)?.maxScore ?? null,
+      }));
+    } catch (e) {
+      console.error("Error fetching map digests:", e);
+      return {
+        error: "Failed to retrieve map digests due to a database error.",
+      };
+    }
+  }
+
+  /**
+   * _getRegionAt(user: User, map: Map, view: String, x: Number, y: Number): BodyRegion[]
+   *
+   * Query: Finds the placed region at a tapped point of a map, so that tapping a marker opens it.
+   * requires: The map must exist and be owned by the user.
+   * effects: Returns the last-added region on that view whose drawing contains the point or, failing that,
+   *          the region whose marker is nearest the point within a tap's reach; an empty array if there is none.
+   *          x and y are normalized map coordinates.
+   */
+  async _getRegionAt(
+    { user, map, view, x, y }: {
+      user: User;
+      map: Map;
+      view: string;
+      x: number;
+      y: number;
+    },
+  ): Promise<BodyRegion[] | { error: string }> {
+    const existingMap = await this.validateMapOwnership(user, map);
+    if (!existingMap) {
+      return {
+        error:
+          `Map '${map}' not found for user '${user}' or user does not own it.`,
+      };
+    }
+
+    try {
+      const placed = await this.regions
+        .find({ mapId: map, "placement.view": view as ViewName })
+        .toArray();
+      const tap: Point = [x, y];
+
+      const drawnAround = placed.filter((r) =>
+        r.placement?.polygon && polygonContains(r.placement.polygon, tap)
+      );
+      if (drawnAround.length > 0) {
+        return [drawnAround[drawnAround.length - 1]];
+      }
+
+      let nearest: BodyRegion | null = null;
+      let nearestDistance = TAP_RADIUS;
+      for (const region of placed) {
+        const [px, py] = region.placement!.point;
+        const distance = Math.hypot(px - x, py - y);
+        if (distance <= nearestDistance) {
+          nearest = region;
+          nearestDistance = distance;
+        }
+      }
+      return nearest ? [nearest] : [];
+    } catch (e) {
+      console.error("Error finding region at point:", e);
+      return { error: "Failed to find region due to a database error." };
+    }
+  }
+
+  /**
+   * _getRegionTaxonomy(): RegionDefinition[]
+   *
+   * Query: Retrieves every region a Region can be added as, with its code, canonical name,
+   * laterality, parent region and synonyms.
+   * requires: true
+   * effects: Returns the region taxonomy, midline regions first.
+   */
+  _getRegionTaxonomy(): RegionDefinition[] {
+    return REGION_TAXONOMY;
+  }
+
+  /**
+   * _getPainVocabulary(): { qualities, onsets, patterns, maxDurationMinutes }[]
+   *
+   * Query: Retrieves the words a Region's description can use.
+   * requires: true
+   * effects: Returns a single entry listing the pain qualities, onsets and patterns, and the longest duration.
+   */
+  _getPainVocabulary(): {
+    qualities: readonly string[];
+    onsets: readonly string[];
+    patterns: readonly string[];
+    maxDurationMinutes: number;
+  }[] {
+    return [{
+      qualities: PAIN_QUALITIES,
+      onsets: PAIN_ONSETS,
+      patterns: PAIN_PATTERNS,
+      maxDurationMinutes: MAX_DURATION_MINUTES,
+    }];
+  }
+
   /**
    * _addMapForTesting(user: User, map: Map): Empty
    *
@@ -298,18 +976,18 @@ export default class PainLocationScoringConcept {
     { user, map }: { user: User; map: Map },
   ): Promise<Empty | { error: string }> {
     try {
-      // Precondition check: ensure the map is not already tracked.
-      const alreadyTracked = await this.bodyMaps.findOne({ _id: map });
-      if (alreadyTracked) {
-        // If it's already tracked for the same user, it's idempotent. Otherwise, it's an error.
-        if (String(alreadyTracked.userId) !== String(user)) {
-          return { error: `Map '${map}' is already tracked by another user.` };
-        }
-        return {}; // Already tracked for this user, do nothing.
-      }
+      // Store the new map ownership information, unless the map is already tracked. Syncs may track
+      // the same map at once (e.g. on generation and when carrying regions forward), so this is one upsert.
+      const tracked = await this.bodyMaps.findOneAndUpdate(
+        { _id: map },
+        { $setOnInsert: { userId: user } },
+        { upsert: true, returnDocument: "after" },
+      );
 
-      // Store the new map ownership information.
-      await this.bodyMaps.insertOne({ _id: map, userId: user });
+      // Precondition check: tracking again for the same user is idempotent; for another user, an error.
+      if (tracked && String(tracked.userId) !== String(user)) {
+        return { error: `Map '${map}' is already tracked by another user.` };
+      }
       return {};
     } catch (e) {
       if (e instanceof Error) {
@@ -324,4 +1002,121 @@ export default class PainLocationScoringConcept {
       }
     }
   }
+
+  /**
+   * carryForward(user: User, from: Map, to: Map, withScores: Boolean): { regions: Region[] }
+   *
+   * requires: the from Map must exist for the given User, and the to Map must not be tracked for another user
+   * effects: tracks the to Map for the User if it is not already, then adds a Region to it for each Region name
+   *          on the from Map that it does not already have, placed where it was on the from Map. With withScores, each new Region also takes the
+   *          score and description from the from Map, the score marked as carried until the User scores it again.
+   *          Returns the new Regions. This action is intended to be called by a synchronization when
+   *          an external concept (e.g., BodyMapGeneration) starts a map that should be prefilled from an earlier one.
+   */
+  async carryForward(
+    { user, from, to, withScores }: {
+      user: User;
+      from: Map;
+      to: Map;
+      withScores: boolean;
+    },
+  ): Promise<{ regions: Region[] } | { error: string }> {
+    const existingMap = await this.validateMapOwnership(user, from);
+    if (!existingMap) {
+      return {
+        error:
+          `Map '${from}' not found for user '${user}' or user does not own it.`,
+      };
+    }
+
+    try {
+      const tracked = await this.trackMap({ user, map: to });
+      if ("error" in tracked) {
+        return { error: tracked.error as string };
+      }
+
+      const sourceRegions = await this.regions.find({ mapId: from }).toArray();
+      const existingNames = new Set(
+        (await this.regions.find({ mapId: to }).toArray()).map((r) => r.name),
+      );
+      const newRegions: BodyRegion[] = [];
+      for (const source of sourceRegions) {
+        if (existingNames.has(source.name)) continue;
+        existingNames.add(source.name);
+        const region: BodyRegion = {
+          _id: freshID(),
+          mapId: to,
+          name: source.name,
+        };
+        if (source.code !== undefined) region.code = source.code;
+        if (source.placement !== undefined) {
+          region.placement = source.placement;
+        }
+        if (withScores && source.score !== undefined) {
+          region.score = source.score;
+          region.carried = true;
+        }
+        if (withScores && source.description !== undefined) {
+          region.description = source.description;
+        }
+        newRegions.push(region);
+      }
+
+      if (newRegions.length > 0) {
+        await this.regions.insertMany(newRegions);
+      }
+      return { regions: newRegions.map((r) => r._id) };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error carrying regions from '${from}' to '${to}':`, e);
+        return { error: `Failed to carry regions forward: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error carrying regions from '${from}' to '${to}':`,
+          e,
+        );
+        return {
+          error: "Failed to carry regions forward due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * untrackMaps(maps: Map[]): { removed: { bodyMaps: Number, regions: Number } }
+   *
+   * requires: true
+   * effects: permanently deletes the given Maps and every Region on them, whether or not they were tracked,
+   *          and returns how many records were removed from each set. This action is intended to be called
+   *          by a synchronization when an external concept (e.g., BodyMapGeneration) permanently deletes maps.
+   */
+  async untrackMaps(
+    { maps }: { maps: Map[] },
+  ): Promise<
+    { removed: { bodyMaps: number; regions: number } } | { error: string }
+  > {
+    try {
+      const regionsResult = await this.regions.deleteMany({
+        mapId: { $in: maps },
+      });
+      const bodyMapsResult = await this.bodyMaps.deleteMany({
+        _id: { $in: maps },
+      });
+
+      return {
+        removed: {
+          bodyMaps: bodyMapsResult.deletedCount,
+          regions: regionsResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error("Error untracking maps:", e);
+        return { error: `Failed to untrack maps: ${e.message}` };
+      } else {
+        console.error("Unknown error untracking maps:", e);
+        return { error: "Failed to untrack maps due to an unknown error" };
+      }
+    }
+  }
 }
@@ -0,0 +1,123 @@
+/**
+ * The words a region's pain can be described with, beyond its score: what it feels like,
+ * when in the day it starts, how long it lasts and whether it lets up.
+ */
+
+export const PAIN_QUALITIES = [
+  "burning",
+  "stabbing",
+  "aching",
+  "throbbing",
+  "tingling",
+] as const;
+export type PainQuality = typeof PAIN_QUALITIES[number];
+
+export const PAIN_ONSETS = [
+  "morning",
+  "afternoon",
+  "evening",
+  "night",
+] as const;
+export type PainOnset = typeof PAIN_ONSETS[number];
+
+export const PAIN_PATTERNS = ["constant", "intermittent"] as const;
+export type PainPattern = typeof PAIN_PATTERNS[number];
+
+// The longest duration a description can give: one day
+export const MAX_DURATION_MINUTES = 24 * 60;
+
+/**
+ * How the pain in a region is described.
+ *   qualities: PainQuality[] (what it feels like, in vocabulary order, no repeats)
+ *   onset?: PainOnset (the time of day it starts)
+ *   durationMinutes?: Number (how long an episode lasts, 1 to MAX_DURATION_MINUTES)
+ *   pattern?: PainPattern (whether it is constant or comes and goes)
+ */
+export interface PainDescription {
+  qualities: PainQuality[];
+  onset?: PainOnset;
+  durationMinutes?: number;
+  pattern?: PainPattern;
+}
+
+/**
+ * Checks a description given by a client and returns it in stored form: qualities are
+ * lowercased, deduplicated and put in vocabulary order, and fields left out stay absent.
+ * @returns the description, or an error naming the first field that is not valid
+ */
+export function normalizeDescription(
+  description: {
+    qualities?: string[];
+    onset?: string;
+    durationMinutes?: number;
+    pattern?: string;
+  },
+): { description: PainDescription } | { error: string } {
+  const qualities = (description.qualities ?? []).map((q) =>
+    String(q).trim().toLowerCase()
+  );
+  for (const quality of qualities) {
+    if (!(PAIN_QUALITIES as readonly string[]).includes(quality)) {
+      return {
+        error: `Unknown pain quality '${quality}'; expected one of ${
+          PAIN_QUALITIES.join(", ")
+        }.`,
+      };
+    }
+  }
+  const normalized: PainDescription = {
+    qualities: PAIN_QUALITIES.filter((q) => qualities.includes(q)),
+  };
+
+  if (description.onset !== undefined && description.onset !== null) {
+    const onset = String(description.onset).trim().toLowerCase();
+    if (!(PAIN_ONSETS as readonly string[]).includes(onset)) {
+      return {
+        error: `Unknown onset '${description.onset}'; expected one of ${
+          PAIN_ONSETS.join(", ")
+        }.`,
+      };
+    }
+    normalized.onset = onset as PainOnset;
+  }
+
+  if (
+    description.durationMinutes !== undefined &&
+    description.durationMinutes !== null
+  ) {
+    const duration = description.durationMinutes;
+    if (
+      !Number.isInteger(duration) || duration < 1 ||
+      duration > MAX_DURATION_MINUTES
+    ) {
+      return {
+        error:
+          `Duration must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}.`,
+      };
+    }
+    normalized.durationMinutes = duration;
+  }
+
+  if (description.pattern !== undefined && description.pattern !== null) {
+    const pattern = String(description.pattern).trim().toLowerCase();
+    if (!(PAIN_PATTERNS as readonly string[]).includes(pattern)) {
+      return {
+        error: `Unknown pattern '${description.pattern}'; expected one of ${
+          PAIN_PATTERNS.join(", ")
+        }.`,
+      };
+    }
+    normalized.pattern = pattern as PainPattern;
+  }
+
+  if (
+    normalized.qualities.length === 0 && normalized.onset === undefined &&
+    normalized.durationMinutes === undefined && normalized.pattern === undefined
+  ) {
+    return {
+      error:
+        "A description needs at least one quality, onset, duration or pattern.",
+    };
+  }
+  return { description: normalized };
+}
@@ -0,0 +1,183 @@
+/**
+ * The body regions a map can be marked with. Each region has a stable code, a canonical name
+ * (the name templates and stored regions use), a side, the region it lies within, and synonyms
+ * that people commonly write instead of its name.
+ */
+
+/**
+ * The side of the body a region is on. Midline regions are not paired.
+ */
+export const LATERALITIES = ["left", "right", "midline"] as const;
+export type Laterality = typeof LATERALITIES[number];
+
+/**
+ * One region in the taxonomy.
+ *   code: String (stable identifier, e.g. "left-knee"; never reused for another region)
+ *   name: String (canonical name, e.g. "left knee")
+ *   laterality: "left" | "right" | "midline"
+ *   parent: String | null (the code of the region this one lies within, e.g. "left-leg")
+ *   synonyms: String[] (other names that resolve to this region, without the side)
+ */
+export interface RegionDefinition {
+  code: string;
+  name: string;
+  laterality: Laterality;
+  parent: string | null;
+  synonyms: string[];
+}
+
+// A region before it is placed on a side: its name, synonyms and the region it lies within
+interface BaseRegion {
+  name: string;
+  parent: string | null;
+  synonyms?: string[];
+}
+
+const MIDLINE_REGIONS: BaseRegion[] = [
+  { name: "head", parent: null, synonyms: ["skull", "scalp"] },
+  { name: "forehead", parent: "head", synonyms: ["brow"] },
+  {
+    name: "face",
+    parent: "head",
+    synonyms: ["nose", "cheek", "cheeks", "mouth"],
+  },
+  { name: "jaw", parent: "head", synonyms: ["chin", "tmj"] },
+  { name: "neck", parent: null, synonyms: ["cervical spine", "throat"] },
+  {
+    name: "chest",
+    parent: null,
+    synonyms: ["thorax", "sternum", "breastbone"],
+  },
+  { name: "abdomen", parent: null, synonyms: ["belly", "stomach", "tummy"] },
+  {
+    name: "upper back",
+    parent: null,
+    synonyms: ["thoracic spine", "mid back", "middle back"],
+  },
+  {
+    name: "lower back",
+    parent: null,
+    synonyms: ["lumbar", "lumbar spine", "lower spine"],
+  },
+  { name: "pelvis", parent: null, synonyms: ["groin"] },
+  { name: "buttocks", parent: null, synonyms: ["buttock", "glutes", "bottom"] },
+];
+
+// Regions found on both sides of the body; parents are given without the side
+const LATERAL_REGIONS: BaseRegion[] = [
+  { name: "arm", parent: null },
+  { name: "shoulder", parent: "arm" },
+  {
+    name: "upper arm",
+    parent: "arm",
+    synonyms: ["bicep", "biceps", "tricep", "triceps"],
+  },
+  { name: "elbow", parent: "arm" },
+  { name: "forearm", parent: "arm" },
+  { name: "wrist", parent: "arm" },
+  { name: "hand", parent: "arm", synonyms: ["palm", "fingers", "thumb"] },
+  { name: "leg", parent: null },
+  { name: "hip", parent: "leg" },
+  {
+    name: "thigh",
+    parent: "leg",
+    synonyms: ["quad", "quads", "hamstring", "hamstrings"],
+  },
+  { name: "knee", parent: "leg", synonyms: ["kneecap"] },
+  { name: "lower leg", parent: "leg" },
+  { name: "shin", parent: "lower leg" },
+  { name: "calf", parent: "lower leg" },
+  { name: "ankle", parent: "leg" },
+  { name: "foot", parent: "leg", synonyms: ["heel", "toes", "sole"] },
+];
+
+// Words that name a side, as written before or after a region name
+const SIDE_WORDS: Record<string, "left" | "right"> = {
+  left: "left",
+  l: "left",
+  lt: "left",
+  right: "right",
+  r: "right",
+  rt: "right",
+};
+
+function toCode(name: string): string {
+  return name.replace(/ /g, "-");
+}
+
+/**
+ * Every region in the taxonomy, midline regions first, then the left and right of each paired region.
+ */
+export const REGION_TAXONOMY: RegionDefinition[] = [
+  ...MIDLINE_REGIONS.map((region): RegionDefinition => ({
+    code: toCode(region.name),
+    name: region.name,
+    laterality: "midline",
+    parent: region.parent && toCode(region.parent),
+    synonyms: region.synonyms ?? [],
+  })),
+  ...(["left", "right"] as const).flatMap((side) =>
+    LATERAL_REGIONS.map((region): RegionDefinition => ({
+      code: toCode(`${side} ${region.name}`),
+      name: `${side} ${region.name}`,
+      laterality: side,
+      parent: region.parent && toCode(`${side} ${region.parent}`),
+      synonyms: region.synonyms ?? [],
+    }))
+  ),
+];
+
+const BY_CODE = new Map(REGION_TAXONOMY.map((r) => [r.code, r]));
+
+// Each region under its side and every name it goes by, e.g. "left|kneecap"
+const BY_SIDE_AND_NAME = new Map<string, RegionDefinition>();
+for (const region of REGION_TAXONOMY) {
+  const side = region.laterality;
+  const baseName = side === "midline"
+    ? region.name
+    : region.name.slice(side.length + 1);
+  for (const name of [baseName, ...region.synonyms]) {
+    BY_SIDE_AND_NAME.set(`${side}|${name}`, region);
+  }
+}
+
+/**
+ * Returns the region with the given code, or null if there is none.
+ */
+export function regionByCode(code: string): RegionDefinition | null {
+  return BY_CODE.get(code) ?? null;
+}
+
+/**
+ * Resolves a region as a person might write it to its definition. Case, punctuation and spacing
+ * are ignored, the side may come first or last and be abbreviated, and synonyms are accepted,
+ * so "Left Knee", "left-knee", "L knee" and "kneecap (left)" all resolve to the left knee.
+ * @returns the region, or null if the input names no region or leaves out the side of a paired one
+ */
+export function resolveRegion(input: string): RegionDefinition | null {
+  const words = input.toLowerCase().replace(/[^a-z]+/g, " ").trim().split(" ")
+    .filter((word) => word !== "" && word !== "the" && word !== "side");
+  if (words.length === 0) return null;
+
+  let side: Laterality = "midline";
+  if (words.length > 1 && SIDE_WORDS[words[0]]) {
+    side = SIDE_WORDS[words.shift() as string];
+  } else if (words.length > 1 && SIDE_WORDS[words[words.length - 1]]) {
+    side = SIDE_WORDS[words.pop() as string];
+  }
+  return BY_SIDE_AND_NAME.get(`${side}|${words.join(" ")}`) ?? null;
+}
+
+/**
+ * Returns the codes of a region and every region within it, at any depth.
+ * Rolling a summary up to "left-leg", for example, also counts the left knee, shin and foot.
+ */
+export function regionCodesWithin(code: string): string[] {
+  const codes = [code];
+  for (let i = 0; i < codes.length; i++) {
+    for (const region of REGION_TAXONOMY) {
+      if (region.parent === codes[i]) codes.push(region.code);
+    }
+  }
+  return codes;
+}
@@ -1,8 +1,11 @@
-import { Hono } from "jsr:@hono/hono";
+import { type Context, Hono } from "jsr:@hono/hono";
 import { cors } from "jsr:@hono/hono/cors";
 import { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
+import { sha256Base64Url } from "@utils/crypto.ts";
+import { redact } from "@utils/redact.ts";
+import { verifyToken } from "@utils/tokens.ts";
 import { exclusions, inclusions } from "./passthrough.ts";
 import "jsr:@std/dotenv/load";
 
@@ -14,6 +17,8 @@ import "jsr:@std/dotenv/load";
  * - REQUESTING_BASE_URL: the base URL prefix for api requests, default "/api"
  * - REQUESTING_TIMEOUT: the timeout for requests, default 10000ms
  * - REQUESTING_SAVE_RESPONSES: whether to persist responses or not, default true
+ * - REQUESTING_TRUST_PROXY: whether to take the client address from the last X-Forwarded-For hop,
+ *   for deployments behind exactly one reverse proxy, default false
  */
 const PORT = parseInt(Deno.env.get("PORT") ?? "8000", 10);
 const REQUESTING_BASE_URL = Deno.env.get("REQUESTING_BASE_URL") ?? "/api";
@@ -30,6 +35,10 @@ const REQUESTING_ALLOWED_DOMAIN = Deno.env.get("REQUESTING_ALLOWED_DOMAIN") ??
 const REQUESTING_SAVE_RESPONSES = Deno.env.get("REQUESTING_SAVE_RESPONSES") ??
   true;
 
+// Only trust X-Forwarded-For when deployed behind a proxy that sets it
+const REQUESTING_TRUST_PROXY =
+  Deno.env.get("REQUESTING_TRUST_PROXY") === "true";
+
 const PREFIX = "Requesting" + ".";
 
 // --- Type Definitions ---
@@ -38,15 +47,20 @@ type Request = ID;
 /**
  * a set of Requests with
  *   an input unknown
+ *   an optional session String (SHA-256 of the session the request was made with)
  *   an optional response unknown
  */
 interface RequestDoc {
   _id: Request;
   input: { path: string; [key: string]: unknown };
+  session?: string;
   response?: unknown;
   createdAt: Date;
 }
 
+// Matches usernames regardless of case, as users may type them either way
+const USERNAME_COLLATION = { locale: "en", strength: 2 };
+
 /**
  * Represents an in-flight request waiting for a response.
  * This state is not persisted and lives only in memory.
@@ -80,7 +94,9 @@ export default class RequestingConcept {
    *
    * **requires** true
    *
-   * **effects** creates a new Request `r`; sets the input of `r` to be the path and all other input parameters; returns `r` as `request`
+   * **effects** creates a new Request `r`; sets the input of `r` to be the path and all other input parameters,
+   * and records a hash of its session, if any, so the request can be traced to its user once the
+   * session itself is redacted; returns `r` as `request`
    */
   async request(
     inputs: { path: string; [key: string]: unknown },
@@ -88,11 +104,14 @@ export default class RequestingConcept {
     const requestId = freshID() as Request;
     const requestDoc: RequestDoc = {
       _id: requestId,
-      input: inputs,
+      input: redact(inputs),
       createdAt: new Date(),
     };
+    if (typeof inputs.session === "string") {
+      requestDoc.session = await sha256Base64Url(inputs.session);
+    }
 
-    // Persist the request for logging/auditing purposes.
+    // Persist the request for logging/auditing purposes, without credentials.
     await this.requests.insertOne(requestDoc);
 
     // Create an in-memory pending request to manage the async response.
@@ -124,14 +143,58 @@ export default class RequestingConcept {
       pendingRequest.resolve(response);
     }
 
-    // Update the persisted request document with the response.
+    // Update the persisted request document with the response, without credentials.
     if (REQUESTING_SAVE_RESPONSES) {
-      await this.requests.updateOne({ _id: request }, { $set: { response } });
+      await this.requests.updateOne({ _id: request }, {
+        $set: { response: redact(response) },
+      });
     }
 
     return { request };
   }
 
+  /**
+   * eraseUser (user: User, username: String, sessions: Session[]): (removed: { requests: Number })
+   *
+   * **requires** true
+   *
+   * **effects** deletes every persisted Request that can be traced to the given user: those whose
+   * input or response names the user, those made with any of the user's sessions, and those that
+   * gave the user's username (e.g. failed logins), ignoring case. Returns how many were removed.
+   * In-flight requests still receive their responses.
+   */
+  async eraseUser(
+    { user, username, sessions }: {
+      user: ID;
+      username: string;
+      sessions: ID[];
+    },
+  ): Promise<{ removed: { requests: number } } | { error: string }> {
+    try {
+      const sessionHashes = await Promise.all(sessions.map(sha256Base64Url));
+      const result = await this.requests.deleteMany(
+        {
+          $or: [
+            { "input.user": user },
+            { "response.user": user },
+            { session: { $in: sessionHashes } },
+            { "input.username": username },
+          ],
+        },
+        { collation: USERNAME_COLLATION },
+      );
+      return { removed: { requests: result.deletedCount } };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error erasing requests for user ${user}:`, e);
+        return { error: `Failed to erase requests: ${e.message}` };
+      } else {
+        console.error(`Unknown error erasing requests for user ${user}:`, e);
+        return { error: "Failed to erase requests due to an unknown error" };
+      }
+    }
+  }
+
   /**
    * _awaitResponse (request: Request): (response: unknown)
    *
@@ -150,7 +213,7 @@ export default class RequestingConcept {
       );
     }
 
-    let timeoutId: number;
+    let timeoutId: ReturnType<typeof setTimeout>;
     const timeoutPromise = new Promise<never>((_, reject) => {
       timeoutId = setTimeout(
         () =>
@@ -226,7 +289,7 @@ export function startRequestingServer(
         ? `  -> ${route}`
         : `WARNING - UNVERIFIED ROUTE: ${route}`;
 
-      app.post(route, async (c) => {
+      app.post(route, async (c: Context) => {
         try {
           const body = await c.req.json().catch(() => ({})); // Handle empty body
           const result = await concept[method](body);
@@ -249,10 +312,25 @@ export function startRequestingServer(
    *
    * Captures all POST routes under the base URL.
    * The specific action path is extracted from the URL.
+   *
+   * Requests may authenticate with an `Authorization: Bearer <token>` header.
+   * The verified `user` and `session` are injected into the request input, and a
+   * request that also sends a `session` in its body is rejected; a `user` in the
+   * body is dropped on these routes.
+   * Without a token, a `session` in the body is still accepted: clients that predate
+   * tokens send it there, and the syncs validate it exactly as they validate one taken
+   * from a token, so it grants nothing a token would not.
+   * The caller's network address and user agent are likewise injected as
+   * `client` and `userAgent`.
+   *
+   * Note: Passthrough routes (above) call the concept with the body exactly as sent,
+   * so any `user` there is the caller's claim. This is why only queries that hold no
+   * user data are included in passthrough.ts; everything acting for a user comes
+   * through here and takes the user from a validated session.
    */
 
   const routePath = `${REQUESTING_BASE_URL}/*`;
-  app.post(routePath, async (c) => {
+  app.post(routePath, async (c: Context) => {
     try {
       const body = await c.req.json();
       if (typeof body !== "object" || body === null) {
@@ -262,13 +340,59 @@ export function startRequestingServer(
         );
       }
 
+      // Verify the bearer token, if one was sent, before doing anything else.
+      let identity: { user?: ID; session?: ID } = {};
+      const authorization = c.req.header("Authorization");
+      if (authorization !== undefined) {
+        const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+        const claims = match ? await verifyToken(match[1]) : null;
+        if (!claims) {
+          return c.json(
+            { error: "Invalid or expired authorization token." },
+            401,
+          );
+        }
+        identity = { user: claims.user, session: claims.session };
+        // A body `session` next to a token would leave two candidate sessions, and which one the
+        // syncs validate would depend on the merge order below, so such requests are refused.
+        if ("session" in body) {
+          return c.json(
+            {
+              error:
+                "Send the session either as a bearer token or in the body, not both.",
+            },
+            400,
+          );
+        }
+      }
+
+      // Identify the caller's network address, e.g. for login throttling. Only the right-most
+      // X-Forwarded-For hop is taken: it is the one our proxy appended, while anything to its
+      // left was sent by the caller and could be anything.
+      const forwardedFor = REQUESTING_TRUST_PROXY
+        ? c.req.header("X-Forwarded-For")?.split(",").at(-1)?.trim()
+        : undefined;
+      const client: string = forwardedFor || c.env?.remoteAddr?.hostname ||
+        "unknown";
+      const userAgent: string = c.req.header("User-Agent") ?? "unknown";
+
       // Extract the specific action path from the request URL.
       // e.g., if base is /api and request is /api/users/create, path is /users/create
       const actionPath = c.req.path.substring(REQUESTING_BASE_URL.length);
 
-      // Combine the path from the URL with the JSON body to form the action's input.
+      // Combine the path from the URL with the JSON body, the verified identity
+      // and the client details to form the action's input.
+      const {
+        user: _untrustedUser,
+        client: _untrustedClient,
+        userAgent: _untrustedUserAgent,
+        ...fields
+      } = body;
       const inputs = {
-        ...body,
+        ...fields,
+        ...identity,
+        client,
+        userAgent,
         path: actionPath,
       };
 
@@ -283,7 +407,7 @@ export function startRequestingServer(
 
       // 3. Send the response back to the client.
       const { response } = responseArray[0];
-      console.log(`[Requesting] Sending response for path ${actionPath}:`, JSON.stringify(response));
+      console.log(`[Requesting] Sending response for path ${actionPath}:`, JSON.stringify(redact(response)));
       return c.json(response);
     } catch (e) {
       if (e instanceof Error) {
@@ -25,28 +25,15 @@
  */
 
 export const inclusions: Record<string, string> = {
-  // BodyMapGeneration - User actions (validate ownership via user parameter)
-  "/api/BodyMapGeneration/saveMap": "user action that validates ownership - only saves the user's own current map",
-  "/api/BodyMapGeneration/clearMap": "user action that validates ownership - only clears the user's own current map",
-  // BodyMapGeneration - Query methods (validate ownership via user parameter)
-  "/api/BodyMapGeneration/_getCurrentMap": "query that validates ownership - only returns the user's own current map",
-  "/api/BodyMapGeneration/_getSavedMaps": "query that validates ownership - only returns the user's own saved maps",
+  // BodyMapGeneration - Public query methods (no user data)
+  "/api/BodyMapGeneration/_getTemplate": "query that returns template geometry - templates are shared and hold no user data",
   
-  // MapSummaryGeneration - Query methods (validate ownership via user parameter in summary queries)
-  "/api/MapSummaryGeneration/_getSummary": "query that validates ownership - only returns summaries owned by the user",
-  "/api/MapSummaryGeneration/_getUserSummaries": "query that validates ownership - only returns summaries for the specified user",
+  // PainLocationScoring - Public query methods (no user data)
+  "/api/PainLocationScoring/_getRegionTaxonomy": "query that returns the fixed region vocabulary - contains no user data",
+  "/api/PainLocationScoring/_getPainVocabulary": "query that returns the fixed pain descriptor vocabulary - contains no user data",
   
-  // PainLocationScoring - User actions (validate ownership via validateMapOwnership/validateRegionOwnership)
-  "/api/PainLocationScoring/addRegion": "user action that validates map ownership - only adds regions to user's own maps",
-  "/api/PainLocationScoring/scoreRegion": "user action that validates region ownership - only scores regions on user's own maps",
-  "/api/PainLocationScoring/deleteRegion": "user action that validates region ownership - only deletes regions from user's own maps",
-  // PainLocationScoring - Query methods (validate ownership via validateMapOwnership/validateRegionOwnership)
-  "/api/PainLocationScoring/_getRegion": "query that validates region ownership - only returns regions owned by the user",
-  "/api/PainLocationScoring/_getRegionsForMap": "query that validates map ownership - only returns regions for user's own maps",
-  
-  // UserAuthentication - Query methods (exposed for frontend to check user/session state)
-  "/api/UserAuthentication/_getUser": "query that returns user state by username - used by frontend for auth state checks",
-  "/api/UserAuthentication/_getSession": "query that returns session state by session ID - used by frontend for session validation",
+  // UserAuthentication - Query methods (exposed for frontend to check session state)
+  "/api/UserAuthentication/_getSession": "query that returns session state by session ID - only answers a caller who already holds the session",
 };
 
 /**
@@ -62,26 +49,117 @@ export const inclusions: Record<string, string> = {
 export const exclusions: Array<string> = [
   // BodyMapGeneration - System/backend actions (handled by syncs)
   "/api/BodyMapGeneration/triggerDailyMapGeneration", // System action - should be run by cron/scheduled task, not by users
+  "/api/BodyMapGeneration/generateBatch", // Private helper method, not exposed - one batch of the scheduled daily generation
   "/api/BodyMapGeneration/generateMap", // Maps should be auto-generated by backend/syncs (e.g., on user registration), not manually by users
+  "/api/BodyMapGeneration/eraseUser", // Internal sync method - called by syncs when an account is deleted
+  "/api/BodyMapGeneration/saveMap", // Should go through Requesting concept (/map/save) with session validation - the user is the session's user
+  "/api/BodyMapGeneration/clearMap", // Should go through Requesting concept (/map/clear) with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getCurrentMap", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getMap", // Internal sync query - checks who owns a map for other concepts' routes
+  "/api/BodyMapGeneration/_getMapTemplate", // Internal sync query - looks up a map's template for PainLocationScoring placements
+  "/api/BodyMapGeneration/_getSavedMaps", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getMapsInRange", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getMapForDate", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getTrashedMaps", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/_getCarryForwardSource", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/BodyMapGeneration/setTimezone", // Should go through Requesting concept with session validation
+  "/api/BodyMapGeneration/replaceCurrentMap", // Private helper method, not exposed
+  "/api/BodyMapGeneration/registerTemplate", // Admin action - templates are registered by deployment scripts, not by users
+  "/api/BodyMapGeneration/latestTemplate", // Private helper method, not exposed
+  "/api/BodyMapGeneration/renderMap", // Should go through Requesting concept with session validation
+  "/api/BodyMapGeneration/restoreMap", // Should go through Requesting concept with session validation
+  "/api/BodyMapGeneration/setCarryForward", // Should go through Requesting concept with session validation
+  "/api/BodyMapGeneration/previousMaps", // Private helper method, not exposed
+  "/api/BodyMapGeneration/purgeTrash", // System action - run by the scheduler to permanently delete expired trashed maps
   
+  // CareTeam - All actions and queries go through Requesting/syncs for session validation, consent checks and access logging
+  "/api/CareTeam/registerClinician", // Should go through Requesting concept with session validation
+  "/api/CareTeam/grantAccess", // Should go through Requesting concept with session validation - the patient is the session's user
+  "/api/CareTeam/revokeAccess", // Should go through Requesting concept with session validation - the patient is the session's user
+  "/api/CareTeam/authorizeAccess", // Internal sync method - gates and logs clinician reads of patient data
+  "/api/CareTeam/eraseUser", // Internal sync method - called by syncs when an account is deleted
+  "/api/CareTeam/findActiveGrant", // Private helper method, not exposed
+  "/api/CareTeam/_getCareTeam", // Should go through Requesting concept with session validation
+  "/api/CareTeam/_getPatients", // Should go through Requesting concept with session validation
+  "/api/CareTeam/_getAccessLog", // Should go through Requesting concept with session validation
+
+  // MapJournal - All actions and queries go through Requesting/syncs for session validation
+  "/api/MapJournal/addEntry", // Should go through Requesting concept with session validation
+  "/api/MapJournal/editEntry", // Should go through Requesting concept with session validation
+  "/api/MapJournal/removeEntry", // Should go through Requesting concept with session validation
+  "/api/MapJournal/addTag", // Should go through Requesting concept with session validation
+  "/api/MapJournal/removeTag", // Should go through Requesting concept with session validation
+  "/api/MapJournal/eraseUser", // Internal sync method - called by syncs when an account is deleted
+  "/api/MapJournal/removeMapEntries", // Internal sync method - called by syncs when trashed maps are purged
+  "/api/MapJournal/checkEntry", // Private helper method, not exposed
+  "/api/MapJournal/_getEntry", // Should go through Requesting concept with session validation
+  "/api/MapJournal/_getEntries", // Internal sync query - attaches entries to the session user's saved maps
+  "/api/MapJournal/_getTags", // Should go through Requesting concept with session validation
+
   // MapSummaryGeneration - Internal calculation methods (should be handled by backend/syncs)
   "/api/MapSummaryGeneration/sumRegion", // Internal calculation step, not a user-facing action - handled by backend/syncs
   "/api/MapSummaryGeneration/summarise", // Internal calculation step, not a user-facing action - handled by backend/syncs
   "/api/MapSummaryGeneration/generateAndStoreSummary", // Should be triggered by backend/sync, not directly by users
   "/api/MapSummaryGeneration/calculateMedian", // Private helper method, not exposed
+  "/api/MapSummaryGeneration/dominantDescriptors", // Private helper method, not exposed
+  "/api/MapSummaryGeneration/dailyScore", // Private helper method, not exposed
+  "/api/MapSummaryGeneration/eraseUser", // Internal sync method - called by syncs when an account is deleted
   // MapSummaryGeneration - PDF exports (should go through Requesting concept with session validation via syncs)
   "/api/MapSummaryGeneration/exportSummaryAsPDF", // Should go through Requesting concept for proper auth/session validation
   "/api/MapSummaryGeneration/exportUserSummariesAsPDF", // Should go through Requesting concept for proper auth/session validation
+  "/api/MapSummaryGeneration/_getSummary", // Should go through Requesting concept with session validation - only the session user's summaries are returned
+  "/api/MapSummaryGeneration/_getUserSummaries", // Should go through Requesting concept with session validation - the user is the session's user
   
   // PainLocationScoring - Private/internal methods (handled by syncs)
   "/api/PainLocationScoring/validateMapOwnership", // Private helper method, not exposed
   "/api/PainLocationScoring/validateRegionOwnership", // Private helper method, not exposed
+  "/api/PainLocationScoring/resolvePlacement", // Private helper method, not exposed
+  "/api/PainLocationScoring/buildRegion", // Private helper method, not exposed
+  "/api/PainLocationScoring/setMapRegions", // Should go through Requesting concept (/map/regions/bulk) with session validation
+  "/api/PainLocationScoring/legacyScores", // Private helper method, not exposed
+  "/api/PainLocationScoring/describeRegion", // Should go through Requesting concept (/region/describe) with session validation
   "/api/PainLocationScoring/_addMapForTesting", // Testing helper, should not be public
   "/api/PainLocationScoring/trackMap", // Internal sync method - called by syncs when maps are generated, not by users
+  "/api/PainLocationScoring/eraseUser", // Internal sync method - called by syncs when an account is deleted
+  "/api/PainLocationScoring/carryForward", // Internal sync method - called by syncs when a new map is prefilled from an earlier one
+  "/api/PainLocationScoring/untrackMaps", // Internal sync method - called by syncs when trashed maps are purged
+  "/api/PainLocationScoring/addRegion", // Should go through Requesting concept (/region/add) with session validation - the user is the session's user
+  "/api/PainLocationScoring/scoreRegion", // Should go through Requesting concept (/region/score) with session validation - the user is the session's user
+  "/api/PainLocationScoring/deleteRegion", // Should go through Requesting concept (/region/delete) with session validation - the user is the session's user
+  "/api/PainLocationScoring/_getRegion", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/PainLocationScoring/_getRegionsForMap", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/PainLocationScoring/_getMapDigests", // Internal sync query - attaches region counts to the session user's map listings
+  "/api/PainLocationScoring/_getScoreHistory", // Should go through Requesting concept with session validation - the user is the session's user
+  "/api/PainLocationScoring/_getRegionAt", // Should go through Requesting concept with session validation - the user is the session's user
   
   // UserAuthentication - All actions should go through Requesting/syncs for proper auth flow, logging, and session validation
   "/api/UserAuthentication/register", // Should go through Requesting concept for logging, auditing, and validation
   "/api/UserAuthentication/login", // Should go through Requesting concept for logging, auditing, and session management
   "/api/UserAuthentication/logout", // Should go through Requesting concept for logging and session management
   "/api/UserAuthentication/getUserMaps", // Should go through Requesting concept with session validation for proper auth flow
+  "/api/UserAuthentication/touchSession", // Internal sync method - refreshes a session's lastSeen on each authenticated request
+  "/api/UserAuthentication/changePassword", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/requestPasswordReset", // Should go through Requesting concept for logging and auditing
+  "/api/UserAuthentication/resetPassword", // Should go through Requesting concept for logging and auditing
+  "/api/UserAuthentication/deleteAccount", // Should go through Requesting concept with session validation and cascading erasure
+  "/api/UserAuthentication/checkPassword", // Private helper method, not exposed
+  "/api/UserAuthentication/expiryFor", // Private helper method, not exposed
+  "/api/UserAuthentication/isExpired", // Private helper method, not exposed
+  "/api/UserAuthentication/unlockUser", // Should go through Requesting concept with session validation and admin check
+  "/api/UserAuthentication/_getLoginAttempts", // Internal query - lockout state is not exposed to clients
+  "/api/UserAuthentication/lockedUntil", // Private helper method, not exposed
+  "/api/UserAuthentication/recordFailure", // Private helper method, not exposed
+  "/api/UserAuthentication/clientKey", // Private helper method, not exposed
+  "/api/UserAuthentication/revokeSession", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/logoutEverywhere", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/_getActiveSessions", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/sessionHandle", // Private helper method, not exposed
+  "/api/UserAuthentication/normalizeLegacyUsernames", // Private helper method, not exposed
+  "/api/UserAuthentication/renameLegacyUsername", // Should go through Requesting concept for logging and auditing
+  "/api/UserAuthentication/enrollTotp", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/confirmTotp", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/disableTotp", // Should go through Requesting concept with session validation
+  "/api/UserAuthentication/verifyTotp", // Should go through Requesting concept for logging and auditing
+  "/api/UserAuthentication/startSession", // Private helper method, not exposed
+  "/api/UserAuthentication/_getUser", // Internal query - would map any username to its user ID
 ];
@@ -8,6 +8,21 @@ import { Db, MongoClient } from "npm:mongodb";
 import { testDb } from "@utils/database.ts";
 import UserAuthenticationConcept from "./UserAuthenticationConcept.ts";
 import { ID } from "@utils/types.ts";
+import { verifyToken } from "@utils/tokens.ts";
+import { Outbox, OutboxMessage } from "./outbox.ts";
+import { fromBase32, toBase32, totp, TotpAlgorithm } from "./totp.ts";
+
+/**
+ * Outbox that keeps sent messages in memory so tests can read reset tokens.
+ */
+class CapturingOutbox implements Outbox {
+  messages: OutboxMessage[] = [];
+
+  send(message: OutboxMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+}
 
 Deno.test("UserAuthentication", async (test) => {
   let client: MongoClient | null = null;
@@ -19,7 +34,7 @@ Deno.test("UserAuthentication", async (test) => {
       const concept = new UserAuthenticationConcept(db);
 
       const testUsername1 = "testuser1_principle";
-      const testPassword1 = "password123";
+      const testPassword1 = "bodymap-pass-123";
       const testUsername2 = "testuser2_principle";
       const testPassword2 = "securepass456";
 
@@ -56,10 +71,26 @@ Deno.test("UserAuthentication", async (test) => {
         testUsername1,
         "User 1 username should match",
       );
+      assert(
+        !("passwordHash" in user1State.user),
+        "_getUser should not expose the password hash",
+      );
+
+      const storedUser1 = await concept.users.findOne({ _id: user1Id });
+      assertExists(storedUser1, "Expected stored user record");
       assertEquals(
-        user1State.user.password,
-        testPassword1,
-        "User 1 password should match",
+        storedUser1.password,
+        undefined,
+        "Plaintext password should not be stored",
+      );
+      assertExists(storedUser1.passwordHash, "Expected a password hash");
+      assert(
+        storedUser1.passwordHash.startsWith("pbkdf2-sha256$"),
+        "Password hash should carry its algorithm tag",
+      );
+      assert(
+        !storedUser1.passwordHash.includes(testPassword1),
+        "Password hash should not contain the plaintext password",
       );
 
       // Action: Register User 2
@@ -241,7 +272,7 @@ Deno.test("UserAuthentication", async (test) => {
         [db, client] = await testDb();
         const concept = new UserAuthenticationConcept(db);
         const username = "duplicate_user_action";
-        const password = "password123";
+        const password = "bodymap-pass-123";
 
         // First registration should succeed
         const registerResult1 = await concept.register({ username, password });
@@ -266,6 +297,44 @@ Deno.test("UserAuthentication", async (test) => {
     },
   );
 
+  await test.step(
+    "Action: Login issues a signed bearer token for the new session",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_token_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const loginResult = await concept.login({ username, password });
+        assert("token" in loginResult);
+        assertExists(loginResult.token, "Expected a token on login");
+
+        const claims = await verifyToken(loginResult.token);
+        assertExists(claims, "Token should verify with the server secret");
+        assertEquals(claims.user, registerResult.user);
+        assertEquals(claims.session, loginResult.session);
+
+        // A tampered token must not verify
+        const [payload, signature] = loginResult.token.split(".");
+        const forged = `${payload}x.${signature}`;
+        assertEquals(await verifyToken(forged), null);
+
+        // Failed logins do not issue a token
+        const failedLogin = await concept.login({
+          username,
+          password: "wrongpassword",
+        });
+        assert("token" in failedLogin);
+        assertEquals(failedLogin.token, null);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
   await test.step(
     "Action: Login with non-existent username returns null session",
     async () => {
@@ -321,6 +390,350 @@ Deno.test("UserAuthentication", async (test) => {
     },
   );
 
+  await test.step(
+    "Action: Legacy usernames that clash once normalized must be renamed",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        // Two records stored before normalization, differing only in case
+        const users = db.collection<{
+          _id: ID;
+          username: string;
+          password: string;
+        }>("UserAuthentication.users");
+        await users.insertMany([
+          {
+            _id: "clash_owner" as ID,
+            username: "testuser_clash",
+            password: "owner-pass-123",
+          },
+          {
+            _id: "clash_legacy" as ID,
+            username: "TestUser_Clash",
+            password: "legacy-pass-123",
+          },
+        ]);
+        const concept = new UserAuthenticationConcept(db);
+
+        // The owner of the normalized username logs in as usual
+        const ownerLogin = await concept.login({
+          username: "testuser_clash",
+          password: "owner-pass-123",
+        });
+        assert("session" in ownerLogin);
+        assertExists(ownerLogin.session);
+
+        // The clashing record is kept, marked, and refused a session until renamed
+        const marked = await concept.users.findOne({ _id: "clash_legacy" as ID });
+        assertEquals(marked?.username, "TestUser_Clash");
+        assertEquals(marked?.needsRename, true);
+        const legacyLogin = await concept.login({
+          username: "TestUser_Clash",
+          password: "legacy-pass-123",
+        });
+        assert("error" in legacyLogin);
+        assert(legacyLogin.error.includes("renameLegacyUsername"));
+
+        // Renaming needs the password and a free username
+        const wrongPassword = await concept.renameLegacyUsername({
+          username: "TestUser_Clash",
+          password: "wrong",
+          newUsername: "testuser_clash_2",
+        });
+        assert("error" in wrongPassword);
+        const taken = await concept.renameLegacyUsername({
+          username: "TestUser_Clash",
+          password: "legacy-pass-123",
+          newUsername: "TESTUSER_CLASH",
+        });
+        assert("error" in taken);
+        assertEquals(taken.violations[0]?.code, "taken");
+        const renamed = await concept.renameLegacyUsername({
+          username: "TestUser_Clash",
+          password: "legacy-pass-123",
+          newUsername: "TestUser_Clash_2",
+        });
+        assert("user" in renamed);
+        assertEquals(renamed.user, "clash_legacy");
+
+        const renamedLogin = await concept.login({
+          username: "testuser_clash_2",
+          password: "legacy-pass-123",
+        });
+        assert("session" in renamedLogin);
+        assertExists(renamedLogin.session);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: Login upgrades a legacy plaintext password to a hash",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const userId = "legacy_user_action" as ID;
+        const username = "testuser_legacy_action";
+        const password = "legacypassword";
+
+        // Simulate a record stored before password hashing was introduced
+        await concept.users.insertOne({ _id: userId, username, password });
+
+        // Wrong password must not trigger the upgrade
+        const wrongResult = await concept.login({
+          username,
+          password: "wrongpassword",
+        });
+        assert("session" in wrongResult);
+        assertEquals(wrongResult.session, null);
+        const stillLegacy = await concept.users.findOne({ _id: userId });
+        assertEquals(
+          stillLegacy?.password,
+          password,
+          "Legacy record should be untouched after a failed login",
+        );
+
+        // Correct password logs in and replaces the plaintext with a hash
+        const loginResult = await concept.login({ username, password });
+        assert("session" in loginResult);
+        assertExists(
+          loginResult.session,
+          "Expected legacy user to log in with their existing password",
+        );
+        const upgraded = await concept.users.findOne({ _id: userId });
+        assertExists(upgraded);
+        assertEquals(
+          upgraded.password,
+          undefined,
+          "Plaintext password should be removed after upgrade",
+        );
+        assertExists(upgraded.passwordHash, "Expected a password hash");
+
+        // The upgraded record still accepts the same password
+        const secondLogin = await concept.login({ username, password });
+        assert("session" in secondLogin);
+        assertExists(secondLogin.session);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: changePassword requires the current password",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_changepw_action";
+        const password = "oldpassword";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const userId = registerResult.user;
+        const keptLogin = await concept.login({ username, password });
+        const otherLogin = await concept.login({ username, password });
+        assert("session" in keptLogin && "session" in otherLogin);
+        assertExists(keptLogin.session);
+        assertExists(otherLogin.session);
+
+        // Wrong current password is rejected
+        const wrongResult = await concept.changePassword({
+          user: userId,
+          oldPassword: "notmypassword",
+          newPassword: "newpassword",
+          session: keptLogin.session,
+        });
+        assert(
+          "error" in wrongResult,
+          "Expected error when the current password is wrong",
+        );
+
+        // Correct current password changes it and ends every other session
+        const changeResult = await concept.changePassword({
+          user: userId,
+          oldPassword: password,
+          newPassword: "newpassword",
+          session: keptLogin.session,
+        });
+        assert(
+          !("error" in changeResult),
+          `Error changing password: ${JSON.stringify(changeResult)}`,
+        );
+        assertEquals(changeResult.revoked, 1);
+        const kept = await concept.sessions.findOne({ _id: keptLogin.session });
+        assertEquals(kept?.active, true, "The changing session should stay");
+        const other = await concept.sessions.findOne({
+          _id: otherLogin.session,
+        });
+        assertEquals(other?.active, false, "Other sessions should end");
+
+        const oldLogin = await concept.login({ username, password });
+        assert("session" in oldLogin);
+        assertEquals(oldLogin.session, null, "Old password should stop working");
+        const newLogin = await concept.login({
+          username,
+          password: "newpassword",
+        });
+        assert("session" in newLogin);
+        assertExists(newLogin.session, "New password should log in");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: resetPassword redeems a single-use token and ends all sessions",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const outbox = new CapturingOutbox();
+        const concept = new UserAuthenticationConcept(db, outbox);
+        const username = "testuser_reset_action";
+        const password = "forgottenpassword";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const loginResult = await concept.login({ username, password });
+        assert("session" in loginResult);
+        assertExists(loginResult.session);
+
+        // Unknown usernames succeed silently and send nothing
+        const unknownResult = await concept.requestPasswordReset({
+          username: "nobody_reset_action",
+        });
+        assert(!("error" in unknownResult));
+        assertEquals(outbox.messages.length, 0);
+
+        const requestResult = await concept.requestPasswordReset({ username });
+        assert(
+          !("error" in requestResult),
+          `Error requesting reset: ${JSON.stringify(requestResult)}`,
+        );
+        assertEquals(outbox.messages.length, 1, "Expected one reset message");
+        assertEquals(outbox.messages[0].to, username);
+        const token = outbox.messages[0].body.match(
+          /code to reset your password: (\S+)/,
+        )?.[1];
+        assertExists(token, "Expected the reset token in the message body");
+
+        // Only a hash of the token is stored
+        const storedToken = await concept.resetTokens.findOne({ _id: token });
+        assertEquals(storedToken, null, "Raw token should not be stored");
+
+        const resetResult = await concept.resetPassword({
+          token,
+          newPassword: "rememberedpassword",
+        });
+        assert(
+          !("error" in resetResult),
+          `Error resetting password: ${JSON.stringify(resetResult)}`,
+        );
+
+        // The existing session was ended by the reset
+        const [sessionAfterReset] = await concept._getSession({
+          session: loginResult.session,
+        });
+        assertEquals(
+          sessionAfterReset.session?.active,
+          false,
+          "Reset should invalidate active sessions",
+        );
+
+        // The new password works and the token cannot be reused
+        const newLogin = await concept.login({
+          username,
+          password: "rememberedpassword",
+        });
+        assert("session" in newLogin);
+        assertExists(newLogin.session);
+        const reuseResult = await concept.resetPassword({
+          token,
+          newPassword: "anotherpassword",
+        });
+        assert("error" in reuseResult, "Expected error when reusing a token");
+
+        // An expired token is rejected
+        await concept.requestPasswordReset({ username });
+        const expiredToken = outbox.messages[1].body.match(
+          /code to reset your password: (\S+)/,
+        )?.[1];
+        assertExists(expiredToken);
+        await concept.resetTokens.updateMany(
+          {},
+          { $set: { expiresAt: new Date(Date.now() - 1000) } },
+        );
+        const expiredResult = await concept.resetPassword({
+          token: expiredToken,
+          newPassword: "anotherpassword",
+        });
+        assert(
+          "error" in expiredResult,
+          "Expected error when using an expired token",
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: deleteAccount requires the password and removes all credentials",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_delete_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const userId = registerResult.user;
+        await concept.login({ username, password });
+        await concept.login({ username, password });
+
+        // Wrong password is rejected and nothing is removed
+        const wrongResult = await concept.deleteAccount({
+          user: userId,
+          password: "wrongpassword",
+        });
+        assert("error" in wrongResult, "Expected error for wrong password");
+        assertExists(await concept.users.findOne({ _id: userId }));
+
+        const deleteResult = await concept.deleteAccount({
+          user: userId,
+          password,
+        });
+        assert(
+          "removed" in deleteResult,
+          `Error deleting account: ${JSON.stringify(deleteResult)}`,
+        );
+        assertEquals(deleteResult.user, userId);
+        assertEquals(deleteResult.removed.users, 1);
+        assertEquals(deleteResult.removed.sessions, 2);
+        // The username and session IDs are returned so other concepts can erase by them
+        assertEquals(deleteResult.username, username);
+        assertEquals(deleteResult.sessions.length, 2);
+
+        assertEquals(await concept.users.findOne({ _id: userId }), null);
+        assertEquals(
+          (await concept.sessions.find({ userId }).toArray()).length,
+          0,
+          "All sessions should be removed",
+        );
+
+        // The username is free to register again
+        const reregister = await concept.register({ username, password });
+        assert("user" in reregister);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
   await test.step(
     "Action: Logout fails if session does not exist",
     async () => {
@@ -351,7 +764,7 @@ Deno.test("UserAuthentication", async (test) => {
         [db, client] = await testDb();
         const concept = new UserAuthenticationConcept(db);
         const username = "testuser_logout_action";
-        const password = "password123";
+        const password = "bodymap-pass-123";
 
         // Register and login
         const registerResult = await concept.register({ username, password });
@@ -384,6 +797,93 @@ Deno.test("UserAuthentication", async (test) => {
     },
   );
 
+  await test.step(
+    "Action: Sessions expire after their idle or absolute deadline",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_expiry_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const userId = registerResult.user;
+        const loginResult = await concept.login({ username, password });
+        assert("session" in loginResult);
+        assertExists(loginResult.session);
+        const sessionId = loginResult.session;
+
+        // A fresh session is live and carries its deadlines
+        const [fresh] = await concept._getSession({ session: sessionId });
+        assertExists(fresh.session);
+        assertEquals(fresh.session.expired, false);
+        assertExists(fresh.session.lastSeen, "Expected lastSeen on login");
+        assertExists(fresh.session.expiresAt, "Expected expiresAt on login");
+
+        // Touching the session slides lastSeen forward
+        const touchResult = await concept.touchSession({ session: sessionId });
+        assert(
+          !("error" in touchResult),
+          `Error touching session: ${JSON.stringify(touchResult)}`,
+        );
+        const [touched] = await concept._getSession({ session: sessionId });
+        assertExists(touched.session?.lastSeen);
+        assert(
+          touched.session.lastSeen >= fresh.session.lastSeen,
+          "lastSeen should move forward when the session is touched",
+        );
+
+        // Simulate a session that has been idle past its deadline
+        const longAgo = new Date(Date.now() - 1000 * 60 * 60 * 24 * 90);
+        await concept.sessions.updateOne(
+          { _id: sessionId },
+          {
+            $set: {
+              startTimestamp: longAgo,
+              lastSeen: longAgo,
+              expiresAt: longAgo,
+            },
+          },
+        );
+
+        const [expired] = await concept._getSession({ session: sessionId });
+        assertExists(expired.session);
+        assertEquals(
+          expired.session.expired,
+          true,
+          "A months-old session should be reported as expired",
+        );
+
+        const touchExpired = await concept.touchSession({ session: sessionId });
+        assert(
+          "error" in touchExpired,
+          "Expected error when touching an expired session",
+        );
+
+        const mapsResult = await concept.getUserMaps({
+          user: userId,
+          session: sessionId,
+        });
+        assert(
+          "error" in mapsResult,
+          "Expected error when getting maps with an expired session",
+        );
+
+        // Sessions created before expiry was tracked fall back to their start time
+        await concept.sessions.updateOne(
+          { _id: sessionId },
+          { $unset: { lastSeen: "", expiresAt: "" } },
+        );
+        const [legacy] = await concept._getSession({ session: sessionId });
+        assertExists(legacy.session);
+        assertEquals(legacy.session.expired, true);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
   await test.step(
     "Action: getUserMaps fails if user does not exist",
     async () => {
@@ -418,7 +918,7 @@ Deno.test("UserAuthentication", async (test) => {
         [db, client] = await testDb();
         const concept = new UserAuthenticationConcept(db);
         const username = "testuser_maps_action";
-        const password = "password123";
+        const password = "bodymap-pass-123";
 
         // Register user
         const registerResult = await concept.register({ username, password });
@@ -477,7 +977,7 @@ Deno.test("UserAuthentication", async (test) => {
         [db, client] = await testDb();
         const concept = new UserAuthenticationConcept(db);
         const username = "testuser_nomaps_action";
-        const password = "password123";
+        const password = "bodymap-pass-123";
 
         // Register and login
         const registerResult = await concept.register({ username, password });
@@ -506,4 +1006,637 @@ Deno.test("UserAuthentication", async (test) => {
       }
     },
   );
+
+  await test.step(
+    "Action: login locks out a username after repeated failures",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_lockout_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+
+        // A failure followed by a success clears the username's counter
+        await concept.login({ username, password: "wrong", client: "10.0.0.1" });
+        let attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 1);
+        const okResult = await concept.login({
+          username,
+          password,
+          client: "10.0.0.1",
+        });
+        assert("session" in okResult);
+        assertExists(okResult.session);
+        attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 0);
+
+        // Five consecutive failures lock the username
+        for (let i = 0; i < 5; i++) {
+          const failResult = await concept.login({
+            username,
+            password: "wrong",
+            client: "10.0.0.2",
+          });
+          assert("session" in failResult);
+          assertEquals(failResult.session, null);
+        }
+        attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 5);
+        assertExists(attempts.attempts.lockedUntil);
+
+        // While locked, even the correct password is refused
+        const lockedResult = await concept.login({
+          username,
+          password,
+          client: "10.0.0.3",
+        });
+        assert(
+          "locked" in lockedResult,
+          "Expected locked response while the username is locked out",
+        );
+        assert(lockedResult.retryAfter.getTime() > Date.now());
+
+        // Unknown usernames are counted as well, so they behave like wrong passwords
+        const unknownResult = await concept.login({
+          username: "no_such_user_lockout",
+          password: "whatever",
+        });
+        assert("session" in unknownResult);
+        assertEquals(unknownResult.session, null);
+        attempts = await concept._getLoginAttempts({
+          username: "no_such_user_lockout",
+        });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 1);
+
+        // Only configured administrators can unlock a username
+        const unlockResult = await concept.unlockUser({
+          admin: registerResult.user,
+          username,
+        });
+        assert(
+          "error" in unlockResult,
+          "Non-administrators should not be able to unlock users",
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: every password check counts towards the lockout",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_lockout_everywhere";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const user = registerResult.user;
+
+        // Concurrent failures are each counted
+        await Promise.all(
+          [1, 2, 3].map(() =>
+            concept.login({ username, password: "wrong", client: "10.0.1.1" })
+          ),
+        );
+        let attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 3);
+
+        // Wrong passwords given to changePassword and deleteAccount count as well
+        const changeResult = await concept.changePassword({
+          user,
+          oldPassword: "wrong",
+          newPassword: "bodymap-pass-456",
+        });
+        assert("error" in changeResult);
+        const deleteResult = await concept.deleteAccount({
+          user,
+          password: "wrong",
+        });
+        assert("error" in deleteResult);
+        attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 5);
+        assertExists(attempts.attempts.lockedUntil);
+
+        // Once locked, neither checks the password at all
+        const lockedChange = await concept.changePassword({
+          user,
+          oldPassword: password,
+          newPassword: "bodymap-pass-456",
+        });
+        assert("error" in lockedChange);
+        assert(lockedChange.error.startsWith("Too many failed attempts"));
+        const lockedDelete = await concept.deleteAccount({ user, password });
+        assert("error" in lockedDelete);
+        assert(lockedDelete.error.startsWith("Too many failed attempts"));
+
+        // Failures from an unknown client address never lock out the clients sharing it
+        const other = "testuser_lockout_unknown_client";
+        const otherResult = await concept.register({
+          username: other,
+          password,
+        });
+        assert("user" in otherResult);
+        for (let i = 0; i < 20; i++) {
+          await concept.login({
+            username: `no_such_user_${i}`,
+            password: "wrong",
+            client: "unknown",
+          });
+        }
+        const unknownClientLogin = await concept.login({
+          username: other,
+          password,
+          client: "unknown",
+        });
+        assert("session" in unknownClientLogin);
+        assertExists(unknownClientLogin.session);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: sessions can be listed per device and revoked remotely",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_devices_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const userId = registerResult.user;
+
+        const phone = await concept.login({
+          username,
+          password,
+          client: "10.0.0.5",
+          userAgent:
+            "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Mobile Safari/537.36",
+        });
+        assert("session" in phone);
+        assertExists(phone.session);
+        const kiosk = await concept.login({
+          username,
+          password,
+          client: "192.168.1.20",
+          userAgent:
+            "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0",
+        });
+        assert("session" in kiosk);
+        assertExists(kiosk.session);
+
+        // Both sessions are listed with their device details, under handles rather than their IDs
+        let listing = await concept._getActiveSessions({
+          user: userId,
+          current: phone.session,
+        });
+        assertEquals(listing.length, 1);
+        assertEquals(listing[0].sessions.length, 2);
+        const phoneView = listing[0].sessions.find((s) => s.current);
+        assertExists(phoneView);
+        assertEquals(phoneView.device, "Chrome on Android");
+        assertEquals(phoneView.client, "10.0.0.5");
+        const kioskView = listing[0].sessions.find((s) => !s.current);
+        assertExists(kioskView);
+        assertEquals(kioskView.device, "Firefox on Windows");
+        assert(
+          !JSON.stringify(listing).includes(kiosk.session),
+          "Session IDs must not be disclosed by the listing",
+        );
+
+        // Another user cannot revoke the kiosk session
+        const otherResult = await concept.register({
+          username: "testuser_devices_other",
+          password,
+        });
+        assert("user" in otherResult);
+        const foreignRevoke = await concept.revokeSession({
+          user: otherResult.user,
+          handle: kioskView.handle,
+        });
+        assert("error" in foreignRevoke);
+
+        // The owner revokes the kiosk session from their phone
+        const revokeResult = await concept.revokeSession({
+          user: userId,
+          handle: kioskView.handle,
+        });
+        assert(!("error" in revokeResult));
+        listing = await concept._getActiveSessions({ user: userId });
+        assertEquals(
+          listing[0].sessions.map((s) => s.handle),
+          [phoneView.handle],
+        );
+        const revokeAgain = await concept.revokeSession({
+          user: userId,
+          handle: kioskView.handle,
+        });
+        assert("error" in revokeAgain);
+
+        // Logging out everywhere ends the remaining sessions
+        await concept.login({ username, password });
+        const everywhereResult = await concept.logoutEverywhere({
+          user: userId,
+        });
+        assert("revoked" in everywhereResult);
+        assertEquals(everywhereResult.revoked, 2);
+        listing = await concept._getActiveSessions({ user: userId });
+        assertEquals(listing[0].sessions.length, 0);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: register normalizes usernames and enforces the password policy",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const password = "bodymap-pass-123";
+
+        // Usernames are stored trimmed, NFKC-normalized and case-folded
+        const registerResult = await concept.register({
+          username: "  Ｐolicy_User ",
+          password,
+        });
+        assert(
+          "user" in registerResult,
+          `Error registering user: ${JSON.stringify(registerResult)}`,
+        );
+        const userState = await concept._getUser({ username: "policy_user" });
+        assert("user" in userState);
+        assertEquals(userState.user?.username, "policy_user");
+
+        // Variants of the same name are rejected as taken, and can log in
+        const variant = await concept.register({
+          username: "POLICY_USER",
+          password,
+        });
+        assert("error" in variant, "Case variants should be rejected");
+        assertEquals(variant.violations.map((v) => v.code), ["taken"]);
+        const loginResult = await concept.login({
+          username: "Policy_User",
+          password,
+        });
+        assert("session" in loginResult);
+        assertExists(loginResult.session);
+
+        // Concurrent registrations of the same name create exactly one user
+        const concurrent = await Promise.all([
+          concept.register({ username: "race_user", password }),
+          concept.register({ username: "Race_User", password }),
+        ]);
+        assertEquals(concurrent.filter((r) => "user" in r).length, 1);
+        assertEquals(
+          await concept.users.countDocuments({ username: "race_user" }),
+          1,
+        );
+
+        // Weak passwords are reported with one violation per problem
+        const weak = await concept.register({
+          username: "weak_user",
+          password: "Password",
+        });
+        assert("error" in weak, "Common passwords should be rejected");
+        assertEquals(weak.violations.map((v) => v.code), ["common"]);
+        const short = await concept.register({
+          username: "short_user",
+          password: "x1",
+        });
+        assert("error" in short);
+        assertEquals(short.violations.map((v) => v.code), ["too_short"]);
+        assertEquals(short.violations[0].field, "password");
+        const same = await concept.register({
+          username: "sameasname",
+          password: "SameAsName",
+        });
+        assert("error" in same);
+        assertEquals(same.violations.map((v) => v.code), ["matches_username"]);
+        const blank = await concept.register({ username: "   ", password });
+        assert("error" in blank);
+        assertEquals(blank.violations.map((v) => v.code), ["required"]);
+
+        // The policy also applies when changing a password
+        assert("user" in registerResult);
+        const changeResult = await concept.changePassword({
+          user: registerResult.user,
+          oldPassword: password,
+          newPassword: "qwerty123",
+        });
+        assert("error" in changeResult, "Policy should apply to new passwords");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step("TOTP codes match the RFC 6238 test vectors", async () => {
+    const encoder = new TextEncoder();
+    // The RFC's seeds are the ASCII digits repeated to each hash's key length
+    const secrets: Record<TotpAlgorithm, Uint8Array<ArrayBuffer>> = {
+      "SHA-1": encoder.encode("12345678901234567890"),
+      "SHA-256": encoder.encode("12345678901234567890123456789012"),
+      "SHA-512": encoder.encode(
+        "1234567890123456789012345678901234567890123456789012345678901234",
+      ),
+    };
+    const vectors: Array<[number, TotpAlgorithm, string]> = [
+      [59, "SHA-1", "94287082"],
+      [59, "SHA-256", "46119246"],
+      [59, "SHA-512", "90693936"],
+      [1111111109, "SHA-1", "07081804"],
+      [1111111109, "SHA-256", "68084774"],
+      [1111111109, "SHA-512", "25091201"],
+      [1111111111, "SHA-1", "14050471"],
+      [1234567890, "SHA-1", "89005924"],
+      [2000000000, "SHA-1", "69279037"],
+      [20000000000, "SHA-1", "65353130"],
+    ];
+    for (const [seconds, algorithm, expected] of vectors) {
+      assertEquals(
+        await totp(secrets[algorithm], new Date(seconds * 1000), {
+          algorithm,
+          digits: 8,
+        }),
+        expected,
+        `T=${seconds} ${algorithm}`,
+      );
+    }
+
+    // Secrets survive the base32 round trip authenticator apps use
+    assertEquals(
+      toBase32(secrets["SHA-1"]),
+      "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ",
+    );
+    assertEquals(
+      fromBase32("gezd gnbv gy3t qojq gezd gnbv gy3t qojq"),
+      secrets["SHA-1"],
+    );
+  });
+
+  await test.step(
+    "Action: TOTP enrolment turns login into a challenge completed by verifyTotp",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_totp_action";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const userId = registerResult.user;
+
+        // 1. Enrol; login is unaffected until the enrolment is confirmed
+        const enrollResult = await concept.enrollTotp({ user: userId });
+        assert(
+          "secret" in enrollResult,
+          `Error enrolling: ${JSON.stringify(enrollResult)}`,
+        );
+        assert(enrollResult.uri.startsWith("otpauth://totp/"));
+        assert(enrollResult.uri.includes(`secret=${enrollResult.secret}`));
+        const secret = fromBase32(enrollResult.secret);
+        const unconfirmedLogin = await concept.login({ username, password });
+        assert("session" in unconfirmedLogin);
+
+        // 2. Confirm with a current code and receive recovery codes
+        const wrongConfirm = await concept.confirmTotp({
+          user: userId,
+          code: "000000",
+        });
+        assert("error" in wrongConfirm);
+        const confirmResult = await concept.confirmTotp({
+          user: userId,
+          code: await totp(secret, new Date()),
+        });
+        assert(
+          "recoveryCodes" in confirmResult,
+          `Error confirming: ${JSON.stringify(confirmResult)}`,
+        );
+        assertEquals(confirmResult.recoveryCodes.length, 10);
+        const stored = await concept.users.findOne({ _id: userId });
+        assert(
+          !stored?.totp?.recoveryCodes.includes(confirmResult.recoveryCodes[0]),
+          "Recovery codes should only be stored hashed",
+        );
+        const publicUser = await concept._getUser({ username });
+        assert("user" in publicUser);
+        assert(!(publicUser.user && "totp" in publicUser.user));
+        const again = await concept.enrollTotp({ user: userId });
+        assert("error" in again, "Confirmed enrolments cannot be replaced");
+
+        // 3. Login now returns a challenge instead of a session
+        const loginResult = await concept.login({
+          username,
+          password,
+          userAgent: "Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0",
+        });
+        assert(
+          "challenge" in loginResult,
+          `Expected a challenge: ${JSON.stringify(loginResult)}`,
+        );
+        const wrongCode = await concept.verifyTotp({
+          challenge: loginResult.challenge,
+          code: "000000",
+        });
+        assert("error" in wrongCode);
+
+        // The confirming code's step is used up, so use the next step's code
+        const nextCode = await totp(secret, new Date(Date.now() + 30_000));
+        const verifyResult = await concept.verifyTotp({
+          challenge: loginResult.challenge,
+          code: nextCode,
+        });
+        assert(
+          "session" in verifyResult,
+          `Error verifying: ${JSON.stringify(verifyResult)}`,
+        );
+        assertEquals(verifyResult.user, userId);
+        assertEquals(verifyResult.username, username);
+        const sessionResult = await concept._getSession({
+          session: verifyResult.session,
+        });
+        assertEquals(sessionResult[0].session?.device, "Firefox on Linux");
+
+        // Challenges are single-use and codes cannot be replayed
+        const reused = await concept.verifyTotp({
+          challenge: loginResult.challenge,
+          code: nextCode,
+        });
+        assert("error" in reused, "Challenges should be single-use");
+        const secondLogin = await concept.login({ username, password });
+        assert("challenge" in secondLogin);
+        const replayed = await concept.verifyTotp({
+          challenge: secondLogin.challenge,
+          code: nextCode,
+        });
+        assert("error" in replayed, "TOTP codes should not be accepted twice");
+
+        // 4. A recovery code completes a login once, in any case or spacing
+        const recoveryCode = confirmResult.recoveryCodes[0];
+        const recovered = await concept.verifyTotp({
+          challenge: secondLogin.challenge,
+          code: recoveryCode.toLowerCase(),
+        });
+        assert(
+          "session" in recovered,
+          `Error using recovery code: ${JSON.stringify(recovered)}`,
+        );
+        const thirdLogin = await concept.login({ username, password });
+        assert("challenge" in thirdLogin);
+        const recoveryReused = await concept.verifyTotp({
+          challenge: thirdLogin.challenge,
+          code: recoveryCode,
+        });
+        assert("error" in recoveryReused, "Recovery codes are single-use");
+
+        // 5. Disabling requires the password and restores password-only login
+        const wrongDisable = await concept.disableTotp({
+          user: userId,
+          password: "wrongpassword",
+        });
+        assert("error" in wrongDisable);
+        const disableResult = await concept.disableTotp({
+          user: userId,
+          password,
+        });
+        assert(!("error" in disableResult));
+        const afterDisable = await concept.verifyTotp({
+          challenge: thirdLogin.challenge,
+          code: confirmResult.recoveryCodes[1],
+        });
+        assert(
+          "error" in afterDisable,
+          "Pending challenges should be discarded",
+        );
+        const plainLogin = await concept.login({ username, password });
+        assert("session" in plainLogin);
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: verifyTotp limits wrong codes per challenge",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_totp_attempts";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const enrollResult = await concept.enrollTotp({
+          user: registerResult.user,
+        });
+        assert("secret" in enrollResult);
+        const secret = fromBase32(enrollResult.secret);
+        await concept.confirmTotp({
+          user: registerResult.user,
+          code: await totp(secret, new Date()),
+        });
+
+        const loginResult = await concept.login({ username, password });
+        assert("challenge" in loginResult);
+        for (let i = 0; i < 5; i++) {
+          await concept.verifyTotp({
+            challenge: loginResult.challenge,
+            code: "000000",
+          });
+        }
+
+        // Even the right code is refused once the attempts are used up
+        const exhausted = await concept.verifyTotp({
+          challenge: loginResult.challenge,
+          code: await totp(secret, new Date(Date.now() + 30_000)),
+        });
+        assert("error" in exhausted, "Exhausted challenges should be refused");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "Action: wrong codes across fresh challenges lock the username out",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const concept = new UserAuthenticationConcept(db);
+        const username = "testuser_totp_lockout";
+        const password = "bodymap-pass-123";
+
+        const registerResult = await concept.register({ username, password });
+        assert("user" in registerResult);
+        const enrollResult = await concept.enrollTotp({
+          user: registerResult.user,
+        });
+        assert("secret" in enrollResult);
+        const secret = fromBase32(enrollResult.secret);
+        await concept.confirmTotp({
+          user: registerResult.user,
+          code: await totp(secret, new Date()),
+        });
+
+        // A challenge issued before the guessing starts, completed afterwards
+        const earlyLogin = await concept.login({ username, password });
+        assert("challenge" in earlyLogin);
+
+        // The right password does not reset the count while the second factor is wrong
+        for (let i = 0; i < 5; i++) {
+          const loginResult = await concept.login({ username, password });
+          assert(
+            "challenge" in loginResult,
+            `Expected a challenge: ${JSON.stringify(loginResult)}`,
+          );
+          const wrongCode = await concept.verifyTotp({
+            challenge: loginResult.challenge,
+            code: "000000",
+          });
+          assert("error" in wrongCode);
+        }
+
+        const attempts = await concept._getLoginAttempts({ username });
+        assert("attempts" in attempts);
+        assertEquals(attempts.attempts.failures, 5);
+        assert(attempts.attempts.lockedUntil !== null);
+
+        const lockedLogin = await concept.login({ username, password });
+        assert(
+          "locked" in lockedLogin,
+          `Expected a lockout: ${JSON.stringify(lockedLogin)}`,
+        );
+        const lockedVerify = await concept.verifyTotp({
+          challenge: earlyLogin.challenge,
+          code: await totp(secret, new Date(Date.now() + 30_000)),
+        });
+        assert(
+          "error" in lockedVerify,
+          "Even the right code is refused while locked out",
+        );
+      } finally {
+        await client?.close();
+      }
+    },
+  );
 });
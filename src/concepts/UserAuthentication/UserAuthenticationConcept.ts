@@ -1,6 +1,146 @@
-import { Collection, Db } from "npm:mongodb";
+import { Collection, Db, MongoServerError } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
+import { signToken } from "@utils/tokens.ts";
+import { randomBytes, sha256Base64Url, toBase64Url } from "@utils/crypto.ts";
+import { describeDevice } from "./devices.ts";
+import { defaultOutbox, Outbox } from "./outbox.ts";
+import {
+  hashPassword,
+  needsRehash,
+  verifyNothing,
+  verifyPassword,
+  verifyPlaintext,
+} from "./passwords.ts";
+import {
+  fromBase32,
+  otpauthUri,
+  toBase32,
+  verifyTotp as checkTotpCode,
+} from "./totp.ts";
+import {
+  normalizeUsername,
+  passwordViolations,
+  PolicyViolation,
+  usernameViolations,
+} from "./policy.ts";
+
+/**
+ * # UserAuthentication session configuration
+ * The following environment variables are available:
+ *
+ * - USER_AUTH_SESSION_ABSOLUTE_TIMEOUT: maximum session lifetime from login, default 604800000ms (7 days)
+ * - USER_AUTH_SESSION_IDLE_TIMEOUT: maximum time between authenticated requests, default 86400000ms (24 hours)
+ * - USER_AUTH_RESET_TOKEN_TTL: how long a password reset token stays valid, default 3600000ms (1 hour)
+ * - USER_AUTH_LOCKOUT_THRESHOLD: failed logins (wrong passwords or two-factor codes) for one username before it is locked, default 5
+ * - USER_AUTH_CLIENT_LOCKOUT_THRESHOLD: failed logins from one client before it is locked, default 20
+ * - USER_AUTH_LOCKOUT_BASE: first lockout duration, doubling with each further failure, default 30000ms
+ * - USER_AUTH_LOCKOUT_MAX: longest lockout duration, default 3600000ms (1 hour)
+ * - USER_AUTH_ATTEMPT_WINDOW: quiet period after which failed logins are forgotten, default 900000ms (15 minutes)
+ * - USER_AUTH_ADMIN_USERNAMES: comma-separated usernames allowed to perform admin actions, default none
+ * - USER_AUTH_TOTP_ISSUER: the issuer name authenticator apps show for TOTP codes, default "BodyMap"
+ * - USER_AUTH_TOTP_CHALLENGE_TTL: how long a two-factor login challenge stays valid, default 300000ms (5 minutes)
+ * - USER_AUTH_TOTP_CHALLENGE_ATTEMPTS: wrong codes allowed per two-factor login challenge, default 5
+ */
+const SESSION_ABSOLUTE_TIMEOUT = parseInt(
+  Deno.env.get("USER_AUTH_SESSION_ABSOLUTE_TIMEOUT") ?? "604800000",
+  10,
+);
+const SESSION_IDLE_TIMEOUT = parseInt(
+  Deno.env.get("USER_AUTH_SESSION_IDLE_TIMEOUT") ?? "86400000",
+  10,
+);
+const RESET_TOKEN_TTL = parseInt(
+  Deno.env.get("USER_AUTH_RESET_TOKEN_TTL") ?? "3600000",
+  10,
+);
+const LOCKOUT_THRESHOLD = parseInt(
+  Deno.env.get("USER_AUTH_LOCKOUT_THRESHOLD") ?? "5",
+  10,
+);
+const CLIENT_LOCKOUT_THRESHOLD = parseInt(
+  Deno.env.get("USER_AUTH_CLIENT_LOCKOUT_THRESHOLD") ?? "20",
+  10,
+);
+const LOCKOUT_BASE = parseInt(
+  Deno.env.get("USER_AUTH_LOCKOUT_BASE") ?? "30000",
+  10,
+);
+const LOCKOUT_MAX = parseInt(
+  Deno.env.get("USER_AUTH_LOCKOUT_MAX") ?? "3600000",
+  10,
+);
+const ATTEMPT_WINDOW = parseInt(
+  Deno.env.get("USER_AUTH_ATTEMPT_WINDOW") ?? "900000",
+  10,
+);
+const ADMIN_USERNAMES = (Deno.env.get("USER_AUTH_ADMIN_USERNAMES") ?? "")
+  .split(",")
+  .map(normalizeUsername)
+  .filter((name) => name !== "");
+
+const TOTP_ISSUER = Deno.env.get("USER_AUTH_TOTP_ISSUER") ?? "BodyMap";
+const TOTP_CHALLENGE_TTL = parseInt(
+  Deno.env.get("USER_AUTH_TOTP_CHALLENGE_TTL") ?? "300000",
+  10,
+);
+const TOTP_CHALLENGE_ATTEMPTS = parseInt(
+  Deno.env.get("USER_AUTH_TOTP_CHALLENGE_ATTEMPTS") ?? "5",
+  10,
+);
+
+// TOTP secrets are 160 bits, as recommended by RFC 4226
+const TOTP_SECRET_BYTES = 20;
+
+// The address Requesting reports when it cannot tell where a request came from
+const UNKNOWN_CLIENT = "unknown";
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Generates a random 50-bit recovery code, formatted in two groups of five
+ * base32 characters for readability, e.g. "ABCDE-FGH23".
+ */
+function generateRecoveryCode(): string {
+  const code = toBase32(randomBytes(7)).slice(0, 10);
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Hashes a recovery code for storage, ignoring case, spaces and dashes as typed by the user.
+ */
+async function hashRecoveryCode(code: string): Promise<string> {
+  return await sha256Base64Url(code.toUpperCase().replace(/[\s-]/g, ""));
+}
+
+// MongoDB's error code for a write that violates a unique index
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * The registration error for a username that already belongs to another User.
+ */
+function usernameTaken(
+  username: string,
+): { error: string; violations: PolicyViolation[] } {
+  const message = `Username '${username}' already exists.`;
+  return {
+    error: message,
+    violations: [{ field: "username", code: "taken", message }],
+  };
+}
+
+/**
+ * The error for a password check refused because the username is locked out.
+ */
+function tooManyAttempts(lockedUntil: Date): string {
+  return `Too many failed attempts. Try again after ${lockedUntil.toISOString()}.`;
+}
+
+/**
+ * The login error for a legacy record whose username clashed with another User's once normalized.
+ */
+function legacyUsernameClash(username: string): string {
+  return `Username '${username}' now matches another account's. Choose a new username with renameLegacyUsername to log in.`;
+}
 
 // Collection prefix to ensure isolation within the database
 const PREFIX = "UserAuthentication" + ".";
@@ -16,14 +156,42 @@ type Map = ID;
  *
  * users: a set of Users with
  *   username: String
- *   password: String (stored as plain text per spec - in production should be hashed)
+ *   passwordHash: String (salted PBKDF2 hash, tagged with its algorithm and parameters)
+ *   password: String (legacy plaintext, only present on records created before hashing)
+ *   needsRename: Boolean (set on a record stored before normalization whose normalized username belongs
+ *                         to another User; it keeps its old username until renamed with renameLegacyUsername)
+ *   totp: TotpState (only present once the user has started enrolling in two-factor authentication)
  */
 interface UserState {
   _id: User;
   username: string;
-  password: string; // Note: In production, this should be hashed
+  passwordHash?: string;
+  password?: string; // Legacy plaintext; replaced by passwordHash on the next successful login
+  needsRename?: boolean;
+  totp?: TotpState;
+}
+
+/**
+ * @interface TotpState
+ * A user's TOTP two-factor enrolment.
+ *
+ *   secret: String (base32 shared secret)
+ *   confirmed: Boolean (false until the user proves their authenticator app produces valid codes)
+ *   lastStep: Number | null (the last time step a code was accepted for, so codes cannot be replayed)
+ *   recoveryCodes: String[] (SHA-256 of each unused single-use recovery code)
+ */
+interface TotpState {
+  secret: string;
+  confirmed: boolean;
+  lastStep: number | null;
+  recoveryCodes: string[];
 }
 
+/**
+ * A UserState with its credential fields removed, safe to return from queries.
+ */
+type PublicUserState = Omit<UserState, "passwordHash" | "password" | "totp">;
+
 /**
  * @interface SessionState
  * Represents a login session for a user.
@@ -33,12 +201,98 @@ interface UserState {
  *   userId: User
  *   active: Boolean
  *   startTimestamp: Date
+ *   lastSeen: Date (refreshed on each authenticated request)
+ *   expiresAt: Date (the earlier of the absolute and idle deadlines; purged by a TTL index)
+ *   device: String (a label derived from the user agent, e.g. "Firefox on Android")
+ *   userAgent: String
+ *   client: String (the network address the session was started from)
  */
 interface SessionState {
   _id: Session;
   userId: User;
   active: boolean;
   startTimestamp: Date;
+  lastSeen?: Date; // Absent on sessions created before expiry was introduced
+  expiresAt?: Date;
+  device?: string; // Absent on sessions created before device tracking was introduced
+  userAgent?: string;
+  client?: string;
+}
+
+/**
+ * A SessionState annotated with whether it has passed its absolute or idle deadline.
+ */
+type SessionView = SessionState & { expired: boolean };
+
+/**
+ * A summary of one of a user's active sessions, for showing them where they are logged in.
+ * The session ID is a bearer credential, so each session is named by an opaque handle instead.
+ */
+interface ActiveSessionView {
+  handle: string;
+  current: boolean;
+  device: string;
+  userAgent: string | null;
+  client: string | null;
+  startTimestamp: Date;
+  lastSeen: Date;
+}
+
+/**
+ * @interface ResetTokenState
+ * Represents a single-use password reset token issued to a user.
+ *
+ * resetTokens: a set of ResetTokens with
+ *   _id: String (SHA-256 of the token; the token itself is only ever sent to the user)
+ *   userId: User
+ *   expiresAt: Date (purged by a TTL index)
+ *   used: Boolean
+ */
+interface ResetTokenState {
+  _id: string;
+  userId: User;
+  expiresAt: Date;
+  used: boolean;
+}
+
+/**
+ * @interface TotpChallengeState
+ * A login that has passed the password check and is waiting for a second factor.
+ *
+ * totpChallenges: a set of TotpChallenges with
+ *   _id: String (SHA-256 of the challenge; the challenge itself is only ever sent to the client)
+ *   userId: User
+ *   expiresAt: Date (purged by a TTL index)
+ *   attempts: Number (wrong codes entered so far)
+ *   client: String (carried over to the session the challenge completes)
+ *   userAgent: String
+ */
+interface TotpChallengeState {
+  _id: string;
+  userId: User;
+  expiresAt: Date;
+  attempts: number;
+  client?: string;
+  userAgent?: string;
+}
+
+/**
+ * @interface LoginAttemptState
+ * Tracks recent failed logins for one username or one client address.
+ *
+ * loginAttempts: a set of LoginAttempts with
+ *   _id: String ("username:<username>" or "client:<address>")
+ *   failures: Number (consecutive failures within the attempt window)
+ *   lastFailure: Date
+ *   lockedUntil: Date | null
+ *   expiresAt: Date (when the record is no longer relevant; purged by a TTL index)
+ */
+interface LoginAttemptState {
+  _id: string;
+  failures: number;
+  lastFailure: Date;
+  lockedUntil: Date | null;
+  expiresAt: Date;
 }
 
 /**
@@ -53,94 +307,540 @@ export default class UserAuthenticationConcept {
   // MongoDB collections for the concept's state
   users: Collection<UserState>;
   sessions: Collection<SessionState>;
+  resetTokens: Collection<ResetTokenState>;
+  loginAttempts: Collection<LoginAttemptState>;
+  totpChallenges: Collection<TotpChallengeState>;
+  // Settles once the unique username index has been built (or failed to build)
+  private readonly usernameIndex: Promise<void>;
 
-  constructor(private readonly db: Db) {
+  constructor(
+    private readonly db: Db,
+    private readonly outbox: Outbox = defaultOutbox(),
+  ) {
     this.users = this.db.collection(PREFIX + "users");
     this.sessions = this.db.collection(PREFIX + "sessions");
+    this.resetTokens = this.db.collection(PREFIX + "resetTokens");
+    this.loginAttempts = this.db.collection(PREFIX + "loginAttempts");
+    this.totpChallenges = this.db.collection(PREFIX + "totpChallenges");
+
+    // Let MongoDB purge sessions, reset tokens, login attempts and challenges once their expiry has passed
+    this.sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((e) => {
+        console.error("Error creating session expiry index:", e);
+      });
+    this.resetTokens.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((e) => {
+        console.error("Error creating reset token expiry index:", e);
+      });
+    this.loginAttempts.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((e) => {
+        console.error("Error creating login attempt expiry index:", e);
+      });
+    this.totpChallenges.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((e) => {
+        console.error("Error creating TOTP challenge expiry index:", e);
+      });
+
+    // Usernames are unique once normalized; existing records are normalized first
+    this.usernameIndex = this.normalizeLegacyUsernames()
+      .then(async () => {
+        await this.users.createIndex({ username: 1 }, { unique: true });
+      })
+      .catch((e) => {
+        console.error("Error creating unique username index:", e);
+      });
+  }
+
+  /**
+   * Helper method to normalize usernames stored before normalization was introduced.
+   * A record whose normalized username is already taken keeps its old username and is marked
+   * as needing a rename: login refuses it until its owner picks a new username with
+   * renameLegacyUsername. Every such clash is logged as an error for operators to follow up.
+   */
+  private async normalizeLegacyUsernames(): Promise<void> {
+    const users = await this.users.find({}, { projection: { username: 1 } })
+      .toArray();
+    let clashes = 0;
+    for (const user of users) {
+      const normalized = normalizeUsername(user.username);
+      if (normalized === user.username) {
+        continue;
+      }
+      const clash = await this.users.findOne({ username: normalized });
+      if (clash) {
+        clashes++;
+        console.error(
+          `[UserAuthentication] Cannot normalize username of user ${user._id}: '${normalized}' is already taken by user ${clash._id}; they must choose a new username before logging in`,
+        );
+        await this.users.updateOne(
+          { _id: user._id },
+          { $set: { needsRename: true } },
+        );
+        continue;
+      }
+      await this.users.updateOne(
+        { _id: user._id },
+        { $set: { username: normalized } },
+      );
+    }
+    if (clashes > 0) {
+      console.error(
+        `[UserAuthentication] ${clashes} legacy username(s) clash with another user's once normalized and need renaming`,
+      );
+    }
+  }
+
+  /**
+   * Helper method to name the login attempt counter for a client address.
+   * @param client The network address a login came from, if known.
+   * @returns The counter ID, or null if the address is unknown, since a shared
+   *          "unknown" counter would let one client lock out everyone behind it.
+   */
+  private clientKey(client: string | undefined): string | null {
+    return client !== undefined && client !== UNKNOWN_CLIENT
+      ? `client:${client}`
+      : null;
+  }
+
+  /**
+   * Helper method to derive the opaque handle a session is listed under, so that
+   * listing a user's sessions never discloses the session IDs themselves.
+   * @param session The session ID.
+   * @returns The base64url SHA-256 of the session ID.
+   */
+  private async sessionHandle(session: Session): Promise<string> {
+    return await sha256Base64Url(`session:${session}`);
+  }
+
+  /**
+   * Helper method to find the latest lockout among a set of login attempt counters.
+   * @param keys The counter IDs to check.
+   * @param now The time to check against.
+   * @returns The date the lockout ends, or null if none of the counters is locked.
+   */
+  private async lockedUntil(keys: string[], now: Date): Promise<Date | null> {
+    const locked = await this.loginAttempts
+      .find({ _id: { $in: keys }, lockedUntil: { $gt: now } })
+      .toArray();
+    if (locked.length === 0) {
+      return null;
+    }
+    return new Date(
+      Math.max(...locked.map((attempt) => attempt.lockedUntil!.getTime())),
+    );
+  }
+
+  /**
+   * Helper method to record a failed login against a counter. Once the counter reaches
+   * its threshold it is locked, for twice as long with each further failure.
+   *
+   * Note: The counter is incremented in a single update, so concurrent failures are each
+   * counted; the lockout they lead to only ever extends an existing one.
+   * @param key The counter ID.
+   * @param threshold Failures allowed before the counter locks.
+   * @param now The time of the failure.
+   */
+  private async recordFailure(
+    key: string,
+    threshold: number,
+    now: Date,
+  ): Promise<void> {
+    // Start counting again once the last failure is older than the attempt window
+    const windowStart = new Date(now.getTime() - ATTEMPT_WINDOW);
+    const attempt = await this.loginAttempts.findOneAndUpdate(
+      { _id: key },
+      [{
+        $set: {
+          failures: {
+            $cond: [
+              { $gt: ["$lastFailure", windowStart] },
+              { $add: ["$failures", 1] },
+              1,
+            ],
+          },
+          lastFailure: now,
+          lockedUntil: { $ifNull: ["$lockedUntil", null] },
+          expiresAt: {
+            $max: ["$expiresAt", new Date(now.getTime() + ATTEMPT_WINDOW)],
+          },
+        },
+      }],
+      { upsert: true, returnDocument: "after" },
+    );
+    const failures = attempt?.failures ?? 1;
+    if (failures < threshold) {
+      return;
+    }
+
+    const lockedUntil = new Date(
+      now.getTime() +
+        Math.min(LOCKOUT_BASE * 2 ** (failures - threshold), LOCKOUT_MAX),
+    );
+    await this.loginAttempts.updateOne(
+      { _id: key },
+      {
+        $max: {
+          lockedUntil,
+          expiresAt: new Date(lockedUntil.getTime() + ATTEMPT_WINDOW),
+        },
+      },
+    );
+  }
+
+  /**
+   * Helper method to compute when a session expires: the earlier of its
+   * absolute deadline (from login) and its idle deadline (from last activity).
+   * @param startTimestamp When the session was created.
+   * @param lastSeen When the session was last used.
+   * @returns The expiry date.
+   */
+  private expiryFor(startTimestamp: Date, lastSeen: Date): Date {
+    return new Date(
+      Math.min(
+        startTimestamp.getTime() + SESSION_ABSOLUTE_TIMEOUT,
+        lastSeen.getTime() + SESSION_IDLE_TIMEOUT,
+      ),
+    );
+  }
+
+  /**
+   * Helper method to check whether a session has passed its expiry.
+   * Sessions created before expiry was tracked fall back to their start time.
+   * @param sessionState The stored session state.
+   * @param now The time to check against.
+   * @returns true if the session has expired, otherwise false.
+   */
+  private isExpired(
+    sessionState: SessionState,
+    now: Date = new Date(),
+  ): boolean {
+    const expiresAt = sessionState.expiresAt ??
+      this.expiryFor(
+        sessionState.startTimestamp,
+        sessionState.lastSeen ?? sessionState.startTimestamp,
+      );
+    return expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Helper method to check a candidate password against a user's stored credentials.
+   * Legacy plaintext records and hashes with outdated parameters are upgraded
+   * to a fresh hash when the password matches.
+   * @param user The stored user state.
+   * @param password The candidate password.
+   * @returns true if the password matches, otherwise false.
+   */
+  private async checkPassword(
+    user: UserState,
+    password: string,
+  ): Promise<boolean> {
+    if (user.passwordHash !== undefined) {
+      if (!(await verifyPassword(password, user.passwordHash))) {
+        return false;
+      }
+      if (needsRehash(user.passwordHash)) {
+        await this.users.updateOne(
+          { _id: user._id },
+          { $set: { passwordHash: await hashPassword(password) } },
+        );
+      }
+      return true;
+    }
+
+    if (
+      user.password === undefined || !verifyPlaintext(password, user.password)
+    ) {
+      return false;
+    }
+    // Upgrade the legacy plaintext record now that we know the password
+    await this.users.updateOne(
+      { _id: user._id },
+      {
+        $set: { passwordHash: await hashPassword(password) },
+        $unset: { password: "" },
+      },
+    );
+    return true;
+  }
+
+  /**
+   * Helper method to start a new active session for a user who has fully authenticated.
+   * @param user The authenticated user.
+   * @param client The network address the login came from, if known.
+   * @param userAgent The user agent the login came from, if known.
+   * @param now The time the session starts.
+   * @returns The new session ID, the user's ID and username, and a signed bearer token for the session.
+   */
+  private async startSession(
+    user: UserState,
+    client: string | undefined,
+    userAgent: string | undefined,
+    now: Date,
+  ): Promise<
+    { session: Session; user: User; username: string; token: string }
+  > {
+    const newSessionId = freshID() as Session;
+    const newSession: SessionState = {
+      _id: newSessionId,
+      userId: user._id,
+      active: true,
+      startTimestamp: now,
+      lastSeen: now,
+      expiresAt: this.expiryFor(now, now),
+      device: describeDevice(userAgent),
+      userAgent,
+      client,
+    };
+
+    await this.sessions.insertOne(newSession);
+
+    // The token lives as long as the session could; idle expiry and logout
+    // are still enforced against the stored session.
+    const token = await signToken({
+      user: user._id,
+      session: newSessionId,
+      expiresAt: now.getTime() + SESSION_ABSOLUTE_TIMEOUT,
+    });
+
+    console.log(
+      `[UserAuthentication] Login successful for user ${user.username} (${user._id})`,
+    );
+    return {
+      session: newSessionId,
+      user: user._id,
+      username: user.username,
+      token,
+    };
   }
 
   /**
    * register(username: String, password: String): (user: User)
    *
-   * requires: no existing User has the same username
-   * effects: Creates and stores a new User with the given credentials
-   *          Returns the _id of the newly created User
+   * requires: the normalized username is valid and no existing User has it,
+   *           and the password satisfies the password policy
+   * effects: Creates and stores a new User with the normalized username and a salted hash of the password
+   *          Returns the _id of the newly created User.
+   *          Errors carry a list of policy violations, each naming the field it applies to
    */
   async register(
     { username, password }: { username: string; password: string },
-  ): Promise<{ user: User } | { error: string }> {
+  ): Promise<
+    { user: User } | { error: string; violations: PolicyViolation[] }
+  > {
+    const normalized = normalizeUsername(username);
     try {
-      // Check if username already exists
-      const existingUser = await this.users.findOne({ username });
-      if (existingUser) {
-        return { error: `Username '${username}' already exists.` };
+      const violations = [
+        ...usernameViolations(normalized),
+        ...passwordViolations(password, normalized),
+      ];
+      if (violations.length > 0) {
+        return {
+          error: violations.map((v) => v.message).join(" "),
+          violations,
+        };
+      }
+
+      if (await this.users.findOne({ username: normalized })) {
+        return usernameTaken(normalized);
       }
 
-      // Create new user
+      // Create new user; the unique index also rejects the username if a concurrent
+      // registration took it after the check above
+      await this.usernameIndex;
       const newUserId = freshID() as User;
       const newUser: UserState = {
         _id: newUserId,
-        username,
-        password, // In production, hash this before storing
+        username: normalized,
+        passwordHash: await hashPassword(password),
       };
 
       await this.users.insertOne(newUser);
 
       return { user: newUserId };
     } catch (e) {
+      if (e instanceof MongoServerError && e.code === DUPLICATE_KEY_ERROR) {
+        return usernameTaken(normalized);
+      }
+      if (e instanceof Error) {
+        console.error(`Error registering user ${normalized}:`, e);
+        return {
+          error: `Failed to register user: ${e.message}`,
+          violations: [],
+        };
+      } else {
+        console.error(`Unknown error registering user ${normalized}:`, e);
+        return {
+          error: "Failed to register user due to an unknown error",
+          violations: [],
+        };
+      }
+    }
+  }
+
+  /**
+   * renameLegacyUsername(username: String, password: String, newUsername: String): (user: User)
+   *
+   * requires: a User marked as needing a rename has exactly the given username, is not locked out and
+   *           password matches; the normalized newUsername is valid and no other User has it
+   * effects: sets the User's username to the normalized newUsername and clears the mark, so they can log in again.
+   *          A wrong password counts as a failed login against the username
+   */
+  async renameLegacyUsername(
+    { username, password, newUsername }: {
+      username: string;
+      password: string;
+      newUsername: string;
+    },
+  ): Promise<
+    { user: User } | { error: string; violations: PolicyViolation[] }
+  > {
+    const normalized = normalizeUsername(newUsername);
+    try {
+      await this.usernameIndex;
+      const now = new Date();
+      const usernameKey = `username:${normalizeUsername(username)}`;
+      const lockedUntil = await this.lockedUntil([usernameKey], now);
+      if (lockedUntil) {
+        return { error: tooManyAttempts(lockedUntil), violations: [] };
+      }
+
+      // Precondition check: only the owner of a marked record can rename it
+      const user = await this.users.findOne({ username, needsRename: true });
+      const passwordMatches = user
+        ? await this.checkPassword(user, password)
+        : await verifyNothing(password);
+      if (!user || !passwordMatches) {
+        await this.recordFailure(usernameKey, LOCKOUT_THRESHOLD, now);
+        return {
+          error: "Username or password is incorrect, or it needs no rename.",
+          violations: [],
+        };
+      }
+
+      const violations = usernameViolations(normalized);
+      if (violations.length > 0) {
+        return {
+          error: violations.map((v) => v.message).join(" "),
+          violations,
+        };
+      }
+      if (await this.users.findOne({ username: normalized })) {
+        return usernameTaken(normalized);
+      }
+
+      await this.users.updateOne(
+        { _id: user._id },
+        { $set: { username: normalized }, $unset: { needsRename: "" } },
+      );
+      return { user: user._id };
+    } catch (e) {
+      if (e instanceof MongoServerError && e.code === DUPLICATE_KEY_ERROR) {
+        return usernameTaken(normalized);
+      }
       if (e instanceof Error) {
-        console.error(`Error registering user ${username}:`, e);
-        return { error: `Failed to register user: ${e.message}` };
+        console.error(`Error renaming legacy username ${username}:`, e);
+        return {
+          error: `Failed to rename username: ${e.message}`,
+          violations: [],
+        };
       } else {
-        console.error(`Unknown error registering user ${username}:`, e);
-        return { error: "Failed to register user due to an unknown error" };
+        console.error(`Unknown error renaming legacy username ${username}:`, e);
+        return {
+          error: "Failed to rename username due to an unknown error",
+          violations: [],
+        };
       }
     }
   }
 
   /**
-   * login(username: String, password: String): (session: Session | null, user: User | null, username: String | null)
+   * login(username: String, password: String, client?: String, userAgent?: String): (session: Session | null, user: User | null, username: String | null, token: String | null)
+   * login(username: String, password: String, client?: String, userAgent?: String): (locked: true, retryAfter: Date)
+   * login(username: String, password: String, client?: String, userAgent?: String): (challenge: String, challengeExpiresAt: Date)
    *
-   * requires: a User with the given username exists and password matches the username
-   * effects: returns a new active Session, user ID, and username if the password matches, otherwise returns null values
+   * requires: a User with the given username (after normalization) exists and password matches the username
+   * effects: if the username or client is locked out, returns locked with the time the lockout ends,
+   *          without checking the password.
+   *          Otherwise returns a new active Session, user ID, username and a signed bearer token for the
+   *          Session if the password matches and clears the username's failed attempts; if it does not
+   *          match, records a failed attempt against the username and client and returns null values.
+   *          The new Session records the client address and user agent it was started from.
+   *          If the User has confirmed TOTP enrolment, no Session is started yet: a short-lived
+   *          challenge is returned instead, to be completed with verifyTotp, and the failed attempts
+   *          are only cleared once it is.
+   *          A legacy User whose username clashed with another's once normalized is found by their exact old
+   *          username, and gets an error asking them to rename it with renameLegacyUsername rather than a Session
    */
   async login(
-    { username, password }: { username: string; password: string },
+    { username, password, client, userAgent }: {
+      username: string;
+      password: string;
+      client?: string;
+      userAgent?: string;
+    },
   ): Promise<
-    | { session: Session; user: User; username: string }
-    | { session: null; user: null; username: null }
+    | { session: Session; user: User; username: string; token: string }
+    | { session: null; user: null; username: null; token: null }
+    | { locked: true; retryAfter: Date }
+    | { challenge: string; challengeExpiresAt: Date }
     | { error: string }
   > {
     try {
-      // Find user by username
-      const user = await this.users.findOne({ username });
-      if (!user) {
-        return { session: null, user: null, username: null };
-      }
+      const now = new Date();
+      const normalized = normalizeUsername(username);
+      const usernameKey = `username:${normalized}`;
+      const clientKey = this.clientKey(client);
 
-      // Check password match
-      if (user.password !== password) {
-        return { session: null, user: null, username: null };
+      // Refuse locked-out usernames and clients before looking at the password
+      const lockedUntil = await this.lockedUntil(
+        clientKey ? [usernameKey, clientKey] : [usernameKey],
+        now,
+      );
+      if (lockedUntil) {
+        return { locked: true, retryAfter: lockedUntil };
       }
 
-      // Create new active session
-      const newSessionId = freshID() as Session;
-      const newSession: SessionState = {
-        _id: newSessionId,
-        userId: user._id,
-        active: true,
-        startTimestamp: new Date(),
-      };
+      // Find user by username, and check password match (upgrading legacy plaintext records on success).
+      // Unknown usernames count as failures too, and are checked against a dummy hash, so they
+      // cannot be told apart from wrong passwords by the response or its timing.
+      // A legacy record that clashed on normalization is only found by its exact old username.
+      await this.usernameIndex;
+      const legacy = username !== normalized
+        ? await this.users.findOne({ username, needsRename: true })
+        : null;
+      const user = legacy ?? await this.users.findOne({ username: normalized });
+      const passwordMatches = user
+        ? await this.checkPassword(user, password)
+        : await verifyNothing(password);
+      if (!user || !passwordMatches) {
+        await this.recordFailure(usernameKey, LOCKOUT_THRESHOLD, now);
+        if (clientKey) {
+          await this.recordFailure(clientKey, CLIENT_LOCKOUT_THRESHOLD, now);
+        }
+        return { session: null, user: null, username: null, token: null };
+      }
+      if (user.needsRename) {
+        return { error: legacyUsernameClash(user.username) };
+      }
 
-      await this.sessions.insertOne(newSession);
+      // Users enrolled in two-factor authentication must also pass verifyTotp. Their failed
+      // attempts are kept until they do, so wrong codes keep counting towards the lockout.
+      if (user.totp?.confirmed) {
+        const challenge = toBase64Url(randomBytes(32));
+        const challengeExpiresAt = new Date(now.getTime() + TOTP_CHALLENGE_TTL);
+        await this.totpChallenges.insertOne({
+          _id: await sha256Base64Url(challenge),
+          userId: user._id,
+          expiresAt: challengeExpiresAt,
+          attempts: 0,
+          client,
+          userAgent,
+        });
+        return { challenge, challengeExpiresAt };
+      }
 
-      const loginResponse = {
-        session: newSessionId,
-        user: user._id,
-        username: user.username,
-      };
-      console.log(`[UserAuthentication] Login successful for user ${username}:`, loginResponse);
-      return loginResponse;
+      await this.loginAttempts.deleteOne({ _id: usernameKey });
+      return await this.startSession(user, client, userAgent, now);
     } catch (e) {
       if (e instanceof Error) {
         console.error(`Error logging in user ${username}:`, e);
@@ -190,10 +890,700 @@ export default class UserAuthenticationConcept {
     }
   }
 
+  /**
+   * revokeSession(user: User, handle: String): Empty
+   *
+   * requires: an active Session of the User is listed under the handle by _getActiveSessions
+   * effects: sets the Session's active flag to false, ending it on whichever device holds it
+   */
+  async revokeSession(
+    { user, handle }: { user: User; handle: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      // Precondition check: users can only revoke their own active sessions. Only the User's
+      // sessions are searched, so a handle belonging to someone else is simply not found.
+      const sessionStates = await this.sessions.find({
+        userId: user,
+        active: true,
+      }).toArray();
+      let sessionState: SessionState | undefined;
+      for (const candidate of sessionStates) {
+        if ((await this.sessionHandle(candidate._id)) === handle) {
+          sessionState = candidate;
+          break;
+        }
+      }
+      if (!sessionState) {
+        return { error: `No active session ${handle} was found.` };
+      }
+
+      await this.sessions.updateOne(
+        { _id: sessionState._id },
+        { $set: { active: false } },
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error revoking session ${handle}:`, e);
+        return { error: `Failed to revoke session: ${e.message}` };
+      } else {
+        console.error(`Unknown error revoking session ${handle}:`, e);
+        return { error: "Failed to revoke session due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * logoutEverywhere(user: User): (revoked: Number)
+   *
+   * requires: the User exists
+   * effects: sets every active Session of the User to inactive, including the one making the request,
+   *          and returns how many were ended
+   */
+  async logoutEverywhere(
+    { user }: { user: User },
+  ): Promise<{ revoked: number } | { error: string }> {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+      if (!userState) {
+        return { error: `User ${user} does not exist.` };
+      }
+
+      const result = await this.sessions.updateMany(
+        { userId: user, active: true },
+        { $set: { active: false } },
+      );
+      return { revoked: result.modifiedCount };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error logging out user ${user} everywhere:`, e);
+        return { error: `Failed to log out everywhere: ${e.message}` };
+      } else {
+        console.error(`Unknown error logging out user ${user} everywhere:`, e);
+        return {
+          error: "Failed to log out everywhere due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * touchSession(session: Session): Empty
+   *
+   * requires: the Session exists, is active and has not expired
+   * effects: sets the Session's lastSeen to now, extending its idle deadline
+   *          (never beyond its absolute deadline)
+   */
+  async touchSession(
+    { session }: { session: Session },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const sessionState = await this.sessions.findOne({ _id: session });
+
+      // Precondition check: session must exist, be active and be unexpired
+      if (!sessionState) {
+        return { error: `Session ${session} does not exist.` };
+      }
+      const now = new Date();
+      if (!sessionState.active || this.isExpired(sessionState, now)) {
+        return { error: `Session ${session} is not active or has expired.` };
+      }
+
+      await this.sessions.updateOne(
+        { _id: session },
+        {
+          $set: {
+            lastSeen: now,
+            expiresAt: this.expiryFor(sessionState.startTimestamp, now),
+          },
+        },
+      );
+
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error refreshing session ${session}:`, e);
+        return { error: `Failed to refresh session: ${e.message}` };
+      } else {
+        console.error(`Unknown error refreshing session ${session}:`, e);
+        return { error: "Failed to refresh session due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * changePassword(user: User, oldPassword: String, newPassword: String, session?: Session): (revoked: Number)
+   *
+   * requires: the User exists and is not locked out, oldPassword matches their current password
+   *           and newPassword satisfies the password policy
+   * effects: replaces the User's password hash with a hash of newPassword, and ends every other active
+   *          Session of the User, keeping only the given one (the one the change was made from), so anyone
+   *          holding an old session must log in again with the new password. Returns how many were ended.
+   *          A wrong oldPassword counts as a failed login against the User's username
+   */
+  async changePassword(
+    { user, oldPassword, newPassword, session }: {
+      user: User;
+      oldPassword: string;
+      newPassword: string;
+      session?: Session;
+    },
+  ): Promise<{ revoked: number } | { error: string }> {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+
+      // Precondition check: user must exist and know their current password
+      if (!userState) {
+        return { error: `User ${user} does not exist.` };
+      }
+      const now = new Date();
+      const usernameKey = `username:${userState.username}`;
+      const lockedUntil = await this.lockedUntil([usernameKey], now);
+      if (lockedUntil) {
+        return { error: tooManyAttempts(lockedUntil) };
+      }
+      if (!(await this.checkPassword(userState, oldPassword))) {
+        await this.recordFailure(usernameKey, LOCKOUT_THRESHOLD, now);
+        return { error: "Current password is incorrect." };
+      }
+      const violations = passwordViolations(newPassword, userState.username);
+      if (violations.length > 0) {
+        return { error: violations.map((v) => v.message).join(" ") };
+      }
+
+      await this.users.updateOne(
+        { _id: user },
+        {
+          $set: { passwordHash: await hashPassword(newPassword) },
+          $unset: { password: "" },
+        },
+      );
+
+      // Sessions elsewhere, e.g. one an attacker holds, end with the old password
+      const revoked = await this.sessions.updateMany(
+        session === undefined
+          ? { userId: user, active: true }
+          : { userId: user, active: true, _id: { $ne: session } },
+        { $set: { active: false } },
+      );
+
+      return { revoked: revoked.modifiedCount };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error changing password for user ${user}:`, e);
+        return { error: `Failed to change password: ${e.message}` };
+      } else {
+        console.error(`Unknown error changing password for user ${user}:`, e);
+        return { error: "Failed to change password due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * requestPasswordReset(username: String): Empty
+   *
+   * requires: true
+   * effects: if a User with the given username exists, replaces any outstanding reset tokens for them
+   *          with a new single-use token that expires after the configured TTL, and delivers it
+   *          through the outbox. Succeeds either way, so the response does not reveal whether
+   *          the username exists.
+   */
+  async requestPasswordReset(
+    { username }: { username: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const userState = await this.users.findOne({
+        username: normalizeUsername(username),
+      });
+      if (!userState) {
+        console.log(
+          `[UserAuthentication] Password reset requested for unknown username ${username}`,
+        );
+        return {};
+      }
+
+      // Only the most recent reset token is ever valid
+      await this.resetTokens.deleteMany({ userId: userState._id, used: false });
+
+      const token = toBase64Url(randomBytes(32));
+      const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL);
+      await this.resetTokens.insertOne({
+        _id: await sha256Base64Url(token),
+        userId: userState._id,
+        expiresAt,
+        used: false,
+      });
+
+      // The outbox addresses users by username; deployments whose usernames are not
+      // email addresses map them to one in their Outbox implementation
+      await this.outbox.send({
+        to: userState.username,
+        subject: "Reset your PainPal password",
+        body: `Use this code to reset your password: ${token}\n` +
+          `It expires at ${expiresAt.toISOString()} and can only be used once.`,
+      });
+
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error requesting password reset for ${username}:`, e);
+        return { error: `Failed to request password reset: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error requesting password reset for ${username}:`,
+          e,
+        );
+        return {
+          error: "Failed to request password reset due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * resetPassword(token: String, newPassword: String): Empty
+   *
+   * requires: the token was issued by requestPasswordReset, has not been used and has not expired,
+   *           and newPassword satisfies the password policy
+   * effects: marks the token as used, replaces the User's password hash with a hash of newPassword,
+   *          and sets every active Session of that User to inactive
+   */
+  async resetPassword(
+    { token, newPassword }: { token: string; newPassword: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const tokenQuery = {
+        _id: await sha256Base64Url(token),
+        used: false,
+        expiresAt: { $gt: new Date() },
+      };
+
+      // Check the new password before using up the token, so the user can try again
+      const pending = await this.resetTokens.findOne(tokenQuery);
+      if (!pending) {
+        return { error: "Reset token is invalid or has expired." };
+      }
+      const userState = await this.users.findOne({ _id: pending.userId });
+      const violations = passwordViolations(
+        newPassword,
+        userState?.username ?? "",
+      );
+      if (violations.length > 0) {
+        return { error: violations.map((v) => v.message).join(" ") };
+      }
+
+      // Claim the token atomically so it can only ever be redeemed once
+      const claimed = await this.resetTokens.findOneAndUpdate(
+        tokenQuery,
+        { $set: { used: true } },
+      );
+      if (!claimed) {
+        return { error: "Reset token is invalid or has expired." };
+      }
+
+      await this.users.updateOne(
+        { _id: claimed.userId },
+        {
+          $set: { passwordHash: await hashPassword(newPassword) },
+          $unset: { password: "" },
+        },
+      );
+
+      // Anyone holding an old session must log in again with the new password
+      await this.sessions.updateMany(
+        { userId: claimed.userId, active: true },
+        { $set: { active: false } },
+      );
+
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error("Error resetting password:", e);
+        return { error: `Failed to reset password: ${e.message}` };
+      } else {
+        console.error("Unknown error resetting password:", e);
+        return { error: "Failed to reset password due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * deleteAccount(user: User, password: String): (user: User, username: String, sessions: Session[], removed: { users: Number, sessions: Number, resetTokens: Number, loginAttempts: Number, totpChallenges: Number })
+   *
+   * requires: the User exists and is not locked out, and password matches their current password
+   * effects: a wrong password counts as a failed login against the User's username.
+   *          Otherwise permanently deletes the User along with all of their Sessions, ResetTokens,
+   *          failed LoginAttempts and pending TotpChallenges, and returns how many records
+   *          were removed from each set, along with the User's username and the IDs of every
+   *          Session they had, so other concepts can erase what they recorded under those
+   */
+  async deleteAccount(
+    { user, password }: { user: User; password: string },
+  ): Promise<
+    | {
+      user: User;
+      username: string;
+      sessions: Session[];
+      removed: {
+        users: number;
+        sessions: number;
+        resetTokens: number;
+        loginAttempts: number;
+        totpChallenges: number;
+      };
+    }
+    | { error: string }
+  > {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+
+      // Precondition check: the user must re-authenticate before erasure
+      if (!userState) {
+        return { error: `User ${user} does not exist.` };
+      }
+      const now = new Date();
+      const usernameKey = `username:${userState.username}`;
+      const lockedUntil = await this.lockedUntil([usernameKey], now);
+      if (lockedUntil) {
+        return { error: tooManyAttempts(lockedUntil) };
+      }
+      if (!(await this.checkPassword(userState, password))) {
+        await this.recordFailure(usernameKey, LOCKOUT_THRESHOLD, now);
+        return { error: "Password is incorrect." };
+      }
+
+      const sessionIds = await this.sessions
+        .find({ userId: user }, { projection: { _id: 1 } })
+        .map((sessionState) => sessionState._id)
+        .toArray();
+      const sessionsResult = await this.sessions.deleteMany({ userId: user });
+      const resetTokensResult = await this.resetTokens.deleteMany({
+        userId: user,
+      });
+      const loginAttemptsResult = await this.loginAttempts.deleteMany({
+        _id: usernameKey,
+      });
+      const totpChallengesResult = await this.totpChallenges.deleteMany({
+        userId: user,
+      });
+      const usersResult = await this.users.deleteOne({ _id: user });
+
+      return {
+        user,
+        username: userState.username,
+        sessions: sessionIds,
+        removed: {
+          users: usersResult.deletedCount,
+          sessions: sessionsResult.deletedCount,
+          resetTokens: resetTokensResult.deletedCount,
+          loginAttempts: loginAttemptsResult.deletedCount,
+          totpChallenges: totpChallengesResult.deletedCount,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error deleting account for user ${user}:`, e);
+        return { error: `Failed to delete account: ${e.message}` };
+      } else {
+        console.error(`Unknown error deleting account for user ${user}:`, e);
+        return { error: "Failed to delete account due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * unlockUser(admin: User, username: String): Empty
+   *
+   * requires: admin is a User whose username is configured as an administrator
+   * effects: clears all failed login attempts and any lockout for the given username
+   */
+  async unlockUser(
+    { admin, username }: { admin: User; username: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const adminState = await this.users.findOne({ _id: admin });
+
+      // Precondition check: only configured administrators may unlock accounts
+      if (!adminState || !ADMIN_USERNAMES.includes(adminState.username)) {
+        return { error: `User ${admin} is not an administrator.` };
+      }
+
+      await this.loginAttempts.deleteOne({
+        _id: `username:${normalizeUsername(username)}`,
+      });
+      console.log(
+        `[UserAuthentication] ${adminState.username} unlocked username ${username}`,
+      );
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error unlocking username ${username}:`, e);
+        return { error: `Failed to unlock user: ${e.message}` };
+      } else {
+        console.error(`Unknown error unlocking username ${username}:`, e);
+        return { error: "Failed to unlock user due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * enrollTotp(user: User): (secret: String, uri: String)
+   *
+   * requires: the User exists and has not already confirmed TOTP enrolment
+   * effects: generates a new TOTP secret for the User, replacing any unconfirmed one,
+   *          and returns it along with an otpauth:// URI for authenticator apps.
+   *          Login is unaffected until the enrolment is confirmed with confirmTotp
+   */
+  async enrollTotp(
+    { user }: { user: User },
+  ): Promise<{ secret: string; uri: string } | { error: string }> {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+
+      // Precondition checks
+      if (!userState) {
+        return { error: `User ${user} does not exist.` };
+      }
+      if (userState.totp?.confirmed) {
+        return { error: "Two-factor authentication is already enabled." };
+      }
+
+      const secret = toBase32(randomBytes(TOTP_SECRET_BYTES));
+      await this.users.updateOne(
+        { _id: user },
+        {
+          $set: {
+            totp: {
+              secret,
+              confirmed: false,
+              lastStep: null,
+              recoveryCodes: [],
+            },
+          },
+        },
+      );
+
+      return {
+        secret,
+        uri: otpauthUri(TOTP_ISSUER, userState.username, secret),
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error enrolling user ${user} in TOTP:`, e);
+        return { error: `Failed to enroll in TOTP: ${e.message}` };
+      } else {
+        console.error(`Unknown error enrolling user ${user} in TOTP:`, e);
+        return { error: "Failed to enroll in TOTP due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * confirmTotp(user: User, code: String): (recoveryCodes: String[])
+   *
+   * requires: the User has an unconfirmed TOTP enrolment and code is currently valid for its secret
+   * effects: enables two-factor authentication for the User and returns a fresh set of single-use
+   *          recovery codes. The recovery codes are only stored hashed, so this is the only time
+   *          they can be shown
+   */
+  async confirmTotp(
+    { user, code }: { user: User; code: string },
+  ): Promise<{ recoveryCodes: string[] } | { error: string }> {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+
+      // Precondition checks
+      if (!userState?.totp) {
+        return { error: "Two-factor authentication enrolment not started." };
+      }
+      if (userState.totp.confirmed) {
+        return { error: "Two-factor authentication is already enabled." };
+      }
+      const step = await checkTotpCode(
+        fromBase32(userState.totp.secret),
+        code,
+        new Date(),
+      );
+      if (step === null) {
+        return { error: "Invalid authentication code." };
+      }
+
+      const recoveryCodes = Array.from(
+        { length: RECOVERY_CODE_COUNT },
+        generateRecoveryCode,
+      );
+      await this.users.updateOne(
+        { _id: user },
+        {
+          $set: {
+            "totp.confirmed": true,
+            "totp.lastStep": step,
+            "totp.recoveryCodes": await Promise.all(
+              recoveryCodes.map(hashRecoveryCode),
+            ),
+          },
+        },
+      );
+
+      return { recoveryCodes };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error confirming TOTP for user ${user}:`, e);
+        return { error: `Failed to confirm TOTP: ${e.message}` };
+      } else {
+        console.error(`Unknown error confirming TOTP for user ${user}:`, e);
+        return { error: "Failed to confirm TOTP due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * disableTotp(user: User, password: String): Empty
+   *
+   * requires: the User has a TOTP enrolment, confirmed or not, and password matches their current password
+   * effects: removes the User's TOTP secret and recovery codes, and discards any pending login challenges
+   */
+  async disableTotp(
+    { user, password }: { user: User; password: string },
+  ): Promise<Empty | { error: string }> {
+    try {
+      const userState = await this.users.findOne({ _id: user });
+
+      // Precondition checks: disabling a second factor requires re-authentication
+      if (!userState?.totp) {
+        return { error: "Two-factor authentication is not enabled." };
+      }
+      if (!(await this.checkPassword(userState, password))) {
+        return { error: "Password is incorrect." };
+      }
+
+      await this.users.updateOne({ _id: user }, { $unset: { totp: "" } });
+      await this.totpChallenges.deleteMany({ userId: user });
+      return {};
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error disabling TOTP for user ${user}:`, e);
+        return { error: `Failed to disable TOTP: ${e.message}` };
+      } else {
+        console.error(`Unknown error disabling TOTP for user ${user}:`, e);
+        return { error: "Failed to disable TOTP due to an unknown error" };
+      }
+    }
+  }
+
+  /**
+   * verifyTotp(challenge: String, code: String): (session: Session, user: User, username: String, token: String)
+   *
+   * requires: challenge was issued by login, has not expired and has not run out of attempts;
+   *           code is either a TOTP code for a time step later than the last one accepted,
+   *           or one of the User's unused recovery codes
+   * effects: consumes the challenge (and the recovery code, if one was used), clears the username's
+   *          failed attempts and starts a new active Session exactly as a login without two-factor
+   *          authentication would.
+   *          A wrong code uses up one of the challenge's attempts and is recorded as a failed login
+   *          against the username and client, so guessing across fresh challenges still locks them out.
+   *          While the username or client is locked out, every code is refused
+   */
+  async verifyTotp(
+    { challenge, code }: { challenge: string; code: string },
+  ): Promise<
+    | { session: Session; user: User; username: string; token: string }
+    | { error: string }
+  > {
+    try {
+      const now = new Date();
+
+      // Claim an attempt up front so concurrent guesses cannot exceed the limit
+      const challengeState = await this.totpChallenges.findOneAndUpdate(
+        {
+          _id: await sha256Base64Url(challenge),
+          expiresAt: { $gt: now },
+          attempts: { $lt: TOTP_CHALLENGE_ATTEMPTS },
+        },
+        { $inc: { attempts: 1 } },
+      );
+      if (!challengeState) {
+        return { error: "Login challenge is invalid or has expired." };
+      }
+      const userState = await this.users.findOne({
+        _id: challengeState.userId,
+      });
+      if (!userState?.totp?.confirmed) {
+        await this.totpChallenges.deleteOne({ _id: challengeState._id });
+        return { error: "Login challenge is invalid or has expired." };
+      }
+
+      // Wrong codes count against the same lockout as wrong passwords
+      const usernameKey = `username:${userState.username}`;
+      const clientKey = this.clientKey(challengeState.client);
+      const lockedUntil = await this.lockedUntil(
+        clientKey ? [usernameKey, clientKey] : [usernameKey],
+        now,
+      );
+      if (lockedUntil) {
+        return {
+          error:
+            `Too many failed attempts; try again after ${lockedUntil.toISOString()}.`,
+        };
+      }
+
+      let accepted = false;
+      const step = await checkTotpCode(
+        fromBase32(userState.totp.secret),
+        code,
+        now,
+      );
+      if (step !== null) {
+        // Only advance lastStep forwards, so each code is accepted at most once
+        const result = await this.users.updateOne(
+          { _id: userState._id, "totp.lastStep": { $not: { $gte: step } } },
+          { $set: { "totp.lastStep": step } },
+        );
+        accepted = result.modifiedCount === 1;
+      } else {
+        const result = await this.users.updateOne(
+          { _id: userState._id },
+          { $pull: { "totp.recoveryCodes": await hashRecoveryCode(code) } },
+        );
+        accepted = result.modifiedCount === 1;
+        if (accepted) {
+          console.log(
+            `[UserAuthentication] Recovery code used for user ${userState.username} (${userState._id})`,
+          );
+        }
+      }
+
+      if (!accepted) {
+        await this.recordFailure(usernameKey, LOCKOUT_THRESHOLD, now);
+        if (clientKey) {
+          await this.recordFailure(clientKey, CLIENT_LOCKOUT_THRESHOLD, now);
+        }
+        return { error: "Invalid authentication code." };
+      }
+
+      await this.loginAttempts.deleteOne({ _id: usernameKey });
+      await this.totpChallenges.deleteOne({ _id: challengeState._id });
+      return await this.startSession(
+        userState,
+        challengeState.client,
+        challengeState.userAgent,
+        now,
+      );
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error("Error verifying TOTP login challenge:", e);
+        return { error: `Failed to verify TOTP: ${e.message}` };
+      } else {
+        console.error("Unknown error verifying TOTP login challenge:", e);
+        return { error: "Failed to verify TOTP due to an unknown error" };
+      }
+    }
+  }
+
   /**
    * getUserMaps(user: User): (maps: Map[])
    *
-   * requires: the User exists and has a valid active session
+   * requires: the User exists and has a valid active, unexpired session
    * effects: returns all BodyMaps associated with that User
    *
    * Note: This method queries the BodyMapGeneration concept's maps collection.
@@ -214,7 +1604,9 @@ export default class UserAuthenticationConcept {
         _id: session,
         userId: user,
       });
-      if (!sessionState || !sessionState.active) {
+      if (
+        !sessionState || !sessionState.active || this.isExpired(sessionState)
+      ) {
         return {
           error: `Session ${session} is not valid or active for user ${user}.`,
         };
@@ -247,13 +1639,16 @@ export default class UserAuthenticationConcept {
   /**
    * _getUser(username: String): (user: UserState | null)
    *
-   * effects: Returns the user state for a given username, or null if not found.
+   * effects: Returns the user state for a given username without its credentials, or null if not found.
    */
   async _getUser(
     { username }: { username: string },
-  ): Promise<{ user: UserState | null } | { error: string }> {
+  ): Promise<{ user: PublicUserState | null } | { error: string }> {
     try {
-      const user = await this.users.findOne({ username });
+      const user = await this.users.findOne(
+        { username: normalizeUsername(username) },
+        { projection: { passwordHash: 0, password: 0, totp: 0 } },
+      );
       return { user };
     } catch (e) {
       if (e instanceof Error) {
@@ -266,19 +1661,131 @@ export default class UserAuthenticationConcept {
     }
   }
 
+  /**
+   * _getLoginAttempts(username: String): (attempts: { failures: Number, lastFailure: Date | null, lockedUntil: Date | null })
+   *
+   * effects: Returns the recent failed login count for a username and when its lockout ends, if locked.
+   *          A username with no recent failures reports zero failures.
+   */
+  async _getLoginAttempts(
+    { username }: { username: string },
+  ): Promise<
+    | {
+      attempts: {
+        failures: number;
+        lastFailure: Date | null;
+        lockedUntil: Date | null;
+      };
+    }
+    | { error: string }
+  > {
+    try {
+      const attempt = await this.loginAttempts.findOne({
+        _id: `username:${normalizeUsername(username)}`,
+      });
+      if (!attempt) {
+        return {
+          attempts: { failures: 0, lastFailure: null, lockedUntil: null },
+        };
+      }
+      const now = Date.now();
+      const locked = attempt.lockedUntil &&
+          attempt.lockedUntil.getTime() > now
+        ? attempt.lockedUntil
+        : null;
+      const recent = now - attempt.lastFailure.getTime() < ATTEMPT_WINDOW;
+      return {
+        attempts: {
+          failures: recent || locked ? attempt.failures : 0,
+          lastFailure: attempt.lastFailure,
+          lockedUntil: locked,
+        },
+      };
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching login attempts for ${username}:`, e);
+        return { error: `Failed to fetch login attempts: ${e.message}` };
+      } else {
+        console.error(
+          `Unknown error fetching login attempts for ${username}:`,
+          e,
+        );
+        return {
+          error: "Failed to fetch login attempts due to an unknown error",
+        };
+      }
+    }
+  }
+
+  /**
+   * _getActiveSessions(user: User, current?: Session): (sessions: ActiveSessionView[])[]
+   *
+   * effects: Returns an array containing the User's active, unexpired sessions, most recently used first,
+   *          each with an opaque handle to revoke it by, its device label, user agent, client address,
+   *          start time and last-seen time. The session given as `current` is marked as such.
+   *          This method returns an array to be compatible with frames.query() which expects array returns.
+   *          Returns an empty array on error (which will cause frames to be filtered out).
+   */
+  async _getActiveSessions(
+    { user, current }: { user: User; current?: Session },
+  ): Promise<Array<{ sessions: ActiveSessionView[] }>> {
+    try {
+      const sessionStates = await this.sessions.find({
+        userId: user,
+        active: true,
+      }).toArray();
+      const now = new Date();
+      const unexpired = sessionStates.filter((sessionState) =>
+        !this.isExpired(sessionState, now)
+      );
+      const handles = await Promise.all(
+        unexpired.map((sessionState) => this.sessionHandle(sessionState._id)),
+      );
+      const sessions = unexpired
+        .map((sessionState, i) => ({
+          handle: handles[i],
+          current: sessionState._id === current,
+          device: sessionState.device ?? describeDevice(sessionState.userAgent),
+          userAgent: sessionState.userAgent ?? null,
+          client: sessionState.client ?? null,
+          startTimestamp: sessionState.startTimestamp,
+          lastSeen: sessionState.lastSeen ?? sessionState.startTimestamp,
+        }))
+        .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+      return [{ sessions }];
+    } catch (e) {
+      if (e instanceof Error) {
+        console.error(`Error fetching active sessions for user ${user}:`, e);
+      } else {
+        console.error(
+          `Unknown error fetching active sessions for user ${user}:`,
+          e,
+        );
+      }
+      // Return empty array on error - frames using this will be filtered out
+      return [];
+    }
+  }
+
   /**
    * _getSession(session: Session): (session: SessionState | null)[]
    *
    * effects: Returns an array containing the session state for a given session ID, or an array with null if not found.
+   *          The session state carries an `expired` flag, so callers must check both `active` and `expired`.
    *          This method returns an array to be compatible with frames.query() which expects array returns.
    *          Returns an empty array on error (which will cause frames to be filtered out).
    */
   async _getSession(
     { session }: { session: Session },
-  ): Promise<Array<{ session: SessionState | null }>> {
+  ): Promise<Array<{ session: SessionView | null }>> {
     try {
       const sessionState = await this.sessions.findOne({ _id: session });
-      return [{ session: sessionState }];
+      if (!sessionState) {
+        return [{ session: null }];
+      }
+      return [{
+        session: { ...sessionState, expired: this.isExpired(sessionState) },
+      }];
     } catch (e) {
       if (e instanceof Error) {
         console.error(`Error fetching session ${session}:`, e);
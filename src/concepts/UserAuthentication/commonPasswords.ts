@@ -0,0 +1,94 @@
+/**
+ * Passwords that appear at the top of public breach corpora, lowercased.
+ * Bundled with the concept so that registration never depends on a network
+ * lookup; extend it as needed.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "000000",
+  "111111",
+  "112233",
+  "121212",
+  "123123",
+  "123321",
+  "1234",
+  "12345",
+  "123456",
+  "1234567",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "123456a",
+  "123abc",
+  "123qwe",
+  "1q2w3e",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "1qaz2wsx",
+  "222222",
+  "555555",
+  "654321",
+  "666666",
+  "696969",
+  "7777777",
+  "87654321",
+  "888888",
+  "987654321",
+  "aa123456",
+  "aaaaaa",
+  "abc123",
+  "abcd1234",
+  "access",
+  "admin",
+  "admin123",
+  "administrator",
+  "asdfgh",
+  "asdfghjkl",
+  "ashley",
+  "azerty",
+  "bailey",
+  "baseball",
+  "batman",
+  "charlie",
+  "chocolate",
+  "computer",
+  "daniel",
+  "dragon",
+  "football",
+  "freedom",
+  "hello",
+  "hello123",
+  "hockey",
+  "iloveyou",
+  "jennifer",
+  "jordan",
+  "letmein",
+  "login",
+  "lovely",
+  "master",
+  "michael",
+  "monkey",
+  "mustang",
+  "passw0rd",
+  "password",
+  "password1",
+  "password12",
+  "password123",
+  "password1234",
+  "princess",
+  "qazwsx",
+  "qwerty",
+  "qwerty123",
+  "qwertyuiop",
+  "secret",
+  "shadow",
+  "starwars",
+  "summer",
+  "sunshine",
+  "superman",
+  "trustno1",
+  "welcome",
+  "welcome1",
+  "whatever",
+  "zaq12wsx",
+  "zxcvbnm",
+]);
@@ -0,0 +1,39 @@
+/**
+ * Browser and platform signatures, checked in order. Several browsers include
+ * the tokens of others in their user agent (e.g. Edge claims to be Chrome and
+ * Safari), so the more specific entries come first.
+ */
+const BROWSERS: Array<[RegExp, string]> = [
+  [/\bEdg(e|A|iOS)?\//, "Edge"],
+  [/\b(OPR|Opera)\//, "Opera"],
+  [/\b(Firefox|FxiOS)\//, "Firefox"],
+  [/\b(Chrome|CriOS)\//, "Chrome"],
+  [/\bVersion\/[\d.]+.*\bSafari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/\biPhone\b/, "iPhone"],
+  [/\biPad\b/, "iPad"],
+  [/\bAndroid\b/, "Android"],
+  [/\bCrOS\b/, "ChromeOS"],
+  [/\bWindows\b/, "Windows"],
+  [/\bMac OS X\b/, "macOS"],
+  [/\bLinux\b/, "Linux"],
+];
+
+/**
+ * Derives a short human-readable label for the device behind a user agent,
+ * such as "Firefox on Android", for listing a user's sessions.
+ * Unrecognised parts are left out; an unrecognised user agent is "Unknown device".
+ */
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? "Unknown device";
+}
@@ -0,0 +1,65 @@
+/**
+ * # Outbox configuration
+ * The following environment variables are available:
+ *
+ * - USER_AUTH_OUTBOX: where outgoing messages are delivered, "console" (default) or "file"
+ * - USER_AUTH_OUTBOX_FILE: the file appended to by the "file" outbox, default "outbox.log"
+ */
+const USER_AUTH_OUTBOX = Deno.env.get("USER_AUTH_OUTBOX") ?? "console";
+const USER_AUTH_OUTBOX_FILE = Deno.env.get("USER_AUTH_OUTBOX_FILE") ??
+  "outbox.log";
+
+/**
+ * A message addressed to a user, such as a password reset link.
+ * Users are addressed by username, as UserAuthentication records no other contact details.
+ */
+export interface OutboxMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Delivers messages to users. Production deployments can supply their own
+ * implementation (e.g. an email provider) to the concept constructor, which is
+ * responsible for mapping each username to the address the message goes to,
+ * unless usernames are email addresses already.
+ */
+export interface Outbox {
+  send(message: OutboxMessage): Promise<void>;
+}
+
+/**
+ * Local stand-in that prints messages to the server console.
+ */
+export class ConsoleOutbox implements Outbox {
+  send(message: OutboxMessage): Promise<void> {
+    console.log(
+      `[Outbox] To: ${message.to}\nSubject: ${message.subject}\n\n${message.body}\n`,
+    );
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Local stand-in that appends messages to a file, one JSON record per line.
+ */
+export class FileOutbox implements Outbox {
+  constructor(private readonly path: string) {}
+
+  async send(message: OutboxMessage): Promise<void> {
+    const record = { ...message, sentAt: new Date().toISOString() };
+    await Deno.writeTextFile(this.path, JSON.stringify(record) + "\n", {
+      append: true,
+    });
+  }
+}
+
+/**
+ * Returns the outbox selected by the environment configuration.
+ */
+export function defaultOutbox(): Outbox {
+  return USER_AUTH_OUTBOX === "file"
+    ? new FileOutbox(USER_AUTH_OUTBOX_FILE)
+    : new ConsoleOutbox();
+}
@@ -0,0 +1,152 @@
+import {
+  fromBase64,
+  randomBytes,
+  timingSafeEqual,
+  toBase64,
+} from "@utils/crypto.ts";
+
+/**
+ * # Password hashing configuration
+ * The following environment variables are available:
+ *
+ * - USER_AUTH_PBKDF2_ITERATIONS: PBKDF2 iteration count for new hashes, default 600000.
+ *   Values that are not whole numbers of at least 100000 are ignored in favour of the default.
+ */
+const DEFAULT_PBKDF2_ITERATIONS = 600000;
+const MIN_PBKDF2_ITERATIONS = 100000;
+
+function configuredIterations(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_PBKDF2_ITERATIONS;
+  }
+  const iterations = Number(value);
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS) {
+    console.warn(
+      `USER_AUTH_PBKDF2_ITERATIONS must be a whole number of at least ${MIN_PBKDF2_ITERATIONS}; using the default of ${DEFAULT_PBKDF2_ITERATIONS}.`,
+    );
+    return DEFAULT_PBKDF2_ITERATIONS;
+  }
+  return iterations;
+}
+
+const PBKDF2_ITERATIONS = configuredIterations(
+  Deno.env.get("USER_AUTH_PBKDF2_ITERATIONS"),
+);
+
+// Algorithm tag stored at the front of every encoded hash
+const ALGORITHM = "pbkdf2-sha256";
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+/**
+ * Stored hashes are self-describing so that parameters can be raised later
+ * without invalidating existing records:
+ *
+ *   pbkdf2-sha256$<iterations>$<base64 salt>$<base64 hash>
+ */
+interface ParsedHash {
+  algorithm: string;
+  iterations: number;
+  salt: Uint8Array<ArrayBuffer>;
+  hash: Uint8Array;
+}
+
+function parseHash(encoded: string): ParsedHash | null {
+  const parts = encoded.split("$");
+  if (parts.length !== 4 || parts[0] !== ALGORITHM) {
+    return null;
+  }
+  const iterations = parseInt(parts[1], 10);
+  if (!Number.isFinite(iterations) || iterations <= 0) {
+    return null;
+  }
+  try {
+    return {
+      algorithm: parts[0],
+      iterations,
+      salt: fromBase64(parts[2]),
+      hash: fromBase64(parts[3]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function derive(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hashes a password with a fresh random salt and the configured parameters.
+ * @returns the encoded hash, including its algorithm and parameter tag
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return [ALGORITHM, PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join(
+    "$",
+  );
+}
+
+/**
+ * Checks a candidate password against an encoded hash in constant time.
+ * Returns false for malformed or unrecognised hashes.
+ */
+export async function verifyPassword(
+  password: string,
+  encoded: string,
+): Promise<boolean> {
+  const parsed = parseHash(encoded);
+  if (!parsed) {
+    return false;
+  }
+  const candidate = await derive(password, parsed.salt, parsed.iterations);
+  return timingSafeEqual(candidate, parsed.hash);
+}
+
+// Hash of a random password, derived on first use, for verifyNothing to check against
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Spends as long as verifyPassword checking a candidate against a hash no password matches,
+ * so that an unknown username takes as long to reject as a wrong password.
+ * @returns always false
+ */
+export async function verifyNothing(password: string): Promise<false> {
+  dummyHash ??= hashPassword(toBase64(randomBytes(SALT_BYTES)));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
+
+/**
+ * Checks a candidate password against a legacy plaintext record in constant time.
+ */
+export function verifyPlaintext(password: string, stored: string): boolean {
+  const encoder = new TextEncoder();
+  return timingSafeEqual(encoder.encode(password), encoder.encode(stored));
+}
+
+/**
+ * Whether an encoded hash was produced with weaker parameters than the current
+ * configuration and should be replaced on the next successful login.
+ */
+export function needsRehash(encoded: string): boolean {
+  const parsed = parseHash(encoded);
+  return !parsed || parsed.iterations < PBKDF2_ITERATIONS;
+}
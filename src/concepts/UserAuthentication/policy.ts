@@ -0,0 +1,113 @@
+import { COMMON_PASSWORDS } from "./commonPasswords.ts";
+
+/**
+ * # Credential policy configuration
+ * The following environment variables are available:
+ *
+ * - USER_AUTH_PASSWORD_MIN_LENGTH: minimum password length in characters, default 8
+ * - USER_AUTH_PASSWORD_REJECT_COMMON: whether to reject passwords on the bundled common-password list, default true
+ */
+const PASSWORD_MIN_LENGTH = parseInt(
+  Deno.env.get("USER_AUTH_PASSWORD_MIN_LENGTH") ?? "8",
+  10,
+);
+const PASSWORD_REJECT_COMMON =
+  Deno.env.get("USER_AUTH_PASSWORD_REJECT_COMMON") !== "false";
+
+// Upper bounds keep stored usernames readable and bound the cost of hashing
+const USERNAME_MAX_LENGTH = 64;
+const PASSWORD_MAX_LENGTH = 1024;
+
+/**
+ * A single reason a username or password was rejected, suitable for showing
+ * next to the offending form field.
+ */
+export interface PolicyViolation {
+  field: "username" | "password";
+  code: string;
+  message: string;
+}
+
+/**
+ * Normalizes a username so that visually identical names compare equal:
+ * Unicode NFKC, surrounding whitespace trimmed, and case-folded.
+ */
+export function normalizeUsername(username: string): string {
+  // Upper-then-lower approximates full case folding (e.g. "ß" and "ss" match)
+  return username.normalize("NFKC").trim().toUpperCase().toLowerCase()
+    .normalize("NFKC");
+}
+
+/**
+ * Checks a normalized username against the policy.
+ * @returns the violations found, empty if the username is acceptable
+ */
+export function usernameViolations(username: string): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  if (username.length === 0) {
+    violations.push({
+      field: "username",
+      code: "required",
+      message: "Username is required.",
+    });
+  }
+  if ([...username].length > USERNAME_MAX_LENGTH) {
+    violations.push({
+      field: "username",
+      code: "too_long",
+      message: `Username must be at most ${USERNAME_MAX_LENGTH} characters.`,
+    });
+  }
+  // deno-lint-ignore no-control-regex
+  if (/[\u0000-\u001f\u007f]/.test(username)) {
+    violations.push({
+      field: "username",
+      code: "invalid_characters",
+      message: "Username must not contain control characters.",
+    });
+  }
+  return violations;
+}
+
+/**
+ * Checks a candidate password against the policy.
+ * @param password The candidate password.
+ * @param username The normalized username it is for, which it must not match.
+ * @returns the violations found, empty if the password is acceptable
+ */
+export function passwordViolations(
+  password: string,
+  username: string,
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const length = [...password].length;
+  if (length < PASSWORD_MIN_LENGTH) {
+    violations.push({
+      field: "password",
+      code: "too_short",
+      message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters.`,
+    });
+  }
+  if (length > PASSWORD_MAX_LENGTH) {
+    violations.push({
+      field: "password",
+      code: "too_long",
+      message: `Password must be at most ${PASSWORD_MAX_LENGTH} characters.`,
+    });
+  }
+  if (PASSWORD_REJECT_COMMON && COMMON_PASSWORDS.has(password.toLowerCase())) {
+    violations.push({
+      field: "password",
+      code: "common",
+      message: "Password is too common. Choose one that is harder to guess.",
+    });
+  }
+  if (username !== "" && normalizeUsername(password) === username) {
+    violations.push({
+      field: "password",
+      code: "matches_username",
+      message: "Password must not be the same as the username.",
+    });
+  }
+  return violations;
+}
@@ -6,6 +6,7 @@
 */
 import { $vars } from "./vars.ts";
 import { inspect, uuid } from "./util.ts";
+import { redact } from "../utils/redact.ts";
 import { ActionConcept, ActionRecord } from "./actions.ts";
 import { Frames } from "./frames.ts";
 import {
@@ -80,7 +81,10 @@ export class SyncConcept {
     if (this.logging === Logging.VERBOSE) {
       const { concept, ...rec } = record;
       const conceptName = concept.constructor.name;
-      console.log("Synchronizing action:", { concept: conceptName, ...rec });
+      console.log(
+        "Synchronizing action:",
+        redact({ concept: conceptName, ...rec }),
+      );
     }
     if (this.logging === Logging.TRACE) {
       const boundAction = (record.action as InstrumentedAction).action;
@@ -93,8 +97,8 @@ export class SyncConcept {
         ? boundAction.name.slice("bound ".length)
         : "UNDEFINED";
       console.log(
-        `\n${conceptName}.${boundName} ${inspect(record.input)} => ${
-          inspect(record.output)
+        `\n${conceptName}.${boundName} ${inspect(redact(record.input))} => ${
+          inspect(redact(record.output))
         }\n`,
       );
     }
@@ -124,7 +128,7 @@ export class SyncConcept {
   }
   logFrames(message: string, frames: Frames) {
     if (this.logging === Logging.VERBOSE && frames.length > 0) {
-      console.log(message, frames);
+      console.log(message, redact(frames));
     }
   }
   async matchWhen(
@@ -205,7 +209,7 @@ export class SyncConcept {
     // Await all actions
     for (const [thenAction, thenRecord] of thens) {
       if (this.logging === Logging.VERBOSE) {
-        console.log(`${sync.sync}: THEN ${thenAction}`, thenRecord);
+        console.log(`${sync.sync}: THEN ${thenAction}`, redact(thenRecord));
       }
       await thenAction(thenRecord);
     }
@@ -12,6 +12,44 @@ const { Engine } = concepts;
 import { Logging } from "@engine";
 import { startRequestingServer } from "@concepts/Requesting/RequestingConcept.ts";
 import syncs from "@syncs";
+import { Scheduler } from "@utils/scheduler.ts";
+
+/**
+ * # Scheduler configuration
+ * The following environment variables are available:
+ *
+ * - SCHEDULER_ENABLED: whether this instance runs scheduled system actions, default true.
+ *   Instances sharing a database coordinate so each run happens once, so this is only
+ *   needed to keep specific instances free of background work.
+ * - DAILY_GENERATION_INTERVAL: how often to check for users whose local day has rolled over,
+ *   default 900000ms (15 minutes, so timezones offset by a quarter hour roll over on time)
+ * - TRASH_PURGE_INTERVAL: how often to permanently delete maps whose trash retention has run out,
+ *   default 3600000ms (1 hour)
+ */
+const SCHEDULER_ENABLED = Deno.env.get("SCHEDULER_ENABLED") !== "false";
+const DAILY_GENERATION_INTERVAL = intervalFromEnv(
+  "DAILY_GENERATION_INTERVAL",
+  900000,
+);
+const TRASH_PURGE_INTERVAL = intervalFromEnv("TRASH_PURGE_INTERVAL", 3600000);
+
+/**
+ * Reads an interval in milliseconds from the environment. Anything but a positive whole
+ * number is reported and replaced with the default, since a zero or NaN interval would
+ * make the scheduler rearm its timer in a tight loop.
+ */
+function intervalFromEnv(name: string, fallback: number): number {
+  const value = Deno.env.get(name);
+  if (value === undefined) return fallback;
+  const interval = Number(value);
+  if (!Number.isSafeInteger(interval) || interval <= 0) {
+    console.error(
+      `${name} must be a positive whole number of milliseconds, got "${value}"; using ${fallback}.`,
+    );
+    return fallback;
+  }
+  return interval;
+}
 
 /**
  * Available logging levels:
@@ -26,3 +64,19 @@ Engine.register(syncs);
 
 // Start a server to provide the Requesting concept with external/system actions.
 startRequestingServer(concepts);
+
+// Run system actions, such as the daily map rollover, on their schedules.
+if (SCHEDULER_ENABLED) {
+  const scheduler = new Scheduler(concepts.db);
+  scheduler.schedule({
+    name: "BodyMapGeneration.triggerDailyMapGeneration",
+    intervalMs: DAILY_GENERATION_INTERVAL,
+    run: () => concepts.BodyMapGeneration.triggerDailyMapGeneration(),
+  });
+  scheduler.schedule({
+    name: "BodyMapGeneration.purgeTrash",
+    intervalMs: TRASH_PURGE_INTERVAL,
+    run: () => concepts.BodyMapGeneration.purgeTrash(),
+  });
+  scheduler.start();
+}
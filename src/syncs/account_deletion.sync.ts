@@ -0,0 +1,203 @@
+import { actions, Sync } from "@engine";
+import {
+  BodyMapGeneration,
+  CareTeam,
+  MapJournal,
+  MapSummaryGeneration,
+  PainLocationScoring,
+  Requesting,
+  UserAuthentication,
+} from "@concepts";
+import { withSessionUser } from "./session.ts";
+
+/**
+ * Catches an incoming request to delete the logged-in user's account, validates the session,
+ * and triggers the deleteAccount action, which re-checks the user's password.
+ */
+export const HandleDeleteAccountRequest: Sync = (
+  { request, session, user, password },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount", session, password }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.deleteAccount, { user, password }],
+  ),
+});
+
+/**
+ * Once the account itself is deleted, erases the user's data from every other concept.
+ * Requesting also erases the requests made with the user's sessions or naming their username.
+ */
+export const CascadeAccountErasure: Sync = ({ user, username, sessions }) => ({
+  when: actions(
+    [UserAuthentication.deleteAccount, {}, { user, username, sessions }],
+  ),
+  then: actions(
+    [BodyMapGeneration.eraseUser, { user }],
+    [PainLocationScoring.eraseUser, { user }],
+    [MapSummaryGeneration.eraseUser, { user }],
+    [CareTeam.eraseUser, { user }],
+    [MapJournal.eraseUser, { user }],
+    [Requesting.eraseUser, { user, username, sessions }],
+  ),
+});
+
+/**
+ * When every concept has erased the user's data, responds to the original request
+ * with an erasure receipt listing how many records were removed from each concept.
+ */
+export const HandleDeleteAccountResponse: Sync = ({
+  request,
+  user,
+  authRemoved,
+  mapsRemoved,
+  scoringRemoved,
+  summariesRemoved,
+  careTeamRemoved,
+  journalRemoved,
+  requestsRemoved,
+  receipt,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [UserAuthentication.deleteAccount, {}, { user, removed: authRemoved }],
+    [BodyMapGeneration.eraseUser, {}, { removed: mapsRemoved }],
+    [PainLocationScoring.eraseUser, {}, { removed: scoringRemoved }],
+    [MapSummaryGeneration.eraseUser, {}, { removed: summariesRemoved }],
+    [CareTeam.eraseUser, {}, { removed: careTeamRemoved }],
+    [MapJournal.eraseUser, {}, { removed: journalRemoved }],
+    [Requesting.eraseUser, {}, { removed: requestsRemoved }],
+  ),
+  where: (frames) =>
+    frames.map(($) => ({
+      ...$,
+      [receipt]: {
+        user: $[user],
+        erasedAt: new Date().toISOString(),
+        removed: {
+          UserAuthentication: $[authRemoved],
+          BodyMapGeneration: $[mapsRemoved],
+          PainLocationScoring: $[scoringRemoved],
+          MapSummaryGeneration: $[summariesRemoved],
+          CareTeam: $[careTeamRemoved],
+          MapJournal: $[journalRemoved],
+          Requesting: $[requestsRemoved],
+        },
+      },
+    })),
+  then: actions(
+    [Requesting.respond, { request, receipt }],
+  ),
+});
+
+/**
+ * If deleteAccount fails (e.g. wrong password), this sync catches the error and sends it back
+ * in response to the original request. Nothing is erased in that case.
+ */
+export const HandleDeleteAccountErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [UserAuthentication.deleteAccount, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If BodyMapGeneration fails to erase the user's maps, reports the failure
+ * in response to the original request.
+ */
+export const HandleBodyMapErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [BodyMapGeneration.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If PainLocationScoring fails to erase the user's regions, reports the failure
+ * in response to the original request.
+ */
+export const HandlePainScoringErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [PainLocationScoring.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If MapSummaryGeneration fails to erase the user's summaries, reports the failure
+ * in response to the original request.
+ */
+export const HandleSummaryErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [MapSummaryGeneration.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If CareTeam fails to erase the user's grants and access log, reports the failure
+ * in response to the original request.
+ */
+export const HandleCareTeamErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [CareTeam.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If MapJournal fails to erase the user's journal entries and tags, reports the failure
+ * in response to the original request.
+ */
+export const HandleJournalErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [MapJournal.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If Requesting fails to erase the user's requests, reports the failure
+ * in response to the original request.
+ */
+export const HandleRequestsErasureErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, { request }],
+    [Requesting.eraseUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
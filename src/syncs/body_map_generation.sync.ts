@@ -1,5 +1,20 @@
-import { actions, Sync } from "@engine";
-import { BodyMapGeneration, Requesting, UserAuthentication } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import {
+  BodyMapGeneration,
+  MapJournal,
+  PainLocationScoring,
+  Requesting,
+  UserAuthentication,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+import { withSessionUser } from "./session.ts";
+import {
+  carryForwardSource,
+  latestMarkedMap,
+  mapForDate,
+  mapsInRange,
+  savedMaps,
+} from "./maps.ts";
 
 /**
  * Catches an incoming request to save the current map, validates the session,
@@ -8,32 +23,13 @@ import { BodyMapGeneration, Requesting, UserAuthentication } from "@concepts";
  * Note: This sync is used when BodyMapGeneration.saveMap is excluded from passthrough
  * and requests go through the Requesting concept instead.
  */
-export const HandleSaveMapRequest: Sync = (
-  { request, session, user, sessionState },
-) => ({
+export const HandleSaveMapRequest: Sync = ({ request, session, user }) => ({
   when: actions(
     [Requesting.request, { path: "/map/save", session }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [BodyMapGeneration.saveMap, { user }],
   ),
 });
@@ -72,32 +68,13 @@ export const HandleSaveMapErrorResponse: Sync = ({ request, error }) => ({
  * Note: This sync is used when BodyMapGeneration.clearMap is excluded from passthrough
  * and requests go through the Requesting concept instead.
  */
-export const HandleClearMapRequest: Sync = (
-  { request, session, user, sessionState },
-) => ({
+export const HandleClearMapRequest: Sync = ({ request, session, user }) => ({
   when: actions(
     [Requesting.request, { path: "/map/clear", session }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [BodyMapGeneration.clearMap, { user }],
   ),
 });
@@ -130,14 +107,824 @@ export const HandleClearMapErrorResponse: Sync = ({ request, error }) => ({
 });
 
 /**
- * Note: _getCurrentMap and _getSavedMaps are query methods (starting with `_`)
- * that are included in passthrough routes, meaning they are exposed directly
- * via the Requesting concept's passthrough mechanism, not through syncs.
- * 
- * Query methods (starting with `_`) are NOT instrumented as actions and
- * cannot be used in sync `then: actions()` clauses. They can only be used
- * with `frames.query()` in `where` clauses for internal queries.
+ * Catches an incoming request to restore one of the user's cleared maps from the trash,
+ * validates the session, and triggers the restoreMap action.
+ */
+export const HandleRestoreMapRequest: Sync = (
+  { request, session, user, map },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/restore", session, map }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [BodyMapGeneration.restoreMap, { user, map }],
+  ),
+});
+
+/**
+ * When restoreMap is successful, this sync responds to the original request.
+ */
+export const HandleRestoreMapResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/restore" }, { request }],
+    [BodyMapGeneration.restoreMap, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If restoreMap fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleRestoreMapErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/restore" }, { request }],
+    [BodyMapGeneration.restoreMap, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to set the timezone the logged-in user's daily map rollover follows,
+ * validates the session, and triggers the setTimezone action.
+ */
+export const HandleSetTimezoneRequest: Sync = (
+  { request, session, user, timezone },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/setTimezone", session, timezone }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [BodyMapGeneration.setTimezone, { user, timezone }],
+  ),
+});
+
+/**
+ * When setTimezone is successful, this sync responds to the original request.
+ */
+export const HandleSetTimezoneResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/setTimezone" }, { request }],
+    [BodyMapGeneration.setTimezone, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If setTimezone fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleSetTimezoneErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/setTimezone" }, { request }],
+    [BodyMapGeneration.setTimezone, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to set how the logged-in user's new maps are prefilled from their previous one,
+ * validates the session, and triggers the setCarryForward action.
+ */
+export const HandleSetCarryForwardRequest: Sync = (
+  { request, session, user, mode },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/carryForward", session, mode }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [BodyMapGeneration.setCarryForward, { user, mode }],
+  ),
+});
+
+/**
+ * When setCarryForward is successful, this sync responds to the original request.
+ */
+export const HandleSetCarryForwardResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/carryForward" }, { request }],
+    [BodyMapGeneration.setCarryForward, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If setCarryForward fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleSetCarryForwardErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/carryForward" }, { request }],
+    [BodyMapGeneration.setCarryForward, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to prefill the user's current map from their previous one,
+ * validates the session, and has PainLocationScoring copy the previous map's regions.
+ *
+ * Note: Scores are copied, marked as carried, when the user's carry-forward setting is "scores".
+ */
+export const HandleCopyPreviousRequest: Sync = (
+  { request, session, user, map, previousMap, withScores },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/copyPrevious", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    frames = await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await carryForwardSource(user as ID);
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { map, previousMap, withScores },
+    );
+    return frames.filter(($) => $[map] !== null && $[previousMap] !== null);
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [PainLocationScoring.carryForward, { user, from: previousMap, to: map, withScores }],
+  ),
+});
+
+/**
+ * If the user has no current map, or no earlier map with regions marked, this sync
+ * responds to the original request with an error.
+ */
+export const HandleCopyPreviousUnavailableResponse: Sync = (
+  { request, session, user, map, previousMap, withScores },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/copyPrevious", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    frames = await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await carryForwardSource(user as ID);
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { map, previousMap, withScores },
+    );
+    return frames.filter(($) => $[map] === null || $[previousMap] === null);
+  },
+  then: actions(
+    [Requesting.respond, { request, error: "There is no current map, or no earlier map with regions to copy." }],
+  ),
+});
+
+/**
+ * If looking up the maps to copy between fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleCopyPreviousSourceErrorResponse: Sync = (
+  { request, session, user, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/copyPrevious", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await carryForwardSource(user as ID);
+        return "error" in result ? [result] : [];
+      },
+      { user },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * When the previous map's regions are copied, this sync responds to the original request with the new regions.
+ */
+export const HandleCopyPreviousResponse: Sync = ({ request, regions }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/copyPrevious" }, { request }],
+    [PainLocationScoring.carryForward, {}, { regions }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, regions }],
+  ),
+});
+
+/**
+ * If copying the previous map's regions fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleCopyPreviousErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/copyPrevious" }, { request }],
+    [PainLocationScoring.carryForward, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to render one of the user's maps as a heatmap image,
+ * validates the session, looks up the map's regions in PainLocationScoring,
+ * and triggers the renderMap action with them.
+ */
+export const HandleRenderMapRequest: Sync = (
+  { request, session, user, map, format, regions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/render", session, map, format }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await PainLocationScoring._getRegionsForMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        // A map PainLocationScoring does not track has no regions marked yet
+        return [{ regions: "error" in result ? [] : result }];
+      },
+      { user, map },
+      { regions },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [BodyMapGeneration.renderMap, { user, map, format, regions }],
+  ),
+});
+
+/**
+ * When renderMap is successful, this sync responds to the original request with the image.
+ */
+export const HandleRenderMapResponse: Sync = (
+  { request, contentType, image },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/render" }, { request }],
+    [BodyMapGeneration.renderMap, {}, { contentType, image }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, contentType, image }],
+  ),
+});
+
+/**
+ * If renderMap fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleRenderMapErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/render" }, { request }],
+    [BodyMapGeneration.renderMap, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the logged-in user's current map,
+ * validates the session, and responds with the map (null if they have none).
+ */
+export const HandleGetCurrentMapRequest: Sync = (
+  { request, session, user, map },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getCurrentMap", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getCurrentMap({
+          user: user as ID,
+        });
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { map },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, map }],
+  ),
+});
+
+/**
+ * If fetching the current map fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetCurrentMapErrorResponse: Sync = (
+  { request, session, user, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getCurrentMap", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getCurrentMap({
+          user: user as ID,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { user },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the logged-in user's saved maps,
+ * validates the session, and responds with the maps, each with its MapJournal entry
+ * if includeJournal is true.
+ *
+ * Note: includeJournal must be given; send false to leave out each map's journal entry.
+ */
+export const HandleGetSavedMapsRequest: Sync = (
+  { request, session, user, includeJournal, maps },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getSavedMaps", session, includeJournal }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, includeJournal }: { user: unknown; includeJournal: unknown },
+      ) => {
+        const result = await savedMaps(user as ID, includeJournal === true);
+        return "error" in result ? [] : [result];
+      },
+      { user, includeJournal },
+      { maps },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, maps }],
+  ),
+});
+
+/**
+ * If fetching the saved maps fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetSavedMapsErrorResponse: Sync = (
+  { request, session, user, includeJournal, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getSavedMaps", session, includeJournal }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, includeJournal }: { user: unknown; includeJournal: unknown },
+      ) => {
+        const result = await savedMaps(user as ID, includeJournal === true);
+        return "error" in result ? [result] : [];
+      },
+      { user, includeJournal },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for a page of the logged-in user's map history,
+ * validates the session, and responds with the page and the cursor for the next one.
+ * Each map comes with its region count and highest score from PainLocationScoring.
+ *
+ * Note: start, end, cursor and limit must all be given; send null for any that is left open.
+ */
+export const HandleGetMapsInRangeRequest: Sync = (
+  { request, session, user, start, end, cursor, limit, maps, nextCursor },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getMapsInRange", session, start, end, cursor, limit }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, start, end, cursor, limit }: {
+          user: unknown;
+          start: unknown;
+          end: unknown;
+          cursor: unknown;
+          limit: unknown;
+        },
+      ) => {
+        const result = await mapsInRange({
+          user: user as ID,
+          start: (start ?? undefined) as string | undefined,
+          end: (end ?? undefined) as string | undefined,
+          cursor: (cursor ?? undefined) as string | undefined,
+          limit: (limit ?? undefined) as number | undefined,
+        });
+        return "error" in result ? [] : [result];
+      },
+      { user, start, end, cursor, limit },
+      { maps, nextCursor },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, maps, nextCursor }],
+  ),
+});
+
+/**
+ * If the range or page is not valid, or fetching it fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetMapsInRangeErrorResponse: Sync = (
+  { request, session, user, start, end, cursor, limit, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getMapsInRange", session, start, end, cursor, limit }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, start, end, cursor, limit }: {
+          user: unknown;
+          start: unknown;
+          end: unknown;
+          cursor: unknown;
+          limit: unknown;
+        },
+      ) => {
+        const result = await mapsInRange({
+          user: user as ID,
+          start: (start ?? undefined) as string | undefined,
+          end: (end ?? undefined) as string | undefined,
+          cursor: (cursor ?? undefined) as string | undefined,
+          limit: (limit ?? undefined) as number | undefined,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { user, start, end, cursor, limit },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the logged-in user's map on a calendar date,
+ * validates the session, and responds with the map (null if there is none),
+ * with its region count and highest score from PainLocationScoring.
+ */
+export const HandleGetMapForDateRequest: Sync = (
+  { request, session, user, date, map },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getMapForDate", session, date }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, date }: { user: unknown; date: unknown }) => {
+        const result = await mapForDate(user as ID, date as string);
+        return "error" in result ? [] : [result];
+      },
+      { user, date },
+      { map },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, map }],
+  ),
+});
+
+/**
+ * If the date is not valid, or fetching the map fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetMapForDateErrorResponse: Sync = (
+  { request, session, user, date, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getMapForDate", session, date }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, date }: { user: unknown; date: unknown }) => {
+        const result = await mapForDate(user as ID, date as string);
+        return "error" in result ? [result] : [];
+      },
+      { user, date },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the maps in the logged-in user's trash,
+ * validates the session, and responds with the maps.
+ */
+export const HandleGetTrashedMapsRequest: Sync = (
+  { request, session, user, maps },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getTrashedMaps", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getTrashedMaps({
+          user: user as ID,
+        });
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { maps },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, maps }],
+  ),
+});
+
+/**
+ * If fetching the trashed maps fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetTrashedMapsErrorResponse: Sync = (
+  { request, session, user, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getTrashedMaps", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getTrashedMaps({
+          user: user as ID,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { user },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the maps the logged-in user's current map would be
+ * prefilled from, validates the session, and responds with them.
+ */
+export const HandleGetCarryForwardSourceRequest: Sync = (
+  { request, session, user, map, previousMap, withScores },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getCarryForwardSource", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await carryForwardSource(user as ID);
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { map, previousMap, withScores },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, map, previousMap, withScores }],
+  ),
+});
+
+/**
+ * If looking up the maps to prefill from fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetCarryForwardSourceErrorResponse: Sync = (
+  { request, session, user, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/BodyMapGeneration/_getCarryForwardSource", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await carryForwardSource(user as ID);
+        return "error" in result ? [result] : [];
+      },
+      { user },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * When a registration request includes a timezone and registration succeeds,
+ * this sync sets it as the new user's rollover timezone.
+ *
+ * Note: The timezone is optional at registration; without it this sync does not fire and the user
+ * rolls over at UTC midnight until they set one. The registration response does not wait on this,
+ * so an unknown timezone is simply not applied rather than failing the registration.
+ */
+export const SetTimezoneOnRegister: Sync = ({ request, user, timezone }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/register", timezone }, { request }],
+    [UserAuthentication.register, {}, { user }],
+  ),
+  then: actions(
+    [BodyMapGeneration.setTimezone, { user, timezone }],
+  ),
+});
+
+/**
+ * When a user registers, this sync generates their first map, which also makes them known
+ * to the daily rollover. Later maps come from the rollover, which carries them forward.
+ *
+ * Note: This is defined after SetTimezoneOnRegister, whose setTimezone runs first, so the
+ * first map is dated in the user's own timezone when they gave one.
+ */
+export const GenerateMapOnRegister: Sync = ({ user }) => ({
+  when: actions(
+    [UserAuthentication.register, {}, { user }],
+  ),
+  then: actions(
+    [BodyMapGeneration.generateMap, { user }],
+  ),
+});
+
+/**
+ * When generateMap returns a map, this sync has PainLocationScoring track it for the user,
+ * so regions can be added to it.
+ */
+export const TrackGeneratedMap: Sync = ({ user, mapId }) => ({
+  when: actions(
+    [BodyMapGeneration.generateMap, { user }, { mapId }],
+  ),
+  then: actions(
+    [PainLocationScoring.trackMap, { user, map: mapId }],
+  ),
+});
+
+/**
+ * When the daily rollover gives users new maps, this sync has PainLocationScoring track each
+ * of them for its user, so regions can be added to them.
+ */
+export const TrackRolledOverMaps: Sync = ({ generated, user, map }) => ({
+  when: actions(
+    [BodyMapGeneration.triggerDailyMapGeneration, {}, { generated }],
+  ),
+  where: (frames) => {
+    // One frame per map generated
+    return new Frames(
+      ...frames.flatMap(($) =>
+        ($[generated] as Array<{ user: unknown; map: unknown }>).map((g) => ({
+          ...$,
+          [user]: g.user,
+          [map]: g.map,
+        }))
+      ),
+    );
+  },
+  then: actions(
+    [PainLocationScoring.trackMap, { user, map }],
+  ),
+});
+
+/**
+ * When the daily rollover starts maps that should be prefilled, this sync has PainLocationScoring
+ * copy the regions of each user's latest earlier map with regions marked onto their new one.
+ */
+export const CarryForwardOnRollover: Sync = (
+  { carried, user, previousMaps, from, to, withScores },
+) => ({
+  when: actions(
+    [BodyMapGeneration.triggerDailyMapGeneration, {}, { carried }],
+  ),
+  where: async (frames) => {
+    // One frame per user whose map may be carried forward
+    frames = new Frames(
+      ...frames.flatMap(($) =>
+        ($[carried] as Array<{
+          user: unknown;
+          previousMaps: unknown[];
+          to: unknown;
+          withScores: boolean;
+        }>).map((c) => ({
+          ...$,
+          [user]: c.user,
+          [previousMaps]: c.previousMaps,
+          [to]: c.to,
+          [withScores]: c.withScores,
+        }))
+      ),
+    );
+    // Users with nothing marked on their earlier maps have nothing to carry
+    return await frames.queryAsync(
+      async (
+        { user, previousMaps }: { user: unknown; previousMaps: unknown },
+      ) => {
+        const result = await latestMarkedMap(user as ID, previousMaps as ID[]);
+        return "error" in result || result.map === null
+          ? []
+          : [{ from: result.map }];
+      },
+      { user, previousMaps },
+      { from },
+    );
+  },
+  then: actions(
+    [PainLocationScoring.carryForward, { user, from, to, withScores }],
+  ),
+});
+
+/**
+ * When the scheduled purge permanently deletes maps from the trash, this sync deletes
+ * the regions scored on them from PainLocationScoring.
+ */
+export const PurgeTrashedMapRegions: Sync = ({ purged }) => ({
+  when: actions(
+    [BodyMapGeneration.purgeTrash, {}, { purged }],
+  ),
+  then: actions(
+    [PainLocationScoring.untrackMaps, { maps: purged }],
+  ),
+});
+
+/**
+ * When the scheduled purge permanently deletes maps from the trash, this sync deletes
+ * their journal entries from MapJournal.
+ */
+export const PurgeTrashedMapEntries: Sync = ({ purged }) => ({
+  when: actions(
+    [BodyMapGeneration.purgeTrash, {}, { purged }],
+  ),
+  then: actions(
+    [MapJournal.removeMapEntries, { maps: purged }],
+  ),
+});
+
+/**
+ * Note: Query methods (starting with `_`) are NOT instrumented as actions and
+ * cannot be used in sync `then: actions()` clauses. The query routes above
+ * therefore run the query in `where`, for the session's user only, and respond
+ * directly.
  * 
- * Since these methods are in the passthrough inclusions list, they are
- * handled directly by the Requesting concept and do not need sync handlers.
+ * Queries in the passthrough inclusions list, such as _getTemplate, are handled
+ * directly by the Requesting concept instead.
  */
@@ -0,0 +1,638 @@
+import { actions, Empty, Sync } from "@engine";
+import {
+  BodyMapGeneration,
+  CareTeam,
+  MapSummaryGeneration,
+  PainLocationScoring,
+  Requesting,
+  UserAuthentication,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+import { withSessionUser } from "./session.ts";
+
+/**
+ * CareTeam routes come in two groups:
+ * - management routes, where the session's user acts as a clinician registering themselves,
+ *   or as a patient granting, revoking and reviewing access;
+ * - read routes, where the session's user acts as a clinician reading a consenting patient's data.
+ *   Each read first calls CareTeam.authorizeAccess, which logs the attempt, and only fetches
+ *   the patient's data once access is authorized.
+ */
+
+/**
+ * Catches an incoming request to register the logged-in user as a clinician,
+ * validates the session, and triggers the registerClinician action.
+ */
+export const HandleRegisterClinicianRequest: Sync = (
+  { request, session, user },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/registerClinician", session }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.registerClinician, { user }],
+  ),
+});
+
+/**
+ * When registerClinician is successful, this sync responds to the original request.
+ */
+export const HandleRegisterClinicianResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/registerClinician" }, { request }],
+    [CareTeam.registerClinician, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If registerClinician fails (e.g. already registered), this sync catches the error
+ * and sends it back in response to the original request.
+ */
+export const HandleRegisterClinicianErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/registerClinician" }, { request }],
+    [CareTeam.registerClinician, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a patient to give a clinician read access to their data,
+ * validates the session, and triggers the grantAccess action with the session's user as the patient.
+ *
+ * Note: expiresAt must always be sent, as null for access that lasts until revoked.
+ */
+export const HandleGrantAccessRequest: Sync = (
+  { request, session, user, clinician, expiresAt },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/grantAccess", session, clinician, expiresAt }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.grantAccess, { patient: user, clinician, expiresAt }],
+  ),
+});
+
+/**
+ * When grantAccess is successful, this sync responds to the original request with the grant ID.
+ */
+export const HandleGrantAccessResponse: Sync = ({ request, grant }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/grantAccess" }, { request }],
+    [CareTeam.grantAccess, {}, { grant }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, grant }],
+  ),
+});
+
+/**
+ * If grantAccess fails (e.g. the clinician is not registered), this sync catches the error
+ * and sends it back in response to the original request.
+ */
+export const HandleGrantAccessErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/grantAccess" }, { request }],
+    [CareTeam.grantAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a patient to end a clinician's access to their data,
+ * validates the session, and triggers the revokeAccess action.
+ */
+export const HandleRevokeAccessRequest: Sync = (
+  { request, session, user, clinician },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/revokeAccess", session, clinician }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.revokeAccess, { patient: user, clinician }],
+  ),
+});
+
+/**
+ * When revokeAccess is successful, this sync responds to the original request.
+ */
+export const HandleRevokeAccessResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/revokeAccess" }, { request }],
+    [CareTeam.revokeAccess, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If revokeAccess fails (e.g. the clinician has no access), this sync catches the error
+ * and sends it back in response to the original request.
+ */
+export const HandleRevokeAccessErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/revokeAccess" }, { request }],
+    [CareTeam.revokeAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a patient to list the clinicians who can currently read their data,
+ * validates the session, and responds with the patient's active grants.
+ */
+export const HandleGetCareTeamRequest: Sync = (
+  { request, session, user, grants },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/_getCareTeam", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      CareTeam._getCareTeam as unknown as (
+        args: { patient: unknown },
+      ) => Promise<Array<{ grants: unknown }>>,
+      { patient: user },
+      { grants },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, grants }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a clinician to list the patients whose data they can currently read,
+ * validates the session, and responds with the clinician's active grants.
+ */
+export const HandleGetPatientsRequest: Sync = (
+  { request, session, user, grants },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/_getPatients", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      CareTeam._getPatients as unknown as (
+        args: { clinician: unknown },
+      ) => Promise<Array<{ grants: unknown }>>,
+      { clinician: user },
+      { grants },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, grants }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a patient to review which clinicians have read their data,
+ * validates the session, and responds with the patient's access log.
+ */
+export const HandleGetAccessLogRequest: Sync = (
+  { request, session, user, entries },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/_getAccessLog", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      CareTeam._getAccessLog as unknown as (
+        args: { patient: unknown },
+      ) => Promise<Array<{ entries: unknown }>>,
+      { patient: user },
+      { entries },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, entries }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a clinician to read a patient's saved maps,
+ * validates the session, and asks CareTeam to authorize and log the access.
+ */
+export const HandlePatientSavedMapsRequest: Sync = (
+  { request, session, user, patient, resource },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSavedMaps", session, patient }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return frames.map(($) => ({ ...$, [resource]: "savedMaps" }));
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.authorizeAccess, { clinician: user, patient, resource }],
+  ),
+});
+
+/**
+ * Once access to the patient's saved maps is authorized, fetches them and
+ * responds to the original request.
+ */
+export const HandlePatientSavedMapsResponse: Sync = (
+  { request, patient, grant, maps },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSavedMaps", patient }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getSavedMaps({
+          user: user as ID,
+        });
+        return "error" in result ? [] : [result];
+      },
+      { user: patient },
+      { maps },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, maps }],
+  ),
+});
+
+/**
+ * If access is authorized but fetching the patient's saved maps fails,
+ * this sync sends the error back in response to the original request.
+ */
+export const HandlePatientSavedMapsErrorResponse: Sync = (
+  { request, patient, grant, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSavedMaps", patient }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await BodyMapGeneration._getSavedMaps({
+          user: user as ID,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { user: patient },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If the clinician does not have access to the patient, this sync sends the error
+ * back in response to the original request.
+ */
+export const HandlePatientSavedMapsDeniedResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSavedMaps" }, { request }],
+    [CareTeam.authorizeAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a clinician to read the regions on one of a patient's maps,
+ * validates the session, and asks CareTeam to authorize and log the access.
+ */
+export const HandlePatientRegionsForMapRequest: Sync = (
+  { request, session, user, patient, map, resource },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientRegionsForMap", session, patient, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return frames.map(($) => ({ ...$, [resource]: `regionsForMap:${$[map]}` }));
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.authorizeAccess, { clinician: user, patient, resource }],
+  ),
+});
+
+/**
+ * Once access to the patient's data is authorized, fetches the regions on the requested map
+ * and responds to the original request.
+ */
+export const HandlePatientRegionsForMapResponse: Sync = (
+  { request, patient, map, grant, regions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientRegionsForMap", patient, map }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await PainLocationScoring._getRegionsForMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        return Array.isArray(result) ? [{ regions: result }] : [];
+      },
+      { user: patient, map },
+      { regions },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, regions }],
+  ),
+});
+
+/**
+ * If access is authorized but the requested map is not one of the patient's,
+ * this sync sends the error back in response to the original request.
+ */
+export const HandlePatientRegionsForMapErrorResponse: Sync = (
+  { request, patient, map, grant, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientRegionsForMap", patient, map }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await PainLocationScoring._getRegionsForMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        return Array.isArray(result) ? [] : [result];
+      },
+      { user: patient, map },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If the clinician does not have access to the patient, this sync sends the error
+ * back in response to the original request.
+ */
+export const HandlePatientRegionsForMapDeniedResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientRegionsForMap" }, { request }],
+    [CareTeam.authorizeAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request from a clinician to export all of a patient's summaries as a PDF,
+ * validates the session, and asks CareTeam to authorize and log the access.
+ */
+export const HandlePatientSummariesPDFRequest: Sync = (
+  { request, session, user, patient, resource },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummariesPDF", session, patient }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return frames.map(($) => ({ ...$, [resource]: "summariesPDF" }));
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.authorizeAccess, { clinician: user, patient, resource }],
+  ),
+});
+
+/**
+ * Once access to the patient's summaries is authorized, triggers the PDF export.
+ */
+export const HandlePatientSummariesPDFAuthorized: Sync = (
+  { request, patient, grant },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummariesPDF", patient }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  then: actions(
+    [MapSummaryGeneration.exportUserSummariesAsPDF, { user: patient }],
+  ),
+});
+
+/**
+ * When the export is successful, this sync responds to the original request with the PDF.
+ */
+export const HandlePatientSummariesPDFResponse: Sync = (
+  { request, pdfBuffer },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummariesPDF" }, { request }],
+    [MapSummaryGeneration.exportUserSummariesAsPDF, {}, { pdfBuffer }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, pdfBuffer }],
+  ),
+});
+
+/**
+ * If the export fails (e.g. the patient has no summaries yet), this sync catches the error
+ * and sends it back in response to the original request.
+ */
+export const HandlePatientSummariesPDFErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummariesPDF" }, { request }],
+    [MapSummaryGeneration.exportUserSummariesAsPDF, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If the clinician does not have access to the patient, this sync sends the error
+ * back in response to the original request.
+ */
+export const HandlePatientSummariesPDFDeniedResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummariesPDF" }, { request }],
+    [CareTeam.authorizeAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Helper function to check that a summary is one of the patient's before any access to it is
+ * authorized, so that a mismatched summary is neither logged as an allowed access nor left unanswered.
+ * @param summaryId The ID of the requested summary.
+ * @param patient The ID of the patient the clinician asked about.
+ * @returns An error if the summary cannot be fetched or is not the patient's, otherwise nothing.
+ */
+async function checkPatientSummary(
+  summaryId: unknown,
+  patient: unknown,
+): Promise<{ error: string } | Empty> {
+  const result = await MapSummaryGeneration._getSummary({
+    summaryId: summaryId as ID,
+  });
+  if ("error" in result) {
+    return result;
+  }
+  if (result.summary === null || result.summary.userId !== patient) {
+    return { error: `Summary '${summaryId}' not found for this patient.` };
+  }
+  return {};
+}
+
+/**
+ * Catches an incoming request from a clinician to export one of a patient's summaries as a PDF,
+ * validates the session, checks the summary is the patient's, and asks CareTeam to authorize
+ * and log the access.
+ *
+ * Note: exportSummaryAsPDF does not check ownership itself, so the summary is checked here,
+ * before access is authorized.
+ */
+export const HandlePatientSummaryPDFRequest: Sync = (
+  { request, session, user, patient, summaryId, resource },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF", session, patient, summaryId }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { summaryId, patient }: { summaryId: unknown; patient: unknown },
+      ) => {
+        const check = await checkPatientSummary(summaryId, patient);
+        return "error" in check ? [] : [{ resource: `summaryPDF:${summaryId}` }];
+      },
+      { summaryId, patient },
+      { resource },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [CareTeam.authorizeAccess, { clinician: user, patient, resource }],
+  ),
+});
+
+/**
+ * If the requested summary is not one of the patient's, or cannot be fetched, this sync sends
+ * the error back in response to the original request without authorizing or logging any access.
+ */
+export const HandlePatientSummaryPDFMismatchResponse: Sync = (
+  { request, session, user, patient, summaryId, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF", session, patient, summaryId }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { summaryId, patient }: { summaryId: unknown; patient: unknown },
+      ) => {
+        const check = await checkPatientSummary(summaryId, patient);
+        return "error" in check ? [check] : [];
+      },
+      { summaryId, patient },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Once access to the patient's summaries is authorized, triggers the PDF export.
+ */
+export const HandlePatientSummaryPDFAuthorized: Sync = (
+  { request, summaryId, grant },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF", summaryId }, { request }],
+    [CareTeam.authorizeAccess, {}, { grant }],
+  ),
+  then: actions(
+    [MapSummaryGeneration.exportSummaryAsPDF, { summaryId }],
+  ),
+});
+
+/**
+ * When the export is successful, this sync responds to the original request with the PDF.
+ */
+export const HandlePatientSummaryPDFResponse: Sync = (
+  { request, pdfBuffer },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF" }, { request }],
+    [MapSummaryGeneration.exportSummaryAsPDF, {}, { pdfBuffer }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, pdfBuffer }],
+  ),
+});
+
+/**
+ * If the export fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandlePatientSummaryPDFErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF" }, { request }],
+    [MapSummaryGeneration.exportSummaryAsPDF, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * If the clinician does not have access to the patient, this sync sends the error
+ * back in response to the original request.
+ */
+export const HandlePatientSummaryPDFDeniedResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CareTeam/patientSummaryPDF" }, { request }],
+    [CareTeam.authorizeAccess, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
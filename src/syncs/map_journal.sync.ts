@@ -0,0 +1,328 @@
+import { actions, Sync } from "@engine";
+import {
+  BodyMapGeneration,
+  MapJournal,
+  Requesting,
+  UserAuthentication,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+import { withSessionUser } from "./session.ts";
+
+/**
+ * Catches an incoming request to write a journal entry for one of the logged-in user's maps,
+ * validates the session, checks with BodyMapGeneration that the map is the user's,
+ * and triggers the addEntry action.
+ */
+export const HandleAddEntryRequest: Sync = (
+  { request, session, user, map, note, tags, mapState },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addEntry", session, map, note, tags }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    frames = await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await BodyMapGeneration._getMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        return "error" in result ? [] : [{ mapState: result.map }];
+      },
+      { user, map },
+      { mapState },
+    );
+    return frames.filter(($) => $[mapState] !== null);
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [MapJournal.addEntry, { user, map, note, tags }],
+  ),
+});
+
+/**
+ * If the map is not one of the user's, or looking it up fails, this sync sends
+ * the error back in response to the original request.
+ */
+export const HandleAddEntryMapErrorResponse: Sync = (
+  { request, session, user, map, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addEntry", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await BodyMapGeneration._getMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        if ("error" in result) {
+          return [result];
+        }
+        return result.map === null
+          ? [{ error: `Map ${map} not found for user ${user}.` }]
+          : [];
+      },
+      { user, map },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * When addEntry is successful, this sync responds to the original request.
+ */
+export const HandleAddEntryResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addEntry" }, { request }],
+    [MapJournal.addEntry, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If addEntry fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleAddEntryErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addEntry" }, { request }],
+    [MapJournal.addEntry, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to replace the note and tags of a journal entry,
+ * validates the session, and triggers the editEntry action.
+ */
+export const HandleEditEntryRequest: Sync = (
+  { request, session, user, map, note, tags },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/editEntry", session, map, note, tags }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [MapJournal.editEntry, { user, map, note, tags }],
+  ),
+});
+
+/**
+ * When editEntry is successful, this sync responds to the original request.
+ */
+export const HandleEditEntryResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/editEntry" }, { request }],
+    [MapJournal.editEntry, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If editEntry fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleEditEntryErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/editEntry" }, { request }],
+    [MapJournal.editEntry, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to delete a journal entry,
+ * validates the session, and triggers the removeEntry action.
+ */
+export const HandleRemoveEntryRequest: Sync = (
+  { request, session, user, map },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeEntry", session, map }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [MapJournal.removeEntry, { user, map }],
+  ),
+});
+
+/**
+ * When removeEntry is successful, this sync responds to the original request.
+ */
+export const HandleRemoveEntryResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeEntry" }, { request }],
+    [MapJournal.removeEntry, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If removeEntry fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleRemoveEntryErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeEntry" }, { request }],
+    [MapJournal.removeEntry, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to add a tag to the logged-in user's vocabulary,
+ * validates the session, and triggers the addTag action.
+ */
+export const HandleAddTagRequest: Sync = ({ request, session, user, tag }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addTag", session, tag }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [MapJournal.addTag, { user, tag }],
+  ),
+});
+
+/**
+ * When addTag is successful, this sync responds to the original request with the tag.
+ */
+export const HandleAddTagResponse: Sync = ({ request, tag }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addTag" }, { request }],
+    [MapJournal.addTag, {}, { tag }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, tag }],
+  ),
+});
+
+/**
+ * If addTag fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleAddTagErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/addTag" }, { request }],
+    [MapJournal.addTag, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to remove a tag from the logged-in user's vocabulary,
+ * validates the session, and triggers the removeTag action.
+ */
+export const HandleRemoveTagRequest: Sync = (
+  { request, session, user, tag },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeTag", session, tag }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [MapJournal.removeTag, { user, tag }],
+  ),
+});
+
+/**
+ * When removeTag is successful, this sync responds to the original request.
+ */
+export const HandleRemoveTagResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeTag" }, { request }],
+    [MapJournal.removeTag, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If removeTag fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleRemoveTagErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/removeTag" }, { request }],
+    [MapJournal.removeTag, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the logged-in user's journal entry for a map,
+ * validates the session, and responds with the result.
+ */
+export const HandleGetEntryRequest: Sync = (
+  { request, session, user, map, entry },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/_getEntry", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      MapJournal._getEntry as unknown as (
+        args: { user: unknown; map: unknown },
+      ) => Promise<Array<{ entry: unknown }>>,
+      { user, map },
+      { entry },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, entry }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the tags the logged-in user can choose from,
+ * validates the session, and responds with the result.
+ */
+export const HandleGetTagsRequest: Sync = (
+  { request, session, user, tags },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapJournal/_getTags", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      MapJournal._getTags as unknown as (
+        args: { user: unknown },
+      ) => Promise<Array<{ tags: unknown }>>,
+      { user },
+      { tags },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, tags }],
+  ),
+});
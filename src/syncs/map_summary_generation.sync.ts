@@ -0,0 +1,123 @@
+import { actions, Sync } from "@engine";
+import { MapSummaryGeneration, Requesting, UserAuthentication } from "@concepts";
+import { ID } from "@utils/types.ts";
+import { withSessionUser } from "./session.ts";
+
+/**
+ * Catches an incoming request for one of the logged-in user's summaries, validates the session,
+ * and responds with the summary.
+ *
+ * Note: A summary that belongs to someone else is answered as null, the same as one that does
+ * not exist, so summary IDs reveal nothing about other users.
+ */
+export const HandleGetSummaryRequest: Sync = (
+  { request, session, user, summaryId, summary },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapSummaryGeneration/_getSummary", session, summaryId }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, summaryId }: { user: unknown; summaryId: unknown }) => {
+        const result = await MapSummaryGeneration._getSummary({
+          summaryId: summaryId as ID,
+        });
+        if ("error" in result) {
+          return [];
+        }
+        const owned = result.summary?.userId === user ? result.summary : null;
+        return [{ summary: owned }];
+      },
+      { user, summaryId },
+      { summary },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, summary }],
+  ),
+});
+
+/**
+ * If fetching the summary fails, this sync sends the error back in response to the original request.
+ */
+export const HandleGetSummaryErrorResponse: Sync = (
+  { request, session, user, summaryId, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapSummaryGeneration/_getSummary", session, summaryId }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ summaryId }: { summaryId: unknown }) => {
+        const result = await MapSummaryGeneration._getSummary({
+          summaryId: summaryId as ID,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { summaryId },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for all of the logged-in user's summaries, validates the session,
+ * and responds with the summaries.
+ */
+export const HandleGetUserSummariesRequest: Sync = (
+  { request, session, user, summaries },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapSummaryGeneration/_getUserSummaries", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await MapSummaryGeneration._getUserSummaries({
+          user: user as ID,
+        });
+        return "error" in result ? [] : [result];
+      },
+      { user },
+      { summaries },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, summaries }],
+  ),
+});
+
+/**
+ * If fetching the summaries fails, this sync sends the error back in response to the original request.
+ */
+export const HandleGetUserSummariesErrorResponse: Sync = (
+  { request, session, user, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/MapSummaryGeneration/_getUserSummaries", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user }: { user: unknown }) => {
+        const result = await MapSummaryGeneration._getUserSummaries({
+          user: user as ID,
+        });
+        return "error" in result ? [result] : [];
+      },
+      { user },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
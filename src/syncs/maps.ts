@@ -0,0 +1,158 @@
+import { BodyMapGeneration, MapJournal, PainLocationScoring } from "@concepts";
+import { ID } from "@utils/types.ts";
+
+/*
+ * Helpers for syncs that need what several concepts hold about a body map: BodyMapGeneration's
+ * maps and templates, the regions PainLocationScoring has marked on them, and MapJournal's entries.
+ * Each concept only reads its own state, so the lookups are combined here.
+ *
+ * Each helper returns `{ error }` if any of its lookups fails, so a route's request and error
+ * syncs can share it. This file does not end in `.sync.ts`, so it is not registered as a set
+ * of syncs itself.
+ */
+
+/**
+ * Attaches to each map the number of regions marked on it and their highest score.
+ */
+async function withDigests<T extends { _id: ID }>(
+  user: ID,
+  maps: T[],
+): Promise<
+  Array<T & { regionCount: number; maxScore: number | null }> | {
+    error: string;
+  }
+> {
+  const digests = await PainLocationScoring._getMapDigests({
+    user,
+    maps: maps.map((m) => m._id),
+  });
+  if ("error" in digests) {
+    return digests;
+  }
+  return maps.map((m, i) => ({
+    ...m,
+    regionCount: digests[i].regionCount,
+    maxScore: digests[i].maxScore,
+  }));
+}
+
+/**
+ * Finds the first of a user's earlier maps, newest first, that has regions marked,
+ * so days backfilled while no server was running are skipped over.
+ */
+export async function latestMarkedMap(
+  user: ID,
+  previousMaps: ID[],
+): Promise<{ map: ID | null } | { error: string }> {
+  const digests = await PainLocationScoring._getMapDigests({
+    user,
+    maps: previousMaps,
+  });
+  if ("error" in digests) {
+    return digests;
+  }
+  return { map: digests.find((d) => d.regionCount > 0)?.map ?? null };
+}
+
+/**
+ * The user's current map, the earlier map it would be prefilled from (null if none has
+ * regions marked), and whether scores are copied too.
+ */
+export async function carryForwardSource(
+  user: ID,
+): Promise<
+  | { map: ID | null; previousMap: ID | null; withScores: boolean }
+  | { error: string }
+> {
+  const source = await BodyMapGeneration._getCarryForwardSource({ user });
+  if ("error" in source) {
+    return source;
+  }
+  const previous = await latestMarkedMap(user, source.previousMaps);
+  if ("error" in previous) {
+    return previous;
+  }
+  return {
+    map: source.map,
+    previousMap: previous.map,
+    withScores: source.withScores,
+  };
+}
+
+/**
+ * The user's saved maps, each with its journal entry's note and tags (null if it has none)
+ * when includeJournal is true.
+ */
+export async function savedMaps(user: ID, includeJournal: boolean) {
+  const result = await BodyMapGeneration._getSavedMaps({ user });
+  if ("error" in result || !includeJournal) {
+    return result;
+  }
+  const [found] = await MapJournal._getEntries({
+    user,
+    maps: result.maps.map((m) => m._id),
+  });
+  if (!found) {
+    return { error: "Failed to fetch journal entries." };
+  }
+  const byMap = new Map(found.entries.map((e) => [e._id, e]));
+  return {
+    maps: result.maps.map((m) => {
+      const entry = byMap.get(m._id);
+      return {
+        ...m,
+        journal: entry ? { note: entry.note, tags: entry.tags } : null,
+      };
+    }),
+  };
+}
+
+/**
+ * One page of the user's map history, each map with its region count and highest score.
+ */
+export async function mapsInRange(
+  args: {
+    user: ID;
+    start?: string;
+    end?: string;
+    cursor?: string;
+    limit?: number;
+  },
+) {
+  const result = await BodyMapGeneration._getMapsInRange(args);
+  if ("error" in result) {
+    return result;
+  }
+  const maps = await withDigests(args.user, result.maps);
+  if ("error" in maps) {
+    return maps;
+  }
+  return { maps, nextCursor: result.nextCursor };
+}
+
+/**
+ * The user's map for a calendar date with its region count and highest score, or null.
+ */
+export async function mapForDate(user: ID, date: string) {
+  const result = await BodyMapGeneration._getMapForDate({ user, date });
+  if ("error" in result || result.map === null) {
+    return result;
+  }
+  const maps = await withDigests(user, [result.map]);
+  if ("error" in maps) {
+    return maps;
+  }
+  return { map: maps[0] };
+}
+
+/**
+ * The views of the template the user's map is drawn on, for PainLocationScoring to check
+ * placements against; null if BodyMapGeneration does not know the map as theirs.
+ */
+export async function mapViews(user: ID, map: ID) {
+  const result = await BodyMapGeneration._getMapTemplate({ user, map });
+  if ("error" in result) {
+    return result;
+  }
+  return { views: result.template?.views ?? null };
+}
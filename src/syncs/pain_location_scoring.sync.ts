@@ -1,5 +1,8 @@
 import { actions, Sync } from "@engine";
 import { PainLocationScoring, Requesting, UserAuthentication } from "@concepts";
+import { ID } from "@utils/types.ts";
+import { withSessionUser } from "./session.ts";
+import { mapViews } from "./maps.ts";
 
 /**
  * Catches an incoming request to add a region to a map, validates the session,
@@ -9,31 +12,14 @@ import { PainLocationScoring, Requesting, UserAuthentication } from "@concepts";
  * and requests go through the Requesting concept instead.
  */
 export const HandleAddRegionRequest: Sync = (
-  { request, session, user, sessionState, map, regionName },
+  { request, session, user, map, regionName },
 ) => ({
   when: actions(
     [Requesting.request, { path: "/region/add", session, map, regionName }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [PainLocationScoring.addRegion, { user, map, regionName }],
   ),
 });
@@ -65,6 +51,87 @@ export const HandleAddRegionErrorResponse: Sync = ({ request, error }) => ({
   ),
 });
 
+/**
+ * Catches an incoming request to add a region by tapping or drawing on a map, validates the session,
+ * looks up the map's template in BodyMapGeneration, and triggers the addRegion action.
+ * The region is named after the template region the placement falls in.
+ */
+export const HandlePlaceRegionRequest: Sync = (
+  { request, session, user, map, placement, views },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/place", session, map, placement }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await mapViews(user as ID, map as ID);
+        return "error" in result ? [] : [result];
+      },
+      { user, map },
+      { views },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [PainLocationScoring.addRegion, { user, map, placement, views }],
+  ),
+});
+
+/**
+ * If looking up the map's template fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandlePlaceRegionTemplateErrorResponse: Sync = (
+  { request, session, user, map, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/place", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await mapViews(user as ID, map as ID);
+        return "error" in result ? [result] : [];
+      },
+      { user, map },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * When a placed region is added, this sync responds to the original request with the region ID.
+ */
+export const HandlePlaceRegionResponse: Sync = ({ request, region }) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/place" }, { request }],
+    [PainLocationScoring.addRegion, {}, { region }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, region }],
+  ),
+});
+
+/**
+ * If adding a placed region fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandlePlaceRegionErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/place" }, { request }],
+    [PainLocationScoring.addRegion, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
 /**
  * Catches an incoming request to score a region, validates the session,
  * and triggers the scoreRegion action.
@@ -73,31 +140,14 @@ export const HandleAddRegionErrorResponse: Sync = ({ request, error }) => ({
  * and requests go through the Requesting concept instead.
  */
 export const HandleScoreRegionRequest: Sync = (
-  { request, session, user, sessionState, region, score },
+  { request, session, user, region, score },
 ) => ({
   when: actions(
     [Requesting.request, { path: "/region/score", session, region, score }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [PainLocationScoring.scoreRegion, { user, region, score }],
   ),
 });
@@ -137,31 +187,14 @@ export const HandleScoreRegionErrorResponse: Sync = ({ request, error }) => ({
  * and requests go through the Requesting concept instead.
  */
 export const HandleDeleteRegionRequest: Sync = (
-  { request, session, user, sessionState, region },
+  { request, session, user, region },
 ) => ({
   when: actions(
     [Requesting.request, { path: "/region/delete", session, region }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [PainLocationScoring.deleteRegion, { user, region }],
   ),
 });
@@ -194,14 +227,394 @@ export const HandleDeleteRegionErrorResponse: Sync = ({ request, error }) => ({
 });
 
 /**
- * Note: _getRegion and _getRegionsForMap are query methods (starting with `_`)
- * that are included in passthrough routes, meaning they are exposed directly
- * via the Requesting concept's passthrough mechanism, not through syncs.
- * 
- * Query methods (starting with `_`) are NOT instrumented as actions and
- * cannot be used in sync `then: actions()` clauses. They can only be used
- * with `frames.query()` in `where` clauses for internal queries.
+ * Catches an incoming request to describe a region's pain, validates the session,
+ * and triggers the describeRegion action. A null description removes the current one.
+ */
+export const HandleDescribeRegionRequest: Sync = (
+  { request, session, user, region, description },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/describe", session, region, description }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [PainLocationScoring.describeRegion, { user, region, description }],
+  ),
+});
+
+/**
+ * When describeRegion is successful, this sync responds to the original request.
+ */
+export const HandleDescribeRegionResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/describe" }, { request }],
+    [PainLocationScoring.describeRegion, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If describeRegion fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleDescribeRegionErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/region/describe" }, { request }],
+    [PainLocationScoring.describeRegion, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to log many region changes on a map at once, validates the session
+ * a single time, looks up the map's template in BodyMapGeneration for any placements, and triggers
+ * the setMapRegions action.
+ */
+export const HandleSetMapRegionsRequest: Sync = (
+  { request, session, user, map, regions, views },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/regions/bulk", session, map, regions }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await mapViews(user as ID, map as ID);
+        return "error" in result ? [] : [result];
+      },
+      { user, map },
+      { views },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [PainLocationScoring.setMapRegions, { user, map, regions, views }],
+  ),
+});
+
+/**
+ * If looking up the map's template fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleSetMapRegionsTemplateErrorResponse: Sync = (
+  { request, session, user, map, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/regions/bulk", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await mapViews(user as ID, map as ID);
+        return "error" in result ? [result] : [];
+      },
+      { user, map },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * When setMapRegions succeeds, this sync responds to the original request with the result of each change.
+ */
+export const HandleSetMapRegionsResponse: Sync = ({ request, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/regions/bulk" }, { request }],
+    [PainLocationScoring.setMapRegions, {}, { results }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, results }],
+  ),
+});
+
+/**
+ * If setMapRegions rejects the batch, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleSetMapRegionsErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/map/regions/bulk" }, { request }],
+    [PainLocationScoring.setMapRegions, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for one region on the logged-in user's maps,
+ * validates the session, and responds with the region, including its score history and description.
+ */
+export const HandleGetRegionRequest: Sync = (
+  { request, session, user, region, regions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegion", session, region }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, region }: { user: unknown; region: unknown }) => {
+        const result = await PainLocationScoring._getRegion({
+          user: user as ID,
+          region: region as ID,
+        });
+        return Array.isArray(result) ? [{ regions: result }] : [];
+      },
+      { user, region },
+      { regions },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, regions }],
+  ),
+});
+
+/**
+ * If the region is not on one of the user's maps, or fetching it fails, this sync sends
+ * the error back in response to the original request.
+ */
+export const HandleGetRegionErrorResponse: Sync = (
+  { request, session, user, region, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegion", session, region }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, region }: { user: unknown; region: unknown }) => {
+        const result = await PainLocationScoring._getRegion({
+          user: user as ID,
+          region: region as ID,
+        });
+        return Array.isArray(result) ? [] : [result];
+      },
+      { user, region },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the regions on one of the logged-in user's maps,
+ * validates the session, and responds with the regions.
+ */
+export const HandleGetRegionsForMapRequest: Sync = (
+  { request, session, user, map, regions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegionsForMap", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await PainLocationScoring._getRegionsForMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        return Array.isArray(result) ? [{ regions: result }] : [];
+      },
+      { user, map },
+      { regions },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, regions }],
+  ),
+});
+
+/**
+ * If the map is not one of the user's, or fetching its regions fails, this sync sends
+ * the error back in response to the original request.
+ */
+export const HandleGetRegionsForMapErrorResponse: Sync = (
+  { request, session, user, map, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegionsForMap", session, map }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, map }: { user: unknown; map: unknown }) => {
+        const result = await PainLocationScoring._getRegionsForMap({
+          user: user as ID,
+          map: map as ID,
+        });
+        return Array.isArray(result) ? [] : [result];
+      },
+      { user, map },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the score history of a region on one of the logged-in
+ * user's maps, validates the session, and responds with the scores, oldest first.
+ */
+export const HandleGetScoreHistoryRequest: Sync = (
+  { request, session, user, region, history },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getScoreHistory", session, region }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, region }: { user: unknown; region: unknown }) => {
+        const result = await PainLocationScoring._getScoreHistory({
+          user: user as ID,
+          region: region as ID,
+        });
+        return Array.isArray(result) ? [{ history: result }] : [];
+      },
+      { user, region },
+      { history },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, history }],
+  ),
+});
+
+/**
+ * If the region is not on one of the user's maps, or fetching its history fails, this sync
+ * sends the error back in response to the original request.
+ */
+export const HandleGetScoreHistoryErrorResponse: Sync = (
+  { request, session, user, region, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getScoreHistory", session, region }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async ({ user, region }: { user: unknown; region: unknown }) => {
+        const result = await PainLocationScoring._getScoreHistory({
+          user: user as ID,
+          region: region as ID,
+        });
+        return Array.isArray(result) ? [] : [result];
+      },
+      { user, region },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request for the region at a tapped point of one of the logged-in user's maps,
+ * validates the session, and responds with it (an empty array if there is none).
+ */
+export const HandleGetRegionAtRequest: Sync = (
+  { request, session, user, map, view, x, y, regions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegionAt", session, map, view, x, y }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, map, view, x, y }: {
+          user: unknown;
+          map: unknown;
+          view: unknown;
+          x: unknown;
+          y: unknown;
+        },
+      ) => {
+        const result = await PainLocationScoring._getRegionAt({
+          user: user as ID,
+          map: map as ID,
+          view: view as string,
+          x: x as number,
+          y: y as number,
+        });
+        return Array.isArray(result) ? [{ regions: result }] : [];
+      },
+      { user, map, view, x, y },
+      { regions },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, regions }],
+  ),
+});
+
+/**
+ * If the map is not one of the user's, or looking up the point fails, this sync sends the error back
+ * in response to the original request.
+ */
+export const HandleGetRegionAtErrorResponse: Sync = (
+  { request, session, user, map, view, x, y, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/PainLocationScoring/_getRegionAt", session, map, view, x, y }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      async (
+        { user, map, view, x, y }: {
+          user: unknown;
+          map: unknown;
+          view: unknown;
+          x: unknown;
+          y: unknown;
+        },
+      ) => {
+        const result = await PainLocationScoring._getRegionAt({
+          user: user as ID,
+          map: map as ID,
+          view: view as string,
+          x: x as number,
+          y: y as number,
+        });
+        return Array.isArray(result) ? [] : [result];
+      },
+      { user, map, view, x, y },
+      { error },
+    );
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Note: Query methods (starting with `_`) are NOT instrumented as actions and
+ * cannot be used in sync `then: actions()` clauses. The query routes above
+ * therefore run the query in `where`, for the session's user only, and respond
+ * directly.
  * 
- * Since these methods are in the passthrough inclusions list, they are
- * handled directly by the Requesting concept and do not need sync handlers.
+ * Queries in the passthrough inclusions list, such as the fixed vocabularies,
+ * are handled directly by the Requesting concept instead.
  */
@@ -0,0 +1,36 @@
+import { Frames } from "@engine";
+import { UserAuthentication } from "@concepts";
+
+/**
+ * Looks up the session each frame carries and keeps only the frames whose session is
+ * valid, active and unexpired, binding the session's user to `user`.
+ *
+ * Note: Every sync that acts for the logged-in user starts its `where` clause with this,
+ * so the user always comes from the session and never from the request body. This file
+ * does not end in `.sync.ts`, so it is not registered as a set of syncs itself.
+ */
+export async function withSessionUser(
+  frames: Frames,
+  session: symbol,
+  user: symbol,
+): Promise<Frames> {
+  const sessionState = Symbol("sessionState");
+  frames = await frames.queryAsync(
+    UserAuthentication._getSession as unknown as (
+      args: { session: unknown },
+    ) => Promise<Array<{ session: unknown }>>,
+    { session },
+    { sessionState },
+  );
+  return frames
+    .filter(($) => {
+      const sess = $[sessionState] as
+        | { active?: boolean; expired?: boolean }
+        | undefined;
+      return sess && sess.active && !sess.expired;
+    })
+    .map(($) => {
+      const sess = $[sessionState] as { userId: unknown } | undefined;
+      return { ...$, [user]: sess?.userId };
+    });
+}
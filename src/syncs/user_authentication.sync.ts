@@ -1,5 +1,6 @@
 import { actions, Sync } from "@engine";
 import { Requesting, UserAuthentication } from "@concepts";
+import { withSessionUser } from "./session.ts";
 
 /**
  * Catches an incoming request to register a new user.
@@ -36,15 +37,62 @@ export const HandleRegisterResponse: Sync = ({ request, user }) => ({
 
 /**
  * If register fails, this sync catches the error and sends it back
- * in response to the original request.
+ * in response to the original request, along with the list of policy violations
+ * (each with a field, code and message) so the client can show them next to the form fields.
  */
-export const HandleRegisterErrorResponse: Sync = ({ request, error }) => ({
+export const HandleRegisterErrorResponse: Sync = (
+  { request, error, violations },
+) => ({
   when: actions(
     [Requesting.request, { path: "/UserAuthentication/register" }, { request }],
-    [UserAuthentication.register, {}, { error }],
+    [UserAuthentication.register, {}, { error, violations }],
   ),
   then: actions(
-    [Requesting.respond, { request, error }],
+    [Requesting.respond, { request, error, violations }],
+  ),
+});
+
+/**
+ * Catches an incoming request to rename a legacy username that clashed with another user's
+ * once normalized. Like login, it needs no session: the user proves who they are with their password.
+ */
+export const HandleRenameLegacyUsernameRequest: Sync = (
+  { request, username, password, newUsername },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/renameLegacyUsername", username, password, newUsername }, { request }],
+  ),
+  then: actions(
+    [UserAuthentication.renameLegacyUsername, { username, password, newUsername }],
+  ),
+});
+
+/**
+ * When renameLegacyUsername is successful, this sync responds to the original request with the user ID.
+ */
+export const HandleRenameLegacyUsernameResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/renameLegacyUsername" }, { request }],
+    [UserAuthentication.renameLegacyUsername, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+/**
+ * If renameLegacyUsername fails, this sync sends the error back in response to the original request,
+ * along with any policy violations for the new username.
+ */
+export const HandleRenameLegacyUsernameErrorResponse: Sync = (
+  { request, error, violations },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/renameLegacyUsername" }, { request }],
+    [UserAuthentication.renameLegacyUsername, {}, { error, violations }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error, violations }],
   ),
 });
 
@@ -54,34 +102,75 @@ export const HandleRegisterErrorResponse: Sync = ({ request, error }) => ({
  * Note: Login does not require session validation as it creates new sessions.
  * This sync is used when UserAuthentication.login is excluded from passthrough
  * and requests go through the Requesting concept instead.
+ * The client address and user agent injected by the server are passed along so that
+ * repeated failures from one client can be throttled and the session can be listed by device.
  */
 export const HandleLoginRequest: Sync = (
-  { request, username, password },
+  { request, username, password, client, userAgent },
 ) => ({
   when: actions(
-    [Requesting.request, { path: "/UserAuthentication/login", username, password }, { request }],
+    [Requesting.request, { path: "/UserAuthentication/login", username, password, client, userAgent }, { request }],
   ),
   then: actions(
-    [UserAuthentication.login, { username, password }],
+    [UserAuthentication.login, { username, password, client, userAgent }],
   ),
 });
 
 /**
- * When login is successful, this sync responds to the original request with the session ID, user ID, and username.
- * If login fails (invalid credentials), it responds with session: null, user: null, username: null.
+ * When login is successful, this sync responds to the original request with the session ID, user ID, username
+ * and the bearer token to send as `Authorization: Bearer <token>` on later requests.
+ * If login fails (invalid credentials), it responds with session: null, user: null, username: null, token: null.
  */
 export const HandleLoginResponse: Sync = ({
   request,
   session,
   user,
   username,
+  token,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/login" }, { request }],
+    [UserAuthentication.login, {}, { session, user, username, token }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, session, user, username, token }],
+  ),
+});
+
+/**
+ * When the username or client is locked out after too many failed logins, this sync responds
+ * to the original request with locked: true and the time after which login may be retried.
+ */
+export const HandleLoginLockedResponse: Sync = ({
+  request,
+  locked,
+  retryAfter,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/login" }, { request }],
+    [UserAuthentication.login, {}, { locked, retryAfter }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, locked, retryAfter }],
+  ),
+});
+
+/**
+ * When the user has two-factor authentication enabled, login does not start a session yet.
+ * This sync responds to the original request with the challenge to complete via
+ * /UserAuthentication/verifyTotp, and when it expires.
+ */
+export const HandleLoginChallengeResponse: Sync = ({
+  request,
+  challenge,
+  challengeExpiresAt,
 }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAuthentication/login" }, { request }],
-    [UserAuthentication.login, {}, { session, user, username }],
+    [UserAuthentication.login, {}, { challenge, challengeExpiresAt }],
   ),
   then: actions(
-    [Requesting.respond, { request, session, user, username }],
+    [Requesting.respond, { request, challenge, challengeExpiresAt }],
   ),
 });
 
@@ -107,9 +196,7 @@ export const HandleLoginErrorResponse: Sync = ({ request, error }) => ({
  * This sync is used when UserAuthentication.logout is excluded from passthrough
  * and requests go through the Requesting concept instead.
  */
-export const HandleLogoutRequest: Sync = (
-  { request, session },
-) => ({
+export const HandleLogoutRequest: Sync = ({ request, session }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAuthentication/logout", session }, { request }],
   ),
@@ -145,6 +232,146 @@ export const HandleLogoutErrorResponse: Sync = ({ request, error }) => ({
   ),
 });
 
+/**
+ * Catches an incoming request to change the logged-in user's password, validates the session,
+ * and triggers the changePassword action. The session the change is made from stays logged in,
+ * while the user's other sessions are ended.
+ */
+export const HandleChangePasswordRequest: Sync = (
+  { request, session, user, oldPassword, newPassword },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/changePassword",
+      session,
+      oldPassword,
+      newPassword,
+    }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.changePassword, { user, oldPassword, newPassword, session }],
+  ),
+});
+
+/**
+ * When changePassword is successful, this sync responds to the original request.
+ */
+export const HandleChangePasswordResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changePassword" }, { request }],
+    [UserAuthentication.changePassword, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If changePassword fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleChangePasswordErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changePassword" }, { request }],
+    [UserAuthentication.changePassword, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to start a password reset.
+ *
+ * Note: This does not require a session, since the user cannot log in.
+ * The response is the same whether or not the username exists.
+ */
+export const HandleRequestPasswordResetRequest: Sync = (
+  { request, username },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/requestPasswordReset", username }, { request }],
+  ),
+  then: actions(
+    [UserAuthentication.requestPasswordReset, { username }],
+  ),
+});
+
+/**
+ * When requestPasswordReset is successful, this sync responds to the original request.
+ */
+export const HandleRequestPasswordResetResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/requestPasswordReset" }, { request }],
+    [UserAuthentication.requestPasswordReset, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If requestPasswordReset fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleRequestPasswordResetErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/requestPasswordReset" }, { request }],
+    [UserAuthentication.requestPasswordReset, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to complete a password reset with the token
+ * delivered by requestPasswordReset.
+ *
+ * Note: This does not require a session; the single-use token authenticates the request.
+ */
+export const HandleResetPasswordRequest: Sync = (
+  { request, token, newPassword },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/resetPassword", token, newPassword }, { request }],
+  ),
+  then: actions(
+    [UserAuthentication.resetPassword, { token, newPassword }],
+  ),
+});
+
+/**
+ * When resetPassword is successful, this sync responds to the original request.
+ */
+export const HandleResetPasswordResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/resetPassword" }, { request }],
+    [UserAuthentication.resetPassword, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If resetPassword fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleResetPasswordErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/resetPassword" }, { request }],
+    [UserAuthentication.resetPassword, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
 /**
  * Catches an incoming request to get user maps, validates the session,
  * and triggers the getUserMaps action.
@@ -152,32 +379,13 @@ export const HandleLogoutErrorResponse: Sync = ({ request, error }) => ({
  * Note: This sync is used when UserAuthentication.getUserMaps is excluded from passthrough
  * and requests go through the Requesting concept instead.
  */
-export const HandleGetUserMapsRequest: Sync = (
-  { request, session, user, sessionState },
-) => ({
+export const HandleGetUserMapsRequest: Sync = ({ request, session, user }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAuthentication/getUserMaps", session }, { request }],
   ),
-  where: async (frames) => {
-    frames = await frames.queryAsync(
-      UserAuthentication._getSession as unknown as (
-        args: { session: unknown },
-      ) => Promise<Array<{ session: unknown }>>,
-      { session },
-      { sessionState },
-    );
-    // Ensure the session is valid and active before proceeding.
-    return frames
-      .filter(($) => {
-        const sess = $[sessionState] as { active?: boolean } | undefined;
-        return sess && sess.active;
-      })
-      .map(($) => {
-        const sess = $[sessionState] as { userId: unknown } | undefined;
-        return { ...$, [user]: sess?.userId };
-      });
-  },
+  where: (frames) => withSessionUser(frames, session, user),
   then: actions(
+    [UserAuthentication.touchSession, { session }],
     [UserAuthentication.getUserMaps, { user, session }],
   ),
 });
@@ -223,3 +431,359 @@ export const HandleGetUserMapsErrorResponse: Sync = ({ request, error }) => ({
  * action methods (without the `_` prefix) or use the session validation
  * pattern in other syncs.
  */
+
+/**
+ * Catches an incoming request from an administrator to lift the lockout on a username.
+ *
+ * Note: The session identifies the administrator; unlockUser itself checks that
+ * they are configured as one.
+ */
+export const HandleUnlockUserRequest: Sync = (
+  { request, session, admin, username },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/unlockUser", session, username }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, admin),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.unlockUser, { admin, username }],
+  ),
+});
+
+/**
+ * When unlockUser is successful, this sync responds to the original request.
+ */
+export const HandleUnlockUserResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/unlockUser" }, { request }],
+    [UserAuthentication.unlockUser, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If unlockUser fails (e.g. the caller is not an administrator), this sync catches
+ * the error and sends it back in response to the original request.
+ */
+export const HandleUnlockUserErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/unlockUser" }, { request }],
+    [UserAuthentication.unlockUser, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to list the logged-in user's active sessions, validates the session,
+ * and responds with each session's handle, device, user agent, client address, start time and
+ * last-seen time. The session making the request is marked as `current`.
+ *
+ * Note: _getActiveSessions is a query, so it is called from the where clause and
+ * this sync responds directly.
+ */
+export const HandleGetActiveSessionsRequest: Sync = (
+  { request, session, user, sessions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/_getActiveSessions", session }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await withSessionUser(frames, session, user);
+    return await frames.queryAsync(
+      UserAuthentication._getActiveSessions as unknown as (
+        args: { user: unknown; current: unknown },
+      ) => Promise<Array<{ sessions: unknown }>>,
+      { user, current: session },
+      { sessions },
+    );
+  },
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [Requesting.respond, { request, sessions }],
+  ),
+});
+
+/**
+ * Catches an incoming request to end one of the logged-in user's sessions, e.g. on a lost phone,
+ * validates the caller's session, and triggers the revokeSession action for the session listed under `handle`.
+ */
+export const HandleRevokeSessionRequest: Sync = (
+  { request, session, user, handle },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/revokeSession", session, handle }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.revokeSession, { user, handle }],
+  ),
+});
+
+/**
+ * When revokeSession is successful, this sync responds to the original request.
+ */
+export const HandleRevokeSessionResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/revokeSession" }, { request }],
+    [UserAuthentication.revokeSession, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If revokeSession fails (e.g. the session is not the user's or already ended), this sync
+ * catches the error and sends it back in response to the original request.
+ */
+export const HandleRevokeSessionErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/revokeSession" }, { request }],
+    [UserAuthentication.revokeSession, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to end all of the logged-in user's sessions, validates the session,
+ * and triggers the logoutEverywhere action. The requesting session is ended too.
+ */
+export const HandleLogoutEverywhereRequest: Sync = (
+  { request, session, user },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/logoutEverywhere", session }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.logoutEverywhere, { user }],
+  ),
+});
+
+/**
+ * When logoutEverywhere is successful, this sync responds to the original request
+ * with the number of sessions that were ended.
+ */
+export const HandleLogoutEverywhereResponse: Sync = ({ request, revoked }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/logoutEverywhere" }, { request }],
+    [UserAuthentication.logoutEverywhere, {}, { revoked }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, revoked }],
+  ),
+});
+
+/**
+ * If logoutEverywhere fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleLogoutEverywhereErrorResponse: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/logoutEverywhere" }, { request }],
+    [UserAuthentication.logoutEverywhere, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to start TOTP enrolment for the logged-in user, validates the session,
+ * and triggers the enrollTotp action.
+ */
+export const HandleEnrollTotpRequest: Sync = ({ request, session, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/enrollTotp", session }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.enrollTotp, { user }],
+  ),
+});
+
+/**
+ * When enrollTotp is successful, this sync responds to the original request with the secret
+ * and the otpauth:// URI to show as a QR code.
+ */
+export const HandleEnrollTotpResponse: Sync = ({ request, secret, uri }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/enrollTotp" }, { request }],
+    [UserAuthentication.enrollTotp, {}, { secret, uri }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, secret, uri }],
+  ),
+});
+
+/**
+ * If enrollTotp fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleEnrollTotpErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/enrollTotp" }, { request }],
+    [UserAuthentication.enrollTotp, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to confirm TOTP enrolment with a code from the authenticator app,
+ * validates the session, and triggers the confirmTotp action.
+ */
+export const HandleConfirmTotpRequest: Sync = (
+  { request, session, user, code },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/confirmTotp",
+      session,
+      code,
+    }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.confirmTotp, { user, code }],
+  ),
+});
+
+/**
+ * When confirmTotp is successful, this sync responds to the original request with the recovery codes.
+ * They are not stored in plain form, so this is the only time the user can see them.
+ */
+export const HandleConfirmTotpResponse: Sync = ({ request, recoveryCodes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/confirmTotp" }, { request }],
+    [UserAuthentication.confirmTotp, {}, { recoveryCodes }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, recoveryCodes }],
+  ),
+});
+
+/**
+ * If confirmTotp fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleConfirmTotpErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/confirmTotp" }, { request }],
+    [UserAuthentication.confirmTotp, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to turn off two-factor authentication for the logged-in user,
+ * validates the session, and triggers the disableTotp action.
+ */
+export const HandleDisableTotpRequest: Sync = (
+  { request, session, user, password },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/disableTotp",
+      session,
+      password,
+    }, { request }],
+  ),
+  where: (frames) => withSessionUser(frames, session, user),
+  then: actions(
+    [UserAuthentication.touchSession, { session }],
+    [UserAuthentication.disableTotp, { user, password }],
+  ),
+});
+
+/**
+ * When disableTotp is successful, this sync responds to the original request.
+ */
+export const HandleDisableTotpResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/disableTotp" }, { request }],
+    [UserAuthentication.disableTotp, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request, result: {} }],
+  ),
+});
+
+/**
+ * If disableTotp fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleDisableTotpErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/disableTotp" }, { request }],
+    [UserAuthentication.disableTotp, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+/**
+ * Catches an incoming request to complete a two-factor login.
+ *
+ * Note: This does not require a session, since completing the challenge is what creates one.
+ */
+export const HandleVerifyTotpRequest: Sync = (
+  { request, challenge, code },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/verifyTotp", challenge, code }, { request }],
+  ),
+  then: actions(
+    [UserAuthentication.verifyTotp, { challenge, code }],
+  ),
+});
+
+/**
+ * When verifyTotp is successful, this sync responds to the original request exactly as a
+ * login without two-factor authentication would: with the session ID, user ID, username and bearer token.
+ */
+export const HandleVerifyTotpResponse: Sync = ({
+  request,
+  session,
+  user,
+  username,
+  token,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/verifyTotp" }, { request }],
+    [UserAuthentication.verifyTotp, {}, { session, user, username, token }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, session, user, username, token }],
+  ),
+});
+
+/**
+ * If verifyTotp fails, this sync catches the error and sends it back
+ * in response to the original request.
+ */
+export const HandleVerifyTotpErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/verifyTotp" }, { request }],
+    [UserAuthentication.verifyTotp, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
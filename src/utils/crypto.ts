@@ -0,0 +1,81 @@
+/**
+ * Small helpers shared by concepts that work with WebCrypto output.
+ */
+
+/**
+ * Encodes raw bytes as a standard base64 string.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes a standard base64 string into raw bytes.
+ * @throws if the input is not valid base64
+ */
+export function fromBase64(encoded: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Returns `n` cryptographically random bytes.
+ */
+export function randomBytes(n: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(n));
+}
+
+/**
+ * Compares two byte arrays in time that depends only on their lengths,
+ * so that an attacker cannot learn how many leading bytes matched.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Encodes raw bytes as unpadded base64url, safe for use in headers and URLs.
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(
+    /=+$/,
+    "",
+  );
+}
+
+/**
+ * Decodes an unpadded base64url string into raw bytes.
+ * @throws if the input is not valid base64url
+ */
+export function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  const padded = encoded.replace(/-/g, "+").replace(/_/g, "/") +
+    "=".repeat((4 - (encoded.length % 4)) % 4);
+  return fromBase64(padded);
+}
+
+/**
+ * Returns the SHA-256 digest of a string as unpadded base64url, suitable for
+ * storing a lookup key for a secret without storing the secret itself.
+ */
+export async function sha256Base64Url(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
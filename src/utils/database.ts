@@ -27,6 +27,9 @@ async function init() {
   return [client, DB_NAME] as [MongoClient, string];
 }
 
+// The client each database handed out by getDb and testDb was opened with
+const clients = new WeakMap<Db, MongoClient>();
+
 async function dropAllCollections(db: Db): Promise<void> {
   try {
     // Get all collection names
@@ -48,7 +51,9 @@ async function dropAllCollections(db: Db): Promise<void> {
  */
 export async function getDb() {
   const [client, DB_NAME] = await init();
-  return [client.db(DB_NAME), client] as [Db, MongoClient];
+  const db = client.db(DB_NAME);
+  clients.set(db, client);
+  return [db, client] as [Db, MongoClient];
 }
 
 /**
@@ -60,9 +65,25 @@ export async function testDb() {
   const test_DB_NAME = `test-${DB_NAME}`;
   const test_Db = client.db(test_DB_NAME);
   await dropAllCollections(test_Db);
+  clients.set(test_Db, client);
   return [test_Db, client] as [Db, MongoClient];
 }
 
+/**
+ * Returns the MongoClient a database belongs to, e.g. to start a session for a transaction.
+ * Only databases from getDb and testDb are known. Transactions also need the server to be
+ * a replica set or sharded cluster; a standalone server rejects them.
+ */
+export function clientOf(db: Db): MongoClient {
+  const client = clients.get(db);
+  if (client === undefined) {
+    throw new Error(
+      `Database ${db.databaseName} was not opened with getDb or testDb.`,
+    );
+  }
+  return client;
+}
+
 /**
  * Creates a fresh ID.
  * @returns {ID} UUID v7 generic ID.
@@ -0,0 +1,61 @@
+import { assertEquals, assertStrictEquals } from "jsr:@std/assert";
+import { redact } from "@utils/redact.ts";
+
+Deno.test("redact", async (test) => {
+  await test.step("replaces credential fields at any depth", () => {
+    const record = {
+      path: "/UserAuthentication/login",
+      username: "alice",
+      password: "hunter22",
+      output: {
+        session: "s1",
+        sessions: [{ session: "s2", device: "phone" }],
+        totp: { secret: "ABC", uri: "otpauth://x", recoveryCodes: ["r1"] },
+      },
+    };
+    assertEquals(redact(record), {
+      path: "/UserAuthentication/login",
+      username: "alice",
+      password: "[REDACTED]",
+      output: {
+        session: "[REDACTED]",
+        sessions: "[REDACTED]",
+        totp: {
+          secret: "[REDACTED]",
+          uri: "[REDACTED]",
+          recoveryCodes: "[REDACTED]",
+        },
+      },
+    });
+    // The original is left untouched for the syncs that still need it.
+    assertEquals(record.password, "hunter22");
+    assertEquals(record.output.session, "s1");
+  });
+
+  await test.step("redacts frame variables by their symbol's name", () => {
+    const password = Symbol("password");
+    const user = Symbol("user");
+    const [frame] = redact([{ [password]: "hunter22", [user]: "u1" }]);
+    assertEquals(frame[password], "[REDACTED]");
+    assertEquals(frame[user], "u1");
+  });
+
+  await test.step("keeps dates and other values as they are", () => {
+    const createdAt = new Date();
+    const result = redact({ createdAt, count: 3, note: null });
+    assertStrictEquals(result.createdAt, createdAt);
+    assertEquals(result.count, 3);
+    assertEquals(result.note, null);
+  });
+
+  await test.step("copies shared references and stops at cycles", () => {
+    const shared = { token: "t", kept: true };
+    const cyclic: Record<string, unknown> = { name: "loop" };
+    cyclic.self = cyclic;
+    assertEquals(redact({ a: shared, b: shared }), {
+      a: { token: "[REDACTED]", kept: true },
+      b: { token: "[REDACTED]", kept: true },
+    });
+    assertEquals(redact(cyclic), { name: "loop", self: "[Circular]" });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Credential fields that are never persisted or logged as given, at any depth.
+ * Sessions, tokens and codes are bearer credentials; the rest are passwords and secrets.
+ */
+const REDACTED_FIELDS = new Set([
+  "password",
+  "oldPassword",
+  "newPassword",
+  "session",
+  "sessions",
+  "sessionState",
+  "token",
+  "code",
+  "challenge",
+  "secret",
+  "uri",
+  "recoveryCodes",
+]);
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Returns a copy of a value with every credential field replaced, however deeply it is nested
+ * in objects and arrays. Symbol keys match by their description, so the variables the sync
+ * engine binds in frames (e.g. `password`) are redacted too.
+ *
+ * Note: Only plain objects and arrays are copied; dates, IDs and other values are kept as is.
+ */
+export function redact<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (
+    !Array.isArray(value) && prototype !== Object.prototype &&
+    prototype !== null
+  ) {
+    return value;
+  }
+  // Only the objects on the current path are tracked, so shared references are copied each time.
+  seen.add(value);
+  let copy: unknown;
+  if (Array.isArray(value)) {
+    copy = Array.from(value, (item) => redactValue(item, seen));
+  } else {
+    const record = value as Record<PropertyKey, unknown>;
+    const copied: Record<PropertyKey, unknown> = {};
+    for (const key of Reflect.ownKeys(record)) {
+      const name = typeof key === "symbol" ? key.description : key;
+      copied[key] = name !== undefined && REDACTED_FIELDS.has(name)
+        ? REDACTED
+        : redactValue(record[key], seen);
+    }
+    copy = copied;
+  }
+  seen.delete(value);
+  return copy;
+}
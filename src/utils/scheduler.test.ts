@@ -0,0 +1,197 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert";
+import { Db, MongoClient } from "npm:mongodb";
+import { testDb } from "@utils/database.ts";
+import { Clock, ScheduledJob, Scheduler } from "@utils/scheduler.ts";
+
+type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * A clock that only moves when a test advances it, running the timers it passes.
+ */
+class ManualClock implements Clock {
+  private current: number;
+  private nextHandle = 1;
+  readonly timers = new Map<number, { at: number; callback: () => void }>();
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.current + ms, callback });
+    return handle as unknown as TimerHandle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+    for (const [handle, timer] of [...this.timers]) {
+      if (timer.at <= this.current) {
+        this.timers.delete(handle);
+        timer.callback();
+      }
+    }
+  }
+}
+
+/**
+ * Waits, in real time, for work the scheduler started in the background to reach a state.
+ */
+async function until(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert(condition(), "Timed out waiting for the scheduler");
+}
+
+const INTERVAL = 60_000;
+// Thirty seconds into an interval, so the next one starts 30s later
+const START = new Date("2026-03-01T00:00:30.000Z");
+const SLOT = new Date("2026-03-01T00:00:00.000Z");
+
+Deno.test("Scheduler", async (test) => {
+  let client: MongoClient | null = null;
+  let db: Db;
+
+  await test.step("runDue runs a due job once per interval", async () => {
+    try {
+      [db, client] = await testDb();
+      const clock = new ManualClock(START);
+      const scheduler = new Scheduler(db, clock, "instance-a");
+      let runs = 0;
+      const job: ScheduledJob = {
+        name: "dailyMaps",
+        intervalMs: INTERVAL,
+        run: () => Promise.resolve(runs++),
+      };
+
+      assertEquals(await scheduler.runDue(job), true);
+      assertEquals(runs, 1);
+      assertEquals(
+        await scheduler.runDue(job),
+        false,
+        "An interval that has already run should not run again",
+      );
+      assertEquals(runs, 1);
+
+      const lease = await scheduler.leases.findOne({
+        _id: `dailyMaps@${SLOT.toISOString()}`,
+      });
+      assertEquals(lease?.instance, "instance-a");
+      assertEquals(lease?.slot, SLOT);
+      assertEquals(
+        lease?.expiresAt,
+        new Date(SLOT.getTime() + 2 * INTERVAL),
+      );
+
+      // The next interval is due once the clock reaches it
+      clock.advance(INTERVAL);
+      assertEquals(await scheduler.runDue(job), true);
+      assertEquals(runs, 2);
+    } finally {
+      await client?.close();
+    }
+  });
+
+  await test.step(
+    "runDue does not run a job whose interval another instance holds",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const clock = new ManualClock(START);
+        const first = new Scheduler(db, clock, "instance-a");
+        const second = new Scheduler(db, clock, "instance-b");
+        let runs = 0;
+        const job: ScheduledJob = {
+          name: "purgeTrash",
+          intervalMs: INTERVAL,
+          run: () => Promise.resolve(runs++),
+        };
+
+        assertEquals(await first.runDue(job), true);
+        assertEquals(await second.runDue(job), false);
+        assertEquals(runs, 1, "Only the instance holding the lease runs it");
+        assertEquals(
+          await second.leases.countDocuments({ job: "purgeTrash" }),
+          1,
+        );
+
+        // Whichever instance claims the next interval first runs it
+        clock.advance(INTERVAL);
+        assertEquals(await second.runDue(job), true);
+        assertEquals(await first.runDue(job), false);
+        assertEquals(runs, 2);
+        const nextSlot = new Date(SLOT.getTime() + INTERVAL);
+        const lease = await first.leases.findOne({
+          _id: `purgeTrash@${nextSlot.toISOString()}`,
+        });
+        assertEquals(lease?.instance, "instance-b");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step(
+    "start runs each interval as it begins, and stop clears the pending timer",
+    async () => {
+      try {
+        [db, client] = await testDb();
+        const clock = new ManualClock(START);
+        const scheduler = new Scheduler(db, clock, "instance-a");
+        let runs = 0;
+        scheduler.schedule({
+          name: "dailyMaps",
+          intervalMs: INTERVAL,
+          run: () => Promise.resolve(runs++),
+        });
+
+        // The current interval runs straight away, then a timer waits for the next one
+        scheduler.start();
+        await until(() => runs === 1 && clock.timers.size === 1);
+        const [timer] = [...clock.timers.values()];
+        assertEquals(timer.at, SLOT.getTime() + INTERVAL);
+
+        clock.advance(INTERVAL / 2);
+        await until(() => runs === 2 && clock.timers.size === 1);
+
+        scheduler.stop();
+        assertEquals(
+          clock.timers.size,
+          0,
+          "stop should clear the pending timer",
+        );
+        clock.advance(INTERVAL);
+        assertEquals(runs, 2, "No run should start after stop");
+      } finally {
+        await client?.close();
+      }
+    },
+  );
+
+  await test.step("schedule rejects intervals that are not positive", async () => {
+    try {
+      [db, client] = await testDb();
+      const scheduler = new Scheduler(db, new ManualClock(START), "instance-a");
+      for (const intervalMs of [0, -INTERVAL, NaN, INTERVAL / 7]) {
+        assertThrows(() =>
+          scheduler.schedule({
+            name: `bad-${intervalMs}`,
+            intervalMs,
+            run: () => Promise.resolve(),
+          })
+        );
+      }
+    } finally {
+      await client?.close();
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { Collection, Db, MongoServerError } from "npm:mongodb";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure isolation within the database
+const PREFIX = "Scheduler" + ".";
+
+// MongoDB's error code for a write that violates a unique index
+const DUPLICATE_KEY_ERROR = 11000;
+
+type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * The source of time for a Scheduler. Tests can substitute a clock they advance by hand.
+ */
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * The real clock.
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
+
+/**
+ * A system action to run on a fixed interval.
+ *
+ *   name: a unique name for the job, shared by every server instance
+ *   intervalMs: how often to run, a positive whole number; runs are aligned to multiples of the
+ *     interval since the epoch
+ *   run: the action to run. Errors are logged and do not stop later runs.
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+/**
+ * @interface LeaseState
+ * Records which instance claimed a job's run for one interval.
+ *
+ * leases: a set of Leases with
+ *   _id: String ("<job name>@<slot start as ISO string>")
+ *   job: String
+ *   slot: Date
+ *   instance: String
+ *   expiresAt: Date (purged by a TTL index once the slot is long past)
+ */
+interface LeaseState {
+  _id: string;
+  job: string;
+  slot: Date;
+  instance: string;
+  expiresAt: Date;
+}
+
+/**
+ * Runs system actions on a schedule inside the server process.
+ *
+ * Each interval of a job is claimed with a lease in the database before it runs, so when several
+ * server instances share a database, each interval runs on exactly one of them. On start, every
+ * job runs once straight away for the current interval, which catches up on anything missed
+ * while no server was running; the actions themselves are responsible for backfilling.
+ */
+export class Scheduler {
+  leases: Collection<LeaseState>;
+  private readonly jobs: ScheduledJob[] = [];
+  private readonly timers = new Map<string, TimerHandle>();
+  private running = false;
+
+  constructor(
+    private readonly db: Db,
+    private readonly clock: Clock = systemClock,
+    private readonly instance: string = freshID(),
+  ) {
+    this.leases = this.db.collection(PREFIX + "leases");
+    this.leases.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((e) => {
+        console.error("Error creating scheduler lease expiry index:", e);
+      });
+  }
+
+  /**
+   * Adds a job. Jobs added after start() are started immediately.
+   */
+  schedule(job: ScheduledJob): void {
+    if (this.jobs.some((existing) => existing.name === job.name)) {
+      throw new Error(`Job ${job.name} is already scheduled.`);
+    }
+    // A zero or NaN interval would make every timer due at once, so the job would never rest.
+    if (!Number.isSafeInteger(job.intervalMs) || job.intervalMs <= 0) {
+      throw new Error(
+        `Job ${job.name} needs a positive whole-number interval, got ${job.intervalMs}.`,
+      );
+    }
+    this.jobs.push(job);
+    if (this.running) {
+      this.startJob(job);
+    }
+  }
+
+  /**
+   * Runs every job once for the current interval, then on each interval boundary until stopped.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (const job of this.jobs) {
+      this.startJob(job);
+    }
+  }
+
+  /**
+   * Cancels all upcoming runs. A run already in progress finishes.
+   */
+  stop(): void {
+    this.running = false;
+    for (const handle of this.timers.values()) {
+      this.clock.clearTimeout(handle);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Runs a job for the interval containing the current time, unless that interval
+   * has already been claimed by this or another instance.
+   * @returns true if this call ran the job, otherwise false.
+   */
+  async runDue(job: ScheduledJob): Promise<boolean> {
+    const now = this.clock.now();
+    const slot = new Date(
+      Math.floor(now.getTime() / job.intervalMs) * job.intervalMs,
+    );
+    try {
+      await this.leases.insertOne({
+        _id: `${job.name}@${slot.toISOString()}`,
+        job: job.name,
+        slot,
+        instance: this.instance,
+        expiresAt: new Date(slot.getTime() + 2 * job.intervalMs),
+      });
+    } catch (e) {
+      if (e instanceof MongoServerError && e.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      console.error(`Error claiming scheduled run of ${job.name}:`, e);
+      return false;
+    }
+
+    try {
+      const result = await job.run();
+      if (result && typeof result === "object" && "error" in result) {
+        console.error(`Scheduled run of ${job.name} failed:`, result.error);
+      }
+    } catch (e) {
+      console.error(`Scheduled run of ${job.name} threw:`, e);
+    }
+    return true;
+  }
+
+  /**
+   * Helper method to run a job for the current interval and then wait for the next one.
+   */
+  private startJob(job: ScheduledJob): void {
+    this.runDue(job).finally(() => this.armNext(job));
+  }
+
+  /**
+   * Helper method to set a timer for the start of the job's next interval.
+   */
+  private armNext(job: ScheduledJob): void {
+    if (!this.running) return;
+    const now = this.clock.now().getTime();
+    const nextSlot = (Math.floor(now / job.intervalMs) + 1) * job.intervalMs;
+    this.timers.set(
+      job.name,
+      this.clock.setTimeout(() => {
+        this.timers.delete(job.name);
+        this.startJob(job);
+      }, nextSlot - now),
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  fromBase64Url,
+  randomBytes,
+  timingSafeEqual,
+  toBase64Url,
+} from "@utils/crypto.ts";
+import { ID } from "@utils/types.ts";
+
+/**
+ * # Bearer token configuration
+ * The following environment variables are available:
+ *
+ * - AUTH_TOKEN_SECRET: the HMAC-SHA256 signing secret shared by every server instance.
+ *   If unset, a random secret is generated at startup and tokens do not survive a restart.
+ */
+const AUTH_TOKEN_SECRET = Deno.env.get("AUTH_TOKEN_SECRET");
+if (AUTH_TOKEN_SECRET === undefined) {
+  console.warn(
+    "AUTH_TOKEN_SECRET is not set: using a random signing secret for this process only.",
+  );
+}
+
+/**
+ * The identity carried by a bearer token.
+ *
+ *   user: the authenticated User
+ *   session: the Session the token was issued for
+ *   expiresAt: expiry as milliseconds since the epoch
+ */
+export interface TokenClaims {
+  user: ID;
+  session: ID;
+  expiresAt: number;
+}
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    const secret = AUTH_TOKEN_SECRET !== undefined
+      ? new TextEncoder().encode(AUTH_TOKEN_SECRET)
+      : randomBytes(32);
+    signingKey = crypto.subtle.importKey(
+      "raw",
+      secret,
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+  }
+  return signingKey;
+}
+
+async function sign(payload: string): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    new TextEncoder().encode(payload),
+  );
+  return new Uint8Array(signature);
+}
+
+/**
+ * Issues a signed bearer token of the form `<base64url claims>.<base64url HMAC>`.
+ */
+export async function signToken(claims: TokenClaims): Promise<string> {
+  const payload = toBase64Url(
+    new TextEncoder().encode(JSON.stringify(claims)),
+  );
+  return `${payload}.${toBase64Url(await sign(payload))}`;
+}
+
+/**
+ * Verifies a bearer token's signature and expiry.
+ * @returns the token's claims, or null if the token is malformed, forged or expired
+ */
+export async function verifyToken(
+  token: string,
+  now: Date = new Date(),
+): Promise<TokenClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 2) {
+    return null;
+  }
+  const [payload, signature] = parts;
+
+  let claims: TokenClaims;
+  try {
+    if (!timingSafeEqual(fromBase64Url(signature), await sign(payload))) {
+      return null;
+    }
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.user !== "string" || typeof claims.session !== "string" ||
+    typeof claims.expiresAt !== "number" ||
+    claims.expiresAt <= now.getTime()
+  ) {
+    return null;
+  }
+  return claims;
+}